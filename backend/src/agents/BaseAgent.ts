@@ -2,68 +2,154 @@ import {
   ReasoningStep,
   AgentAction,
   AgentObservation,
+  AgentStepRecord,
+  AgentOptions,
+  AgentCallbacks,
   ChatMessage,
+  DeepSeekMessage,
   Tool,
-  LLMService
+  LLMService,
+  LLMCallOptions,
+  LLMCallPurpose,
+  LLMUsageRecord,
+  Product,
+  ToolExecutionContext
 } from '../types';
+import { LLMServiceError } from '../services/LLMServiceError';
+
+const DEFAULT_MAX_STEPS = 5;
+const DEFAULT_MAX_DURATION_MS = 45000;
 
 /**
- * An abstract base class for creating agents that follow a simplified
- * ReAct (Reason+Act) pattern. It orchestrates a single-turn loop:
- * Think (LLM decides tool) -> Act (execute tool) -> Observe (get result) -> Synthesize (LLM creates final response).
+ * An abstract base class for creating agents that follow the ReAct (Reason+Act) pattern.
+ * It orchestrates an iterative loop:
+ * Think (LLM decides the next tool) -> Act (execute tool) -> Observe (get result) -> repeat,
+ * until the LLM decides it has enough information or the step/time budget is exhausted,
+ * then Synthesize (LLM creates final response from every observation).
  */
 export abstract class BaseAgent {
   protected readonly tools: Map<string, Tool> = new Map();
   protected reasoning: ReasoningStep[] = [];
+  protected callbacks: AgentCallbacks = {};
+  protected usage: LLMUsageRecord[] = [];
+  protected toolContext: ToolExecutionContext = {};
+  protected readonly options: Required<AgentOptions>;
 
-  constructor(protected llmService: LLMService) {}
+  constructor(protected llmService: LLMService, options: AgentOptions = {}) {
+    this.options = {
+      maxSteps: options.maxSteps || DEFAULT_MAX_STEPS,
+      maxDurationMs: options.maxDurationMs || DEFAULT_MAX_DURATION_MS
+    };
+  }
 
   /**
    * The main entry point for processing a user's query.
    * @param userMessage The message from the user.
    * @param context The history of the conversation.
+   * @param callbacks Optional hooks notified of each reasoning step and final-answer token as they are produced.
+   * @param toolContext Request context passed to every tool, such as the chat session id.
    * @returns A promise that resolves to the agent's final response.
    */
-  public async processQuery(userMessage: string, context: ChatMessage[] = []): Promise<{
+  public async processQuery(userMessage: string, context: ChatMessage[] = [], callbacks: AgentCallbacks = {}, toolContext: ToolExecutionContext = {}): Promise<{
     response: string;
     reasoning: ReasoningStep[];
-    products?: any[];
+    products?: Product[];
+    usage: LLMUsageRecord[];
     error?: string;
   }> {
     this.clearReasoning();
+    this.usage = [];
+    this.callbacks = callbacks;
+    this.toolContext = toolContext;
 
     try {
-      this.think('Determining the appropriate tool to use based on the user\'s message.');
-      const action = await this.generateAction(userMessage, context);
-
-      if (!action || action.tool === 'null') {
-        const finalResponse = await this.generateFinalResponse(userMessage, context);
-        return {
-          ...finalResponse,
-          reasoning: this.reasoning
-        };
+      const resolvedMessage = await this.resolveQuery(userMessage, context);
+      if (resolvedMessage !== userMessage) {
+        this.think(`Interpreting the follow-up as: "${resolvedMessage}"`);
       }
 
-      const observation = await this.executeAction(action);
-      this.observe(observation, action.tool);
-
-      const finalResponse = await this.generateFinalResponse(userMessage, context, observation);
+      const steps = await this.runReasoningLoop(resolvedMessage, context);
+      const finalResponse = await this.generateFinalResponse(resolvedMessage, context, steps);
 
       return {
         ...finalResponse,
-        reasoning: this.reasoning
+        reasoning: this.reasoning,
+        usage: this.usage
       };
     } catch (error) {
+      // Provider failures carry a category the server maps to a proper HTTP status
+      if (error instanceof LLMServiceError) {
+        error.usage = [...error.usage, ...this.usage];
+        throw error;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-      this.reasoning.push({ step: this.reasoning.length + 1, type: 'observation', content: `An error occurred: ${errorMessage}`, result: null, tool: 'agent', timestamp: new Date() });
+      this.recordStep({ type: 'observation', content: `An error occurred: ${errorMessage}`, result: null, tool: 'agent' });
       return {
         response: this.generateErrorResponse(errorMessage),
         reasoning: this.reasoning,
+        usage: this.usage,
         error: errorMessage
       };
     }
   }
 
+  /**
+   * Repeatedly asks the LLM for the next action and executes it, feeding every
+   * previous step back in, until it chooses to give a final answer or a budget runs out.
+   * @returns The completed action/observation pairs, in execution order.
+   */
+  protected async runReasoningLoop(userMessage: string, context: ChatMessage[]): Promise<AgentStepRecord[]> {
+    const steps: AgentStepRecord[] = [];
+    const startedAt = Date.now();
+    let validationRetryUsed = false;
+
+    this.think('Determining the appropriate tool to use based on the user\'s message.');
+
+    while (steps.length < this.options.maxSteps) {
+      // Tools do not take the signal, so a cancelled turn stops between steps
+      if (this.callbacks.signal?.aborted) {
+        throw LLMServiceError.aborted();
+      }
+      if (Date.now() - startedAt >= this.options.maxDurationMs) {
+        this.think(`Time budget of ${this.options.maxDurationMs}ms reached; answering with the information gathered so far.`);
+        return steps;
+      }
+
+      const action = await this.generateAction(userMessage, context, steps);
+
+      if (!action) {
+        this.think(steps.length === 0
+          ? 'No tool is needed; answering directly.'
+          : 'Enough information has been gathered to give a final answer.');
+        return steps;
+      }
+
+      const previous = steps[steps.length - 1];
+      if (previous && this.isSameAction(previous.action, action)) {
+        this.think(`Skipping repeated call to ${action.tool} with identical parameters; answering with the information gathered so far.`);
+        return steps;
+      }
+
+      const observation = await this.executeAction(action);
+      this.observe(observation, action.tool);
+      steps.push({ action, observation });
+
+      // Invalid parameters are fed back to the LLM for a single self-correction attempt
+      if (observation.metadata?.validationFailed) {
+        if (validationRetryUsed) {
+          this.think('Tool parameters were still invalid after a correction attempt; answering with the information gathered so far.');
+          return steps;
+        }
+        validationRetryUsed = true;
+        this.think(`Parameters for ${action.tool} failed validation; asking for corrected parameters.`);
+      }
+    }
+
+    this.think(`Reached the maximum of ${this.options.maxSteps} tool calls; answering with the information gathered so far.`);
+    return steps;
+  }
+
   /**
    * Executes a tool based on the provided action and returns the result.
    * @param action The action specifying which tool to use and with what parameters.
@@ -78,9 +164,25 @@ export abstract class BaseAgent {
       return { success: false, error: errorMsg, result: null };
     }
 
+    const validation = tool.schema.safeParse(action.parameters);
+    if (!validation.success) {
+      const validationErrors = validation.error.errors.map(issue => ({
+        parameter: issue.path.join('.') || '(parameters)',
+        message: issue.message
+      }));
+      return {
+        success: false,
+        error: `Invalid parameters for ${tool.name}: ${validationErrors.map(e => `${e.parameter}: ${e.message}`).join('; ')}`,
+        result: { validationErrors, expectedParameters: tool.parameters },
+        metadata: { validationFailed: true }
+      };
+    }
+
     try {
-      const result = await tool.execute(action.parameters);
-      return { success: true, result: result };
+      const result = await tool.execute(validation.data, this.toolContext);
+      // Tools report their own failures through ToolResult.success rather than throwing
+      const success = result?.success !== false;
+      return { success, result: result, error: success ? undefined : result?.error };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'An unknown tool execution error occurred.';
       return { success: false, error: errorMessage, result: null };
@@ -111,19 +213,73 @@ export abstract class BaseAgent {
   }
 
   protected think(thought: string): void {
-    this.reasoning.push({ step: this.reasoning.length + 1, type: 'thought', content: thought, timestamp: new Date() });
+    this.recordStep({ type: 'thought', content: thought });
   }
 
   protected act(action: AgentAction): void {
-    this.reasoning.push({ step: this.reasoning.length + 1, type: 'action', content: action.reasoning, tool: action.tool, parameters: action.parameters, timestamp: new Date() });
+    this.recordStep({ type: 'action', content: action.reasoning, tool: action.tool, parameters: action.parameters });
   }
 
   protected observe(observation: AgentObservation, toolName: string): void {
-    this.reasoning.push({ step: this.reasoning.length + 1, type: 'observation', content: observation.success ? `Tool ${toolName} executed successfully.` : `Tool ${toolName} failed: ${observation.error}`, result: observation.result, tool: toolName, timestamp: new Date() });
+    this.recordStep({ type: 'observation', content: observation.success ? `Tool ${toolName} executed successfully.` : `Tool ${toolName} failed: ${observation.error}`, result: observation.result, tool: toolName });
+  }
+
+  /**
+   * Appends a step to the reasoning trace and notifies any listener immediately.
+   */
+  private recordStep(step: Omit<ReasoningStep, 'step' | 'timestamp'>): void {
+    const recorded: ReasoningStep = { ...step, step: this.reasoning.length + 1, timestamp: new Date() };
+    this.reasoning.push(recorded);
+    this.callbacks.onStep?.(recorded);
   }
 
-  protected abstract generateAction(userMessage: string, context: ChatMessage[]): Promise<AgentAction | null>;
-  protected abstract generateFinalResponse(userMessage: string, context: ChatMessage[], observation?: AgentObservation): Promise<{ response: string; products?: any[]; }>;
+  /**
+   * Generates text for the user. When a token listener is attached the response is
+   * streamed from the LLM and forwarded fragment by fragment; otherwise it is fetched in one call.
+   * @param messages The prompt to send to the LLM.
+   * @returns The complete generated text.
+   */
+  protected async generateText(messages: DeepSeekMessage[]): Promise<string> {
+    const onToken = this.callbacks.onToken;
+    const options = this.trackUsage('final_response');
+    if (!onToken) {
+      return this.llmService.generateResponse(messages, options);
+    }
+
+    let text = '';
+    for await (const token of this.llmService.streamResponse(messages, options)) {
+      text += token;
+      onToken(token);
+    }
+    return text.trim();
+  }
+
+  /**
+   * Builds call options that record the token usage of one LLM call under the given purpose
+   * and cancel it together with the turn.
+   * @param purpose What the call is for, so tool selection and synthesis are reported separately.
+   */
+  protected trackUsage(purpose: LLMCallPurpose): LLMCallOptions {
+    return { onUsage: usage => this.usage.push({ ...usage, purpose }), signal: this.callbacks.signal };
+  }
+
+  private isSameAction(a: AgentAction, b: AgentAction): boolean {
+    return a.tool === b.tool && JSON.stringify(a.parameters) === JSON.stringify(b.parameters);
+  }
+
+  /**
+   * Rewrites a follow-up that depends on earlier turns ("how do I install that one?") into a
+   * standalone request before tool selection. By default the message is used as is.
+   */
+  protected async resolveQuery(userMessage: string, _context: ChatMessage[]): Promise<string> {
+    return userMessage;
+  }
+
+  /**
+   * Decides the next step of the loop. Returning null means the agent is ready to give its final answer.
+   */
+  protected abstract generateAction(userMessage: string, context: ChatMessage[], previousSteps: AgentStepRecord[]): Promise<AgentAction | null>;
+  protected abstract generateFinalResponse(userMessage: string, context: ChatMessage[], steps: AgentStepRecord[]): Promise<{ response: string; products?: Product[]; }>;
   protected abstract getSystemPrompt(): string;
 
   protected generateErrorResponse(_errorMessage: string): string {
@@ -0,0 +1,217 @@
+import { ApplianceCategoryId, ChatMessage } from '../types';
+import { applianceCategories, getApplianceCategory } from '../data/categories';
+
+export type ChatIntent =
+  | 'compatibility'
+  | 'installation'
+  | 'troubleshooting'
+  | 'guided_troubleshooting'
+  | 'diagnostic_answer'
+  | 'part_lookup'
+  | 'model_parts'
+  | 'product_search'
+  | 'cart'
+  | 'greeting'
+  | 'unknown';
+
+export interface ExtractedIntent {
+  intent: ChatIntent;
+  partNumber?: string;
+  modelNumber?: string;
+  symptom?: string;
+  category?: ApplianceCategoryId;
+  answer?: 'yes' | 'no';
+  note?: string;
+  cart?: CartRequest;
+  query: string;
+}
+
+// What the user wants done with their cart, e.g. "add 2 of the water filter to my cart"
+export interface CartRequest {
+  action: 'add' | 'remove' | 'view';
+  product?: string;
+  quantity?: number;
+}
+
+// Part numbers follow manufacturer conventions (PartSelect PS numbers, Whirlpool W/WP, GE WB/WD/WE/WH/WR, all-digit Frigidaire)
+export const PART_NUMBER_PATTERN = /^(PS\d{5,}|WPW?\d{6,}[A-Z]?|W\d{7,}[A-Z]?|W[BDEHR]\d{2}X\d{4,}|\d{8,})$/;
+export const SYMPTOM_PATTERN = /\b((not|isn'?t|aren'?t|no longer) (working|draining|cooling|heating|spinning|making|producing|starting)|won'?t|doesn'?t|leak(s|ing)?|nois[ey]|broken|stopped|warm)\b/i;
+export const INSTALL_PATTERN = /\b(install|installation|replace|put in)\b/i;
+export const GREETING_PATTERN = /^\s*(hi|hello|hey|thanks|thank you)\b/i;
+export const GUIDED_PATTERN = /\b(walk me through|step[- ]by[- ]step|diagnose|figure out (what'?s|why))\b/i;
+// Guided troubleshooting questions end with this marker, so a short reply to one can be recognised
+export const DIAGNOSTIC_QUESTION_MARKER = '(yes/no)';
+const YES_PATTERN = /^\s*(yes|yeah|yep|yup|correct|it (does|is))\b[\s,.!-]*/i;
+const NO_PATTERN = /^\s*(no|nope|not really|it (doesn'?t|isn'?t))\b[\s,.!-]*/i;
+// "what parts fit my WDT780SAEM1?", "show me parts for ..."
+export const MODEL_PARTS_PATTERN = /\b(parts|what (fits|works))\b/i;
+const COMPATIBILITY_PATTERN = /\b(compatible|compatibility|fit|fits|work with|works with)\b/i;
+export const CART_PATTERN = /\b(cart|basket)\b/i;
+const CART_ADD_PATTERN = /\b(add|put|buy|order)\b/i;
+const CART_REMOVE_PATTERN = /\b(remove|delete|drop|take)\b/i;
+// The product phrase sits between the verb and the cart: "add |the water filter| to my cart"
+const CART_PRODUCT_PATTERN = /\b(?:add|put|buy|order|remove|delete|drop|take)\s+(?:(\d{1,2})\s+(?:x\s+|of\s+)?)?(.*?)\s*(?:\b(?:out\s+)?(?:to|into|in|from|out of)\s+(?:(?:my|the)\s+)?(?:cart|basket)\b|$)/i;
+const CART_FILLER_PATTERN = /^(?:(?:the|a|an|that|this|those|these|it|them|one|some|more|another)\b\s*)+/i;
+
+/**
+ * Extracts the user's intent and its slots (part number, model number, symptom, appliance)
+ * from a chat message using regular expressions only, so simple requests can be served
+ * without an LLM. Missing part or model numbers are filled from earlier conversation turns.
+ * @param message The user's message.
+ * @param context The conversation history, most recent last.
+ * @returns The detected intent and slots.
+ */
+export function extractIntent(message: string, context: ChatMessage[] = []): ExtractedIntent {
+  const { partNumber, modelNumber } = extractIdentifiers(message);
+  const category = detectCategory(message);
+  const query = message.trim();
+
+  const reply = extractDiagnosticAnswer(message);
+  if (reply && isAwaitingDiagnosticAnswer(context)) {
+    return { intent: 'diagnostic_answer', ...reply, query };
+  }
+
+  if (CART_PATTERN.test(message)) {
+    return { intent: 'cart', partNumber, modelNumber, cart: extractCartRequest(message), query };
+  }
+
+  if (GREETING_PATTERN.test(message) && !partNumber && !modelNumber) {
+    return { intent: 'greeting', query };
+  }
+
+  const keyword = findSymptomKeyword(message, category);
+  if ((keyword || SYMPTOM_PATTERN.test(message)) && !partNumber) {
+    return {
+      intent: GUIDED_PATTERN.test(message) ? 'guided_troubleshooting' : 'troubleshooting',
+      symptom: keyword?.symptom || query,
+      category: category || keyword?.category,
+      modelNumber,
+      query
+    };
+  }
+
+  if (modelNumber && !partNumber && MODEL_PARTS_PATTERN.test(message)) {
+    return { intent: 'model_parts', modelNumber, category, query };
+  }
+
+  if (COMPATIBILITY_PATTERN.test(message) || (partNumber && modelNumber)) {
+    const remembered = recallIdentifiers(context);
+    return {
+      intent: 'compatibility',
+      partNumber: partNumber || remembered.partNumber,
+      modelNumber: modelNumber || remembered.modelNumber,
+      category,
+      query
+    };
+  }
+
+  if (INSTALL_PATTERN.test(message)) {
+    return { intent: 'installation', partNumber: partNumber || recallIdentifiers(context).partNumber, category, query };
+  }
+
+  if (partNumber) {
+    return { intent: 'part_lookup', partNumber, category, query };
+  }
+
+  if (category || modelNumber || /\b(part|parts|filter|pump|seal|gasket|rack|valve|motor|hose|shelf|bin)\b/i.test(message)) {
+    return { intent: 'product_search', modelNumber, category, query };
+  }
+
+  return { intent: 'unknown', category, query };
+}
+
+/**
+ * Finds the first part number and first model number in a piece of text. Model numbers
+ * are alphanumeric tokens of six or more characters that are not part numbers.
+ */
+export function extractIdentifiers(text: string): { partNumber?: string; modelNumber?: string } {
+  const identifiers = (text.toUpperCase().match(/\b[A-Z0-9-]{6,}\b/g) || [])
+    .filter(token => /\d/.test(token));
+  const partNumber = identifiers.find(token => PART_NUMBER_PATTERN.test(token));
+  const modelNumber = identifiers.find(token => token !== partNumber && /[A-Z]/.test(token) && !PART_NUMBER_PATTERN.test(token));
+  return { partNumber, modelNumber };
+}
+
+/**
+ * Reads a yes/no reply, keeping whatever the user added after it as a note,
+ * e.g. "yes, the water dispenser works" -> { answer: 'yes', note: 'the water dispenser works' }.
+ */
+export function extractDiagnosticAnswer(message: string): { answer: 'yes' | 'no'; note?: string } | undefined {
+  for (const [answer, pattern] of [['yes', YES_PATTERN], ['no', NO_PATTERN]] as const) {
+    const match = message.match(pattern);
+    if (match) {
+      const note = message.slice(match[0].length).trim();
+      return note ? { answer, note } : { answer };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads a cart request: whether to add, remove or list, and the product and quantity
+ * mentioned, e.g. "add 2 of the water filters to my cart" -> { action: 'add', product: 'water filters', quantity: 2 }.
+ * Pronouns ("add it") leave the product unset, so the part discussed last is used.
+ */
+export function extractCartRequest(message: string): CartRequest {
+  const action = CART_REMOVE_PATTERN.test(message) ? 'remove' : CART_ADD_PATTERN.test(message) ? 'add' : 'view';
+  if (action === 'view') {
+    return { action };
+  }
+
+  const match = message.match(CART_PRODUCT_PATTERN);
+  const quantity = match?.[1] ? Number(match[1]) : undefined;
+  const product = (match?.[2] || '').replace(CART_FILLER_PATTERN, '').replace(/[?.!]+$/, '').trim();
+  return {
+    action,
+    ...(product && !PART_NUMBER_PATTERN.test(product.toUpperCase()) && { product }),
+    ...(quantity && { quantity })
+  };
+}
+
+/**
+ * True when the most recent assistant reply asked a guided troubleshooting question.
+ */
+export function isAwaitingDiagnosticAnswer(context: Array<Pick<ChatMessage, 'role' | 'content'>>): boolean {
+  const lastReply = [...context].reverse().find(message => message.role === 'assistant');
+  return !!lastReply?.content.includes(DIAGNOSTIC_QUESTION_MARKER);
+}
+
+function detectCategory(text: string): ApplianceCategoryId | undefined {
+  return applianceCategories.find(category => category.pattern.test(text))?.id;
+}
+
+/**
+ * Maps a common phrasing of a problem to the wording used by the troubleshooting guides.
+ * The named appliance's phrasings are tried first, since e.g. "not draining" means
+ * different guides for a dishwasher and a washer.
+ */
+function findSymptomKeyword(text: string, category?: ApplianceCategoryId): { symptom: string; category: ApplianceCategoryId } | undefined {
+  const named = category ? getApplianceCategory(category) : undefined;
+  const candidates = named ? [named, ...applianceCategories.filter(entry => entry !== named)] : applianceCategories;
+
+  for (const entry of candidates) {
+    const keyword = entry.symptoms.find(symptom => symptom.pattern.test(text));
+    if (keyword) {
+      return { symptom: keyword.symptom, category: entry.id };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Looks back through the conversation for the most recently mentioned part and model numbers.
+ */
+function recallIdentifiers(context: ChatMessage[]): { partNumber?: string; modelNumber?: string } {
+  const remembered: { partNumber?: string; modelNumber?: string } = {};
+
+  for (const message of [...context].reverse()) {
+    const found = extractIdentifiers(message.content);
+    remembered.partNumber = remembered.partNumber || found.partNumber;
+    remembered.modelNumber = remembered.modelNumber || found.modelNumber;
+    if (remembered.partNumber && remembered.modelNumber) {
+      break;
+    }
+  }
+
+  return remembered;
+}
@@ -1,10 +1,42 @@
 import { BaseAgent } from './BaseAgent';
-import { AgentAction, AgentObservation, ChatMessage, LLMService, DeepSeekMessage, Tool } from '../types';
+import { AgentAction, AgentObservation, AgentStepRecord, AgentOptions, ChatMessage, LLMService, DeepSeekMessage, Product, Tool } from '../types';
 import { SearchService } from '../services/SearchService';
 import { ProductSearchTool } from '../tools/ProductSearchTool';
 import { CompatibilityTool } from '../tools/CompatibilityTool';
 import { InstallationTool } from '../tools/InstallationTool';
 import { TroubleshootingTool } from '../tools/TroubleshootingTool';
+import { ModelPartsTool } from '../tools/ModelPartsTool';
+import { GuidedTroubleshootingTool } from '../tools/GuidedTroubleshootingTool';
+import { DiagnosticService } from '../services/DiagnosticService';
+import { CartTool } from '../tools/CartTool';
+import { CartService } from '../services/CartService';
+import { applianceCategories, describeApplianceCategories } from '../data/categories';
+import { toFunctionDefinition } from '../tools/toolSchema';
+import { extractJsonObject, isJsonObject } from '../utils/jsonRepair';
+import { LLMServiceError } from '../services/LLMServiceError';
+
+// Sentinel tool name the LLM uses to end the reasoning loop
+const FINAL_ANSWER = 'final_answer';
+const NATIVE_TOOL_INSTRUCTIONS = `Call the single most useful tool next. Briefly explain why in your message content.
+When the results so far are enough to answer the user (or no tool is needed), reply without calling any tool.`;
+// Number of previous conversation messages included in each LLM call
+const MAX_HISTORY_MESSAGES = 10;
+// Words that usually point back at something from an earlier turn
+const REFERENCE_PATTERN = /\b(it|its|that|this|those|these|them|one|same|above|previous|earlier|first|second|third|last|my model|my (fridge|refrigerator|dishwasher|washer|dryer|range|oven|stove|microwave))\b/i;
+// Previously shown products offered to the rewrite step, most recent first
+const MAX_RECENT_PRODUCTS = 5;
+// Assistant replies are truncated in the rewrite transcript; the products list carries the specifics
+const MAX_TRANSCRIPT_REPLY_LENGTH = 300;
+
+/**
+ * The services the agent's tools are built on. Guided troubleshooting and the cart are
+ * only offered when their services are provided.
+ */
+export interface AgentServices {
+  searchService: SearchService;
+  diagnosticService?: DiagnosticService;
+  cartService?: CartService;
+}
 
 /**
  * The PartSelectAgent orchestrates the conversation by leveraging an LLM
@@ -12,96 +44,237 @@ import { TroubleshootingTool } from '../tools/TroubleshootingTool';
  */
 export class PartSelectAgent extends BaseAgent {
 
-  constructor(llmService: LLMService, searchService: SearchService) {
-    super(llmService);
-    this.initializeTools(searchService);
+  constructor(llmService: LLMService, services: AgentServices, options: AgentOptions = {}) {
+    super(llmService, options);
+    this.initializeTools(services);
   }
 
   /**
    * Encapsulates tool registration in a private method to keep the constructor clean.
-   * @param searchService The service used by the tools.
+   * @param services The services used by the tools.
    */
-  private initializeTools(searchService: SearchService): void {
+  private initializeTools({ searchService, diagnosticService, cartService }: AgentServices): void {
     const tools: Tool[] = [
       new ProductSearchTool(searchService),
       new CompatibilityTool(searchService),
       new InstallationTool(searchService),
       new TroubleshootingTool(searchService),
+      new ModelPartsTool(searchService),
     ];
+    if (diagnosticService) {
+      tools.push(new GuidedTroubleshootingTool(diagnosticService));
+    }
+    if (cartService) {
+      tools.push(new CartTool(cartService, searchService));
+    }
     tools.forEach(tool => this.registerTool(tool));
   }
 
   /**
-   * Asks the LLM to decide which tool to use based on the user's message.
-   * The logic is now cleaner and the prompt generation is offloaded to the LLM service.
+   * Rewrites a follow-up into a standalone request using the conversation transcript and
+   * the products shown in earlier replies, so references like "that one" or "my model"
+   * become concrete part and model numbers before tool selection.
    */
-  protected async generateAction(userMessage: string, _context: ChatMessage[]): Promise<AgentAction | null> {
-    const tools = this.getToolDescriptions();
-    const toolDescriptions = tools.map(tool => 
-      `- ${tool.name}: ${tool.description}\n  Parameters: ${JSON.stringify(tool.parameters)}`
-    ).join('\n');
+  protected async resolveQuery(userMessage: string, context: ChatMessage[]): Promise<string> {
+    const history = context.filter(message => message.content && message.content.trim().length > 0);
+    if (history.length === 0 || !REFERENCE_PATTERN.test(userMessage)) {
+      return userMessage;
+    }
+
+    const transcript = history.slice(-MAX_HISTORY_MESSAGES).map(message => {
+      const content = message.role === 'assistant' && message.content.length > MAX_TRANSCRIPT_REPLY_LENGTH
+        ? `${message.content.substring(0, MAX_TRANSCRIPT_REPLY_LENGTH)}...`
+        : message.content;
+      return `${message.role === 'user' ? 'User' : message.role === 'assistant' ? 'Assistant' : 'Note'}: ${content}`;
+    }).join('\n');
+
+    const recentProducts = this.collectRecentProducts(history);
+    const productList = recentProducts.length > 0
+      ? `\n\nRecently discussed products (most recent first):\n${recentProducts.map(product => `- ${product.partNumber}: ${product.name}`).join('\n')}`
+      : '';
 
     const messages: DeepSeekMessage[] = [
       {
         role: 'system',
-        content: `You are a PartSelect AI assistant. Based on the user's message, decide which tool to use.
+        content: `Rewrite the user's latest message as a standalone request that can be understood without the conversation.
+Replace references such as "it", "that one", "the second one" or "my model" with the specific part numbers, model numbers or product names they refer to.
+Keep the user's intent and wording otherwise. If the message is already standalone, return it unchanged.
+Respond with ONLY the rewritten request.`
+      },
+      {
+        role: 'user',
+        content: `Conversation so far:\n${transcript}${productList}\n\nLatest message: ${userMessage}`
+      }
+    ];
 
-Available tools:
-${toolDescriptions}
+    try {
+      const rewritten = (await this.llmService.generateResponse(messages, this.trackUsage('query_rewrite')))
+        .trim()
+        .replace(/^["']|["']$/g, '');
 
-Respond with ONLY a JSON object:
-{
-  "tool": "ToolName",
-  "parameters": { /* parameters */ },
-  "reasoning": "Why this tool was chosen"
-}
+      // A rewrite should restate the request, not answer it
+      if (!rewritten || rewritten.length > userMessage.length * 3 + 200) {
+        return userMessage;
+      }
+      return rewritten;
+    } catch (error) {
+      if (error instanceof LLMServiceError) {
+        throw error;
+      }
+      console.warn('[PartSelectAgent] - Query rewriting failed; using the original message.', error);
+      return userMessage;
+    }
+  }
+
+  /**
+   * Lists the products attached to earlier replies, most recent first and de-duplicated.
+   */
+  private collectRecentProducts(history: ChatMessage[]): Array<{ partNumber: string; name: string }> {
+    const products: Array<{ partNumber: string; name: string }> = [];
+    const seen = new Set<string>();
+
+    for (const message of [...history].reverse()) {
+      for (const product of message.metadata?.products || []) {
+        if (product.partNumber && !seen.has(product.partNumber)) {
+          seen.add(product.partNumber);
+          products.push({ partNumber: product.partNumber, name: product.name });
+        }
+      }
+    }
+
+    return products.slice(0, MAX_RECENT_PRODUCTS);
+  }
+
+  /**
+   * Asks the LLM to decide the next tool to use based on the user's message and
+   * the results of any steps already taken, or to signal that it can give a final answer.
+   * Uses native function calling when the LLM service supports it, and falls back to
+   * prompting for a JSON decision (parsed leniently) otherwise.
+   */
+  protected async generateAction(userMessage: string, context: ChatMessage[], previousSteps: AgentStepRecord[]): Promise<AgentAction | null> {
+    const useNativeTools = typeof this.llmService.generateWithTools === 'function';
 
-If no tool is needed, respond with: {"tool": null}`
+    const messages: DeepSeekMessage[] = [
+      {
+        role: 'system',
+        content: `You are a PartSelect AI assistant. Based on the user's message, decide which tool to use next.
+A question may need several tools in sequence (for example: find a part, check its compatibility, then get its installation guide).
+Choose one tool at a time; you will see its result before choosing the next one.
+Use the conversation history to resolve references such as "it", "that part" or "my model".
+If your previous reply asked a step-by-step diagnostic question and the user answers it (yes/no), record the answer with GuidedTroubleshooting.
+
+${useNativeTools ? NATIVE_TOOL_INSTRUCTIONS : this.getJsonToolInstructions()}`
       },
+      ...this.buildHistoryMessages(context),
       {
         role: 'user',
         content: userMessage
       }
     ];
 
-    try {
-      const response = await this.llmService.generateResponse(messages);
-      const decision = JSON.parse(response.trim());
-
-      if (!decision.tool || decision.tool === null) {
-        return null;
-      }
+    if (previousSteps.length > 0) {
+      messages.push({
+        role: 'system',
+        content: `Steps taken so far:\n${previousSteps.map((step, index) => this.describeStep(step, index)).join('\n')}\n\nDecide the next tool to use, or ${useNativeTools ? 'answer without calling a tool' : `respond with {"tool": "${FINAL_ANSWER}"}`} if you have enough information.`
+      });
+    }
 
-      return {
-        tool: decision.tool,
-        parameters: decision.parameters || {},
-        reasoning: decision.reasoning || 'Tool selected by DeepSeek'
-      };
+    try {
+      return useNativeTools
+        ? await this.selectToolNatively(messages)
+        : await this.selectToolFromText(messages);
     } catch (error) {
       console.error('Error getting tool decision from LLM:', error);
       throw error;
     }
   }
 
+  /**
+   * Offers every registered tool as a function definition; no tool call means a final answer.
+   */
+  private async selectToolNatively(messages: DeepSeekMessage[]): Promise<AgentAction | null> {
+    const definitions = this.getToolDescriptions().map(toFunctionDefinition);
+    const { content, toolCalls } = await this.llmService.generateWithTools!(messages, definitions, this.trackUsage('tool_selection'));
+
+    // Tools are executed one at a time so each result can inform the next choice
+    const call = toolCalls[0];
+    if (!call || call.name === FINAL_ANSWER) {
+      return null;
+    }
+
+    return {
+      tool: call.name,
+      parameters: call.arguments || {},
+      reasoning: content || `Calling ${call.name}`
+    };
+  }
+
+  /**
+   * Prompts for a JSON decision and recovers it even when wrapped in fences or prose.
+   */
+  private async selectToolFromText(messages: DeepSeekMessage[]): Promise<AgentAction | null> {
+    const response = await this.llmService.generateResponse(messages, this.trackUsage('tool_selection'));
+    const decision = extractJsonObject(response);
+
+    if (!decision) {
+      console.warn('[PartSelectAgent] - Could not parse a tool decision; treating the response as a final answer.');
+      return null;
+    }
+
+    const { tool, parameters, reasoning } = decision;
+    if (typeof tool !== 'string' || !tool || tool === FINAL_ANSWER) {
+      return null;
+    }
+
+    return {
+      tool,
+      parameters: isJsonObject(parameters) ? parameters : {},
+      reasoning: typeof reasoning === 'string' && reasoning ? reasoning : `Calling ${tool}`
+    };
+  }
+
+  private getJsonToolInstructions(): string {
+    const toolDescriptions = this.getToolDescriptions().map(tool => 
+      `- ${tool.name}: ${tool.description}\n  Parameters: ${JSON.stringify(tool.parameters)}`
+    ).join('\n');
+
+    return `Available tools:
+${toolDescriptions}
+
+Respond with ONLY a JSON object:
+{
+  "tool": "ToolName",
+  "parameters": { /* parameters */ },
+  "reasoning": "Why this tool was chosen"
+}
+
+When the results so far are enough to answer the user (or no tool is needed), respond with: {"tool": "${FINAL_ANSWER}"}`;
+  }
+
   /**
    * Generates the final, user-facing response by providing the LLM with the
-   * original message and the results from any tools that were executed.
+   * original message and the results from every tool that was executed.
    */
-  protected async generateFinalResponse(userMessage: string, _context: ChatMessage[], observation?: AgentObservation): Promise<{ response: string; products?: any[]; }> {
-    const products = this.extractProducts(observation ? [observation] : []);
+  protected async generateFinalResponse(userMessage: string, context: ChatMessage[], steps: AgentStepRecord[]): Promise<{ response: string; products?: Product[]; }> {
+    const products = this.extractProducts(steps.map(step => step.observation));
 
     const messages: DeepSeekMessage[] = [
       { role: 'system', content: this.getSystemPrompt() },
+      ...this.buildHistoryMessages(context),
       { role: 'user', content: userMessage }
     ];
 
-    if (observation && observation.success && observation.result) {
-      const toolContext = `Here are the results from the tool that was used to help answer the user's question:\n\n${JSON.stringify(observation.result, null, 2)}`;
+    const toolResults = steps
+      .filter(step => step.observation.success && step.observation.result)
+      .map(step => `${step.action.tool} (${JSON.stringify(step.action.parameters)}):\n${JSON.stringify(step.observation.result, null, 2)}`);
+
+    if (toolResults.length > 0) {
+      const toolContext = `Here are the results from the tools that were used to help answer the user's question:\n\n${toolResults.join('\n\n')}`;
       messages.push({ role: 'system', content: toolContext });
     }
 
     try {
-      const response = await this.llmService.generateResponse(messages);
+      const response = await this.generateText(messages);
       return { response, products };
     } catch (error) {
       console.error('Error generating final response from LLM:', error);
@@ -109,23 +282,47 @@ If no tool is needed, respond with: {"tool": null}`
     }
   }
 
+  /**
+   * Converts the most recent conversation history into LLM messages so earlier
+   * turns (and any session notes) inform both tool selection and the final answer.
+   */
+  private buildHistoryMessages(context: ChatMessage[]): DeepSeekMessage[] {
+    return context
+      .slice(-MAX_HISTORY_MESSAGES)
+      .filter(message => message.content && message.content.trim().length > 0)
+      .map(message => ({ role: message.role, content: message.content }));
+  }
+
+  /**
+   * Produces a one-line description of a completed step for the tool selection prompt.
+   */
+  private describeStep(step: AgentStepRecord, index: number): string {
+    const { action, observation } = step;
+    const outcome = observation.success
+      ? observation.result?.data?.summary || JSON.stringify(observation.result?.data ?? observation.result)
+      : `FAILED: ${observation.error}`;
+    return `${index + 1}. ${action.tool}(${JSON.stringify(action.parameters)}) -> ${outcome}`;
+  }
+
   /**
    * Extracts and de-duplicates product information from a series of tool observations.
    */
-  private extractProducts(observations: AgentObservation[]): any[] {
-    const products: any[] = [];
+  protected extractProducts(observations: AgentObservation[]): Product[] {
+    const products: Product[] = [];
     const seenPartNumbers = new Set<string>();
 
     for (const obs of observations) {
       if (obs.success && obs.result) {
+        // Tool results wrap their payload in `data`; fall back to the raw result for plain objects
+        const payload = obs.result.data ?? obs.result;
         let resultsArray: any[] = [];
 
-        if (Array.isArray(obs.result.products)) {
-          resultsArray = obs.result.products;
-        } else if (obs.result.product) {
-          resultsArray = [obs.result.product];
-        } else if (obs.result.recommendedParts) {
-          resultsArray = obs.result.recommendedParts;
+        if (Array.isArray(payload.products)) {
+          resultsArray = payload.products;
+        } else if (payload.product) {
+          resultsArray = [payload.product];
+        } else if (Array.isArray(payload.recommendedParts)) {
+          resultsArray = payload.recommendedParts;
         }
 
         for (const product of resultsArray) {
@@ -140,20 +337,40 @@ If no tool is needed, respond with: {"tool": null}`
   }
 
   /**
-   * Defines the agent's persona, scope, and response guidelines.
+   * Defines the agent's persona, scope, and response guidelines. The scope lists every
+   * category in the category registry.
    */
   protected getSystemPrompt(): string {
-    return `You are a PartSelect AI assistant specializing in refrigerator and dishwasher parts.
+    const categories = describeApplianceCategories();
+    return `You are a PartSelect AI assistant specializing in ${categories} parts.
 Your scope is strictly limited to:
-- Refrigerator parts and repairs.
-- Dishwasher parts and repairs.
-- Assisting with part search, compatibility checks, installation guides, and troubleshooting.
+${applianceCategories.map(category => `- ${category.scope}`).join('\n')}
+- Assisting with part search, compatibility checks, installation guides, troubleshooting, and adding parts to the user's cart.
 Your guidelines are:
 - Be helpful, professional, and accurate.
 - Use the provided tool results as the primary source of truth for your answers.
-- If the user's question is outside your scope, politely state that you can only help with refrigerator and dishwasher parts and redirect the conversation.
+- Quote the price a tool reports as charged today, and mention sales. When a part is backordered or out of stock, say when it ships and offer any in-stock equivalent.
+- Only change the cart when the user asks to. If a part added to the cart does not fit their model, warn them.
+- If the user's question is outside your scope, politely state that you can only help with ${categories} parts and redirect the conversation.
 - If you lack sufficient information from the tools, ask the user for clarification.
-- Format your responses for clarity using lists and bold text.`;
+- If a tool result has "needsClarification", ask the user its clarifying question instead of guessing.
+- Format your responses for clarity using lists and bold text.${this.describeSavedAppliances()}`;
+  }
+
+  /**
+   * Lists the user's saved appliances for the system prompt, so "my dishwasher" can be resolved
+   * without asking for the model number again.
+   */
+  private describeSavedAppliances(): string {
+    const appliances = this.toolContext.appliances || [];
+    if (appliances.length === 0) {
+      return '';
+    }
+    const list = appliances
+      .map(appliance => `- ${appliance.modelNumber}${appliance.brand || appliance.category ? ` (${[appliance.brand, appliance.category].filter(Boolean).join(' ')})` : ''}`)
+      .join('\n');
+    return `\nThe user's saved appliances, most recently used first:\n${list}
+When the user refers to their appliance, use its model number. CompatibilityCheck and ProductSearch default to the saved appliance when no model number is given.`;
   }
 
   private getToolDescriptions(): Tool[] {
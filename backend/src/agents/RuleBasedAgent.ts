@@ -0,0 +1,224 @@
+import { AgentServices, PartSelectAgent } from './PartSelectAgent';
+import { extractIntent, ChatIntent, ExtractedIntent } from './IntentExtractor';
+import { AgentAction, AgentOptions, AgentStepRecord, ChatAction, ChatMessage, LLMService, Product } from '../types';
+import { describeApplianceCategories } from '../data/categories';
+import { describeOffer } from '../utils/pricing';
+
+const DEGRADED_NOTICE = 'Our AI assistant is temporarily unavailable, so here is a simplified answer based on our parts database.';
+const HELP_MESSAGE = `I can look up ${describeApplianceCategories()} parts by part number, check whether a part fits your model, show installation steps, and help troubleshoot common problems. For example: "PS11752778", "Is W10300924 compatible with WDT780SAEM1?" or "dishwasher not draining".`;
+// Number of products or steps listed in a templated answer
+const MAX_LISTED_ITEMS = 5;
+// The intent each follow-up action in the UI stands for
+const ACTION_INTENTS: Record<ChatAction['type'], ChatIntent> = {
+  check_compatibility: 'compatibility',
+  installation_guide: 'installation',
+  add_to_cart: 'cart'
+};
+
+/**
+ * A degraded-mode agent that answers without calling the LLM. The intent and its slots
+ * are extracted with regular expressions, the matching tool is called directly, and the
+ * answer is rendered from templates around the tool's own summary. It also answers the
+ * follow-up actions picked in the UI, which need no LLM whether or not it is available.
+ */
+export class RuleBasedAgent extends PartSelectAgent {
+  private intent?: ExtractedIntent;
+
+  /**
+   * @param action A follow-up the user picked in the UI. It is run as given instead of
+   * extracting an intent from the message, and the answer is not marked as degraded.
+   */
+  constructor(llmService: LLMService, services: AgentServices, options: AgentOptions = {}, private readonly action?: ChatAction) {
+    super(llmService, services, options);
+  }
+
+  /**
+   * Follow-ups are resolved by the intent extractor, which recalls part and model numbers
+   * from earlier turns, so no rewrite (and no LLM call) is needed.
+   */
+  protected async resolveQuery(userMessage: string): Promise<string> {
+    return userMessage;
+  }
+
+  /**
+   * Maps the extracted intent to a single tool call. Every supported intent is answered
+   * by one tool, so the loop ends after the first step.
+   */
+  protected async generateAction(userMessage: string, context: ChatMessage[], previousSteps: AgentStepRecord[]): Promise<AgentAction | null> {
+    if (previousSteps.length > 0) {
+      return null;
+    }
+
+    const intent = this.action ? this.intentFromAction(this.action, userMessage) : extractIntent(userMessage, context);
+    this.intent = intent;
+    this.think(this.action
+      ? `Running the "${this.action.type}" action picked by the user${this.describeSlots(intent)}.`
+      : `Detected intent "${intent.intent}" without the LLM${this.describeSlots(intent)}.`);
+
+    switch (intent.intent) {
+      case 'compatibility':
+        // Without a model number, the tool checks against the user's saved appliance
+        return intent.partNumber && (intent.modelNumber || this.toolContext.appliances?.length)
+          ? this.ruleAction('CompatibilityCheck', { partNumber: intent.partNumber, ...(intent.modelNumber && { modelNumber: intent.modelNumber }) })
+          : null;
+      case 'installation':
+        return intent.partNumber ? this.ruleAction('InstallationGuide', { partNumber: intent.partNumber }) : null;
+      case 'troubleshooting':
+        return this.ruleAction('TroubleshootingGuide', {
+          symptom: intent.symptom,
+          ...(intent.category && { category: intent.category }),
+          ...(intent.modelNumber && { modelNumber: intent.modelNumber })
+        });
+      case 'guided_troubleshooting':
+        return this.ruleAction('GuidedTroubleshooting', {
+          action: 'start',
+          symptom: intent.symptom,
+          ...(intent.category && { category: intent.category })
+        });
+      case 'diagnostic_answer':
+        return this.ruleAction('GuidedTroubleshooting', {
+          action: 'answer',
+          answer: intent.answer,
+          ...(intent.note && { note: intent.note })
+        });
+      case 'model_parts':
+        return this.ruleAction('ModelPartsLookup', {
+          modelNumber: intent.modelNumber,
+          ...(intent.category && { category: intent.category })
+        });
+      case 'cart':
+        return this.ruleAction('Cart', {
+          ...intent.cart,
+          ...(intent.partNumber && { partNumber: intent.partNumber }),
+          ...(intent.modelNumber && { modelNumber: intent.modelNumber })
+        });
+      case 'part_lookup':
+        return this.ruleAction('ProductSearch', { partNumber: intent.partNumber });
+      case 'product_search':
+        return this.ruleAction('ProductSearch', {
+          query: intent.query,
+          ...(intent.category && { category: intent.category })
+        });
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Renders the answer from the tool result, or asks for whatever slot is missing.
+   */
+  protected async generateFinalResponse(_userMessage: string, _context: ChatMessage[], steps: AgentStepRecord[]): Promise<{ response: string; products?: Product[]; }> {
+    const products = this.extractProducts(steps.map(step => step.observation));
+    const body = steps.length > 0
+      ? steps.map(step => this.renderStep(step)).join('\n\n')
+      : this.renderWithoutTools(this.intent);
+
+    const response = this.action ? body : `${DEGRADED_NOTICE}\n\n${body}`;
+    this.callbacks.onToken?.(response);
+    return { response, products };
+  }
+
+  /**
+   * Turns a follow-up action into the intent it stands for. A compatibility check without a
+   * model number uses the saved appliance (picked by the tool), or else the model discussed
+   * most recently.
+   */
+  private intentFromAction(action: ChatAction, userMessage: string): ExtractedIntent {
+    const modelNumber = action.modelNumber ||
+      (action.type === 'check_compatibility' && !this.toolContext.appliances?.length ? this.toolContext.recentModelNumbers?.[0] : undefined);
+    return {
+      intent: ACTION_INTENTS[action.type],
+      partNumber: action.partNumber,
+      ...(modelNumber && { modelNumber }),
+      ...(action.type === 'add_to_cart' && { cart: { action: 'add' as const } }),
+      query: userMessage
+    };
+  }
+
+  private ruleAction(tool: string, parameters: Record<string, any>): AgentAction {
+    return { tool, parameters, reasoning: `Rule-based match: calling ${tool}` };
+  }
+
+  private describeSlots(intent: ExtractedIntent): string {
+    const slots = [
+      intent.partNumber && `part ${intent.partNumber}`,
+      intent.modelNumber && `model ${intent.modelNumber}`,
+      intent.symptom && `symptom "${intent.symptom}"`,
+      intent.answer && `answer "${intent.answer}"`,
+      intent.category
+    ].filter(Boolean);
+    return slots.length > 0 ? ` (${slots.join(', ')})` : '';
+  }
+
+  /**
+   * Formats one tool result, starting from the summary the tool generated itself.
+   */
+  private renderStep(step: AgentStepRecord): string {
+    const { action, observation } = step;
+    if (!observation.success) {
+      return `Sorry, I couldn't complete that: ${observation.error}`;
+    }
+
+    const data = observation.result?.data || {};
+    const lines: string[] = [data.summary];
+
+    switch (action.tool) {
+      case 'ProductSearch':
+        for (const product of (data.products || []).slice(0, MAX_LISTED_ITEMS)) {
+          lines.push(`- **${product.name}** (${product.partNumber}) - ${describeOffer(product)}`);
+        }
+        break;
+      case 'CompatibilityCheck':
+        lines.push(data.recommendation);
+        break;
+      case 'InstallationGuide':
+        for (const installStep of (data.instructions?.steps || []).slice(0, MAX_LISTED_ITEMS)) {
+          lines.push(`${installStep.step}. **${installStep.title}** - ${installStep.description}`);
+        }
+        if ((data.instructions?.steps || []).length > MAX_LISTED_ITEMS) {
+          lines.push('See the full installation guide for the remaining steps.');
+        }
+        break;
+      case 'TroubleshootingGuide':
+        if (data.needsClarification) {
+          break;
+        }
+        for (const diagnosticStep of (data.diagnosticSteps || []).slice(0, MAX_LISTED_ITEMS)) {
+          lines.push(`${diagnosticStep.step}. ${diagnosticStep.description}`);
+        }
+        break;
+      case 'ModelPartsLookup':
+        for (const group of data.groups || []) {
+          lines.push(`**${group.subsystem}**: ${group.partNumbers.join(', ')}`);
+        }
+        break;
+      case 'Cart':
+        for (const product of (data.products || []).slice(0, MAX_LISTED_ITEMS)) {
+          lines.push(`- **${product.name}** (${product.partNumber}) - ${describeOffer(product)}`);
+        }
+        break;
+      case 'GuidedTroubleshooting':
+        for (const product of (data.recommendedParts || []).slice(0, MAX_LISTED_ITEMS)) {
+          lines.push(`- **${product.name}** (${product.partNumber}) - ${describeOffer(product)}`);
+        }
+        break;
+    }
+
+    return lines.filter(Boolean).join('\n');
+  }
+
+  /**
+   * Explains what is missing when no tool could be called.
+   */
+  private renderWithoutTools(intent?: ExtractedIntent): string {
+    if (intent?.intent === 'compatibility') {
+      return intent.partNumber
+        ? `To check whether part ${intent.partNumber} fits, please tell me your appliance's model number.`
+        : 'To check compatibility, please tell me both the part number and your appliance\'s model number.';
+    }
+    if (intent?.intent === 'installation') {
+      return 'Which part number would you like installation instructions for?';
+    }
+    return HELP_MESSAGE;
+  }
+}
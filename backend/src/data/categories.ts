@@ -0,0 +1,83 @@
+import { ApplianceCategory, ApplianceCategoryId } from '../types';
+
+// The appliance categories the assistant serves. Adding an entry here enables a category
+// everywhere: request validation, tool parameters, the system prompt and intent detection.
+// Categories are matched against messages in this order, so "dishwasher" must precede "washer".
+export const applianceCategories: ApplianceCategory[] = [
+  {
+    id: 'dishwasher',
+    name: 'Dishwasher',
+    scope: 'Dishwasher parts and repairs: pumps, racks, spray arms, door latches, seals and heating elements.',
+    pattern: /\bdish ?washers?\b/i,
+    symptoms: [
+      { pattern: /\b(not drain(ing)?|won'?t drain|standing water|water (left )?in the bottom)\b/i, symptom: 'not draining' },
+      { pattern: /\b(leak(s|ing)?|water on the floor)\b/i, symptom: 'leaking' }
+    ]
+  },
+  {
+    id: 'refrigerator',
+    name: 'Refrigerator',
+    scope: 'Refrigerator and freezer parts and repairs: water filters, ice makers, fans, seals and shelving.',
+    pattern: /\b(fridge|refrigerator|freezer|ice)\b/i,
+    symptoms: [
+      { pattern: /\b(ice maker|no ice|(making|producing)( any)? ice)\b/i, symptom: 'ice maker' },
+      { pattern: /\b(not cool(ing)?|too warm|not cold|warm)\b/i, symptom: 'not cooling' }
+    ]
+  },
+  {
+    id: 'washer',
+    name: 'Washer',
+    scope: 'Washing machine parts and repairs: drain pumps, lid switches, drive components and hoses.',
+    pattern: /\b(washers?|washing machines?)\b/i,
+    symptoms: [
+      { pattern: /\b((not|won'?t|doesn'?t) (drain|spin)(ning)?|water (left )?in the (drum|tub))\b/i, symptom: 'not draining' }
+    ]
+  },
+  {
+    id: 'dryer',
+    name: 'Dryer',
+    scope: 'Clothes dryer parts and repairs: heating elements, thermal fuses, belts, rollers and vents.',
+    pattern: /\b(clothes )?dryers?\b/i,
+    symptoms: [
+      { pattern: /\b((not|won'?t|doesn'?t|no) (heat(ing)?|get(ting)? hot)|clothes (are )?(still )?(damp|wet))\b/i, symptom: 'not heating' }
+    ]
+  },
+  {
+    id: 'range',
+    name: 'Range',
+    scope: 'Range, oven and cooktop parts and repairs: surface elements, bake elements, igniters and knobs.',
+    pattern: /\b((?<!price )ranges?|ovens?|stoves?|stovetop|cooktop|burners?)\b/i,
+    symptoms: [
+      { pattern: /\b(burner|element|coil)s? (is |are )?(not|won'?t|doesn'?t) (heat(ing)?|get(ting)? hot|turn(ing)? on)\b/i, symptom: 'burner not heating' }
+    ]
+  },
+  {
+    id: 'microwave',
+    name: 'Microwave',
+    scope: 'Microwave parts and repairs: diodes, door switches, turntable motors and light bulbs.',
+    pattern: /\bmicrowaves?\b/i,
+    symptoms: [
+      { pattern: /\b(not|won'?t|doesn'?t) (heat(ing)?|warm(ing)?)( (the )?food)?\b/i, symptom: 'not heating' }
+    ]
+  }
+];
+
+// Category ids as a non-empty tuple, as z.enum requires
+export const CATEGORY_IDS = applianceCategories.map(category => category.id) as [ApplianceCategoryId, ...ApplianceCategoryId[]];
+
+/**
+ * Looks up a category by id.
+ * @param id A category id, e.g. 'dishwasher'.
+ * @returns The category, or undefined when it is not registered.
+ */
+export function getApplianceCategory(id: string): ApplianceCategory | undefined {
+  return applianceCategories.find(category => category.id === id);
+}
+
+/**
+ * Lists the category names for prose, e.g. "dishwasher, refrigerator and washer".
+ */
+export function describeApplianceCategories(): string {
+  const names = applianceCategories.map(category => category.name.toLowerCase());
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+}
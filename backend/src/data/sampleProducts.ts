@@ -11,8 +11,13 @@ export const sampleProducts: Product[] = [
     category: "refrigerator",
     brand: "Whirlpool",
     compatibleModels: ["WRF989SDAM", "WRF757SDEM", "WRF540CWHZ", "WRF535SWHZ"],
+    aliases: ["EDR1RXD1", "W10295370A"],
     price: 45.99,
     availability: "in-stock",
+    priceHistory: [
+      { price: 49.99, effectiveFrom: "2025-01-01" },
+      { price: 45.99, effectiveFrom: "2025-09-01" }
+    ],
     imageUrl: "https://images.partselect.com/PS11752778_01_a.jpg",
     installationDifficulty: "easy",
     estimatedInstallTime: 10,
@@ -67,6 +72,7 @@ export const sampleProducts: Product[] = [
     category: "dishwasher",
     brand: "Whirlpool",
     compatibleModels: ["WDT780SAEM1", "WDT780PAEM1", "WDT750SAHZ0", "KDTM404ESS0"],
+    supersedes: ["W10348269"],
     price: 189.99,
     availability: "in-stock",
     installationDifficulty: "hard",
@@ -183,6 +189,17 @@ export const sampleProducts: Product[] = [
     compatibleModels: ["WRF989SDAM", "WRF767SDHZ", "WRF540CWHZ"],
     price: 89.99,
     availability: "in-stock",
+    variants: [
+      {
+        partNumber: "W10312696",
+        name: "Black",
+        finish: "Black",
+        source: "oem",
+        price: 94.99,
+        availability: "backordered",
+        leadTimeDays: 7
+      }
+    ],
     installationDifficulty: "medium",
     estimatedInstallTime: 60,
     requiredTools: [
@@ -228,6 +245,7 @@ export const sampleProducts: Product[] = [
     category: "dishwasher",
     brand: "Whirlpool",
     compatibleModels: ["WDT780SAEM1", "WDT780PAEM1", "WDT750SAHZ0"],
+    supersedes: ["W10082861"],
     price: 142.99,
     availability: "in-stock",
     installationDifficulty: "hard",
@@ -252,6 +270,7 @@ export const sampleProducts: Product[] = [
     category: "dishwasher",
     brand: "Whirlpool",
     compatibleModels: ["WDT780SAEM1", "WDT780PAEM1", "WDT750SAHZ0", "KDTM404ESS0"],
+    aliases: ["WPW10300924"],
     price: 78.99,
     availability: "in-stock",
     installationDifficulty: "medium",
@@ -277,6 +296,7 @@ export const sampleProducts: Product[] = [
     compatibleModels: ["GFE28HMKES", "GFE26JSMSS", "PFE28PBLTS"],
     price: 52.99,
     availability: "in-stock",
+    salePrice: { price: 44.99, startsAt: "2026-01-01", endsAt: "2027-07-01" },
     installationDifficulty: "easy",
     estimatedInstallTime: 5,
     requiredTools: ["None"],
@@ -296,6 +316,16 @@ export const sampleProducts: Product[] = [
     compatibleModels: ["FGID2466QF0A", "FGIP2468UF0A", "FFID2426TS0A"],
     price: 67.99,
     availability: "backordered",
+    leadTimeDays: 10,
+    variants: [
+      {
+        partNumber: "ERP5304505524",
+        name: "Aftermarket",
+        source: "aftermarket",
+        price: 44.99,
+        availability: "in-stock"
+      }
+    ],
     installationDifficulty: "medium",
     estimatedInstallTime: 45,
     requiredTools: [
@@ -308,6 +338,103 @@ export const sampleProducts: Product[] = [
       "Test element with multimeter before installation",
       "Ensure proper electrical connections"
     ]
+  },
+
+  // Laundry and cooking parts
+  {
+    id: "11",
+    partNumber: "WP279838",
+    name: "Dryer Heating Element",
+    description: "Heating element assembly for electric dryers. Replace when the dryer runs and tumbles but clothes stay damp.",
+    category: "dryer",
+    brand: "Whirlpool",
+    compatibleModels: ["WED4815EW1", "WED5000DW2", "MEDC215EW1"],
+    aliases: ["279838"],
+    price: 54.99,
+    availability: "in-stock",
+    installationDifficulty: "medium",
+    estimatedInstallTime: 45,
+    requiredTools: [
+      "1/4 inch nut driver",
+      "Phillips head screwdriver",
+      "Multimeter"
+    ],
+    safetyWarnings: [
+      "Unplug the dryer before starting",
+      "Check the thermal fuse and cycling thermostat before replacing the element"
+    ]
+  },
+
+  {
+    id: "12",
+    partNumber: "W10536347",
+    name: "Washer Drain Pump",
+    description: "Drain pump for front-load washers. Pumps water out of the drum at the end of wash and rinse cycles.",
+    category: "washer",
+    brand: "Whirlpool",
+    compatibleModels: ["WFW5620HW0", "WFW75HEFW0", "MHW5630HW0"],
+    price: 72.99,
+    availability: "in-stock",
+    installationDifficulty: "medium",
+    estimatedInstallTime: 40,
+    requiredTools: [
+      "Phillips head screwdriver",
+      "Pliers",
+      "Towels and a shallow pan"
+    ],
+    safetyWarnings: [
+      "Unplug the washer and turn off the water supply",
+      "Drain remaining water through the filter access door first"
+    ]
+  },
+
+  {
+    id: "13",
+    partNumber: "WP9761958",
+    name: "Range Radiant Surface Element",
+    description: "Radiant surface element for smooth-top electric ranges. Replace when a burner stays cold or heats unevenly.",
+    category: "range",
+    brand: "Whirlpool",
+    compatibleModels: ["WFE515S0ES1", "WFE540H0ES0", "MER8800FW0"],
+    aliases: ["9761958"],
+    price: 119.99,
+    availability: "backordered",
+    leadTimeDays: 14,
+    installationDifficulty: "hard",
+    estimatedInstallTime: 60,
+    requiredTools: [
+      "Phillips head screwdriver",
+      "Putty knife",
+      "Multimeter"
+    ],
+    safetyWarnings: [
+      "Turn off the circuit breaker before starting",
+      "Let the cooktop cool completely"
+    ]
+  },
+
+  {
+    id: "14",
+    partNumber: "WB27X10017",
+    name: "GE Microwave High Voltage Diode",
+    description: "High voltage diode for GE over-the-range microwaves. A failed diode is a common cause of a microwave that runs but does not heat.",
+    category: "microwave",
+    brand: "GE",
+    compatibleModels: ["JVM3160RF3SS", "JVM6175SF1SS", "PVM9005SJ4SS"],
+    price: 24.99,
+    availability: "in-stock",
+    installationDifficulty: "hard",
+    estimatedInstallTime: 30,
+    requiredTools: [
+      "Phillips head screwdriver",
+      "Insulated screwdriver",
+      "Multimeter"
+    ],
+    safetyWarnings: [
+      "Unplug the microwave before opening the cabinet",
+      "Discharge the high voltage capacitor before touching any component",
+      "Repairs inside the cabinet should only be attempted by experienced technicians"
+    ]
   }
 ];
 
@@ -347,7 +474,8 @@ export const troubleshootingSymptoms: TroubleshootingSymptom[] = [
         expectedResult: "Should hear cycling sounds every few hours",
         nextStepIfTrue: undefined,
         nextStepIfFalse: 5,
-        recommendedAction: "If no sounds, ice maker assembly may need replacement"
+        recommendedAction: "If no sounds, ice maker assembly may need replacement",
+        recommendedParts: ["W10873791"]
       },
       {
         step: 4,
@@ -355,7 +483,8 @@ export const troubleshootingSymptoms: TroubleshootingSymptom[] = [
         expectedResult: "Filter should be properly installed, lines connected",
         nextStepIfTrue: 2,
         nextStepIfFalse: undefined,
-        recommendedAction: "Replace filter or check water line connections"
+        recommendedAction: "Replace filter or check water line connections",
+        recommendedParts: ["PS11752778", "W10190965"]
       },
       {
         step: 5,
@@ -402,7 +531,8 @@ export const troubleshootingSymptoms: TroubleshootingSymptom[] = [
         expectedResult: "Should hear pump motor running",
         nextStepIfTrue: 4,
         nextStepIfFalse: 5,
-        recommendedAction: undefined
+        recommendedAction: undefined,
+        recommendedParts: ["WPW10082861"]
       },
       {
         step: 4,
@@ -418,7 +548,8 @@ export const troubleshootingSymptoms: TroubleshootingSymptom[] = [
         expectedResult: "Pump motor should run when activated",
         nextStepIfTrue: undefined,
         nextStepIfFalse: undefined,
-        recommendedAction: "Replace drain pump assembly"
+        recommendedAction: "Replace drain pump assembly",
+        recommendedParts: ["WPW10082861"]
       }
     ],
     recommendedParts: ["WPW10082861"]
@@ -450,7 +581,8 @@ export const troubleshootingSymptoms: TroubleshootingSymptom[] = [
         expectedResult: "Doors should seal tightly with no gaps",
         nextStepIfTrue: 3,
         nextStepIfFalse: undefined,
-        recommendedAction: "Replace door gasket seals"
+        recommendedAction: "Replace door gasket seals",
+        recommendedParts: ["W10312695"]
       },
       {
         step: 3,
@@ -458,7 +590,8 @@ export const troubleshootingSymptoms: TroubleshootingSymptom[] = [
         expectedResult: "Fan should run when compressor is running",
         nextStepIfTrue: 4,
         nextStepIfFalse: 5,
-        recommendedAction: undefined
+        recommendedAction: undefined,
+        recommendedParts: ["W10190929"]
       },
       {
         step: 4,
@@ -474,9 +607,190 @@ export const troubleshootingSymptoms: TroubleshootingSymptom[] = [
         expectedResult: "Fan should run smoothly without noise",
         nextStepIfTrue: undefined,
         nextStepIfFalse: undefined,
-        recommendedAction: "Replace evaporator fan motor"
+        recommendedAction: "Replace evaporator fan motor",
+        recommendedParts: ["W10190929"]
       }
     ],
     recommendedParts: ["W10312695", "W10190929"]
+  },
+
+  {
+    id: "dishwasher-leaking",
+    description: "Dishwasher leaking water onto the floor",
+    category: "dishwasher",
+    commonCauses: [
+      "Door not latching tightly",
+      "Worn or torn door gasket",
+      "Loose or cracked drain hose",
+      "Excess suds from regular dish soap"
+    ],
+    diagnosticSteps: [
+      {
+        step: 1,
+        description: "Close the door and check that it latches firmly",
+        expectedResult: "Door should click shut and stay tight against the tub",
+        nextStepIfTrue: 2,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Replace the door latch",
+        recommendedParts: ["W10300924"]
+      },
+      {
+        step: 2,
+        description: "Inspect the door gasket around the tub opening",
+        expectedResult: "Gasket should be soft and intact with no tears or gaps",
+        nextStepIfTrue: 3,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Replace the door gasket"
+      },
+      {
+        step: 3,
+        description: "Check the drain hose and its connections under the sink",
+        expectedResult: "Hose should be tightly clamped with no cracks or drips",
+        nextStepIfTrue: 4,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Tighten the hose clamps or replace the drain hose"
+      },
+      {
+        step: 4,
+        description: "Confirm that only automatic dishwasher detergent is used",
+        expectedResult: "No regular dish soap or rinse aid overfill",
+        nextStepIfTrue: undefined,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Switch to dishwasher detergent; regular dish soap causes suds that push water past the door"
+      }
+    ],
+    recommendedParts: ["W10300924"]
+  },
+
+  {
+    id: "washer-not-draining",
+    description: "Washer not draining or spinning, water left in the drum",
+    category: "washer",
+    commonCauses: [
+      "Clogged pump filter",
+      "Kinked or blocked drain hose",
+      "Failed drain pump"
+    ],
+    diagnosticSteps: [
+      {
+        step: 1,
+        description: "Open the pump filter access door and check the filter for debris",
+        expectedResult: "Filter is clear of lint, coins and other debris",
+        nextStepIfTrue: 2,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Clean out the pump filter and run a drain cycle"
+      },
+      {
+        step: 2,
+        description: "Check the drain hose for kinks or blockages",
+        expectedResult: "Hose is straight and water flows through it freely",
+        nextStepIfTrue: 3,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Straighten or clear the drain hose"
+      },
+      {
+        step: 3,
+        description: "Run a drain and spin cycle and listen for the drain pump",
+        expectedResult: "Pump hums and water drains",
+        nextStepIfTrue: undefined,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Replace the drain pump",
+        recommendedParts: ["W10536347"]
+      }
+    ],
+    recommendedParts: ["W10536347"]
+  },
+
+  {
+    id: "dryer-not-heating",
+    description: "Dryer not heating, clothes still damp after a cycle",
+    category: "dryer",
+    commonCauses: [
+      "Blown thermal fuse",
+      "Burned-out heating element",
+      "Restricted exhaust vent"
+    ],
+    diagnosticSteps: [
+      {
+        step: 1,
+        description: "Check the exhaust vent and lint screen for lint buildup",
+        expectedResult: "Air flows strongly from the outside vent hood",
+        nextStepIfTrue: 2,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Clean the lint screen and exhaust duct"
+      },
+      {
+        step: 2,
+        description: "Test the heating element for continuity with a multimeter",
+        expectedResult: "Element shows continuity (roughly 10 ohms)",
+        nextStepIfTrue: undefined,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Replace the heating element",
+        recommendedParts: ["WP279838"]
+      }
+    ],
+    recommendedParts: ["WP279838"]
+  },
+
+  {
+    id: "range-burner-not-heating",
+    description: "Range burner or surface element not heating",
+    category: "range",
+    commonCauses: [
+      "Burned-out surface element",
+      "Faulty infinite switch",
+      "Loose wiring to the element"
+    ],
+    diagnosticSteps: [
+      {
+        step: 1,
+        description: "Turn on a different burner of the same size",
+        expectedResult: "The other burner heats normally",
+        nextStepIfTrue: 2,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Check the circuit breaker and power supply to the range"
+      },
+      {
+        step: 2,
+        description: "Test the cold element for continuity with a multimeter",
+        expectedResult: "Element shows continuity",
+        nextStepIfTrue: undefined,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Replace the surface element",
+        recommendedParts: ["WP9761958"]
+      }
+    ],
+    recommendedParts: ["WP9761958"]
+  },
+
+  {
+    id: "microwave-not-heating",
+    description: "Microwave runs but is not heating food",
+    category: "microwave",
+    commonCauses: [
+      "Failed high voltage diode",
+      "Faulty magnetron",
+      "Worn door switch"
+    ],
+    diagnosticSteps: [
+      {
+        step: 1,
+        description: "Start the microwave and watch the turntable and interior light",
+        expectedResult: "Turntable turns and the light stays on while it runs",
+        nextStepIfTrue: 2,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Have the door switches checked; a worn switch can stop the microwave from running"
+      },
+      {
+        step: 2,
+        description: "With the microwave unplugged and the capacitor discharged, test the high voltage diode",
+        expectedResult: "Diode conducts in one direction only",
+        nextStepIfTrue: undefined,
+        nextStepIfFalse: undefined,
+        recommendedAction: "Replace the high voltage diode",
+        recommendedParts: ["WB27X10017"]
+      }
+    ],
+    recommendedParts: ["WB27X10017"]
   }
 ];
\ No newline at end of file
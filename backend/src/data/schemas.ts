@@ -1,18 +1,66 @@
 import { z } from 'zod';
+import { CATEGORY_IDS } from './categories';
 
 // Validation schemas using Zod for runtime type checking
 
+// Appliance categories come from the category registry
+export const ApplianceCategorySchema = z.enum(CATEGORY_IDS);
+
+// Dates in catalog records, e.g. "2025-03-01" or a full ISO timestamp
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2}))?$/;
+
+/**
+ * Whether a string is an ISO date or timestamp naming a real day: Date.parse alone accepts
+ * free-form dates and rolls impossible ones such as "2020-02-30" over into the next month.
+ */
+function isIsoDate(value: string): boolean {
+  const match = value.match(ISO_DATE_PATTERN);
+  if (!match || Number.isNaN(Date.parse(value))) {
+    return false;
+  }
+  const [, year, month, day] = match;
+  return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day))).toISOString().startsWith(`${year}-${month}-${day}`);
+}
+
+const IsoDateSchema = z.string().refine(isIsoDate, { message: 'Must be an ISO date (YYYY-MM-DD) or timestamp' });
+const PartAvailabilitySchema = z.enum(['in-stock', 'out-of-stock', 'backordered']);
+
+export const SalePriceSchema = z.object({
+  price: z.number().positive(),
+  startsAt: IsoDateSchema.optional(),
+  endsAt: IsoDateSchema.optional()
+});
+
+export const ProductVariantSchema = z.object({
+  partNumber: z.string().min(1),
+  name: z.string().min(1),
+  finish: z.string().optional(),
+  source: z.enum(['oem', 'aftermarket']),
+  price: z.number().positive(),
+  availability: PartAvailabilitySchema,
+  leadTimeDays: z.number().int().nonnegative().optional(),
+  salePrice: SalePriceSchema.optional()
+});
+
 // Product-related schemas
 export const ProductSchema = z.object({
   id: z.string(),
   partNumber: z.string(),
   name: z.string(),
   description: z.string(),
-  category: z.enum(['refrigerator', 'dishwasher']),
+  category: ApplianceCategorySchema,
   brand: z.string(),
   compatibleModels: z.array(z.string()),
   price: z.number().positive(),
-  availability: z.enum(['in-stock', 'out-of-stock', 'backordered']),
+  availability: PartAvailabilitySchema,
+  leadTimeDays: z.number().int().nonnegative().optional(),
+  source: z.enum(['oem', 'aftermarket']).optional(),
+  priceHistory: z.array(z.object({
+    price: z.number().positive(),
+    effectiveFrom: IsoDateSchema
+  })).optional(),
+  salePrice: SalePriceSchema.optional(),
+  variants: z.array(ProductVariantSchema).optional(),
   imageUrl: z.string().url().optional(),
   installationDifficulty: z.enum(['easy', 'medium', 'hard']),
   estimatedInstallTime: z.number().positive(),
@@ -24,23 +72,79 @@ export const ProductSchema = z.object({
     description: z.string(),
     warning: z.string().optional(),
     imageUrl: z.string().url().optional()
-  })).optional()
+  })).optional(),
+  aliases: z.array(z.string()).optional(),
+  supersedes: z.array(z.string()).optional(),
+  supersededBy: z.string().optional()
+});
+
+export const DiagnosticStepSchema = z.object({
+  step: z.number().int().positive(),
+  description: z.string(),
+  expectedResult: z.string(),
+  nextStepIfTrue: z.number().int().positive().optional(),
+  nextStepIfFalse: z.number().int().positive().optional(),
+  recommendedAction: z.string().optional(),
+  recommendedParts: z.array(z.string()).optional()
+});
+
+export const TroubleshootingSymptomSchema = z.object({
+  id: z.string().min(1),
+  description: z.string(),
+  category: ApplianceCategorySchema,
+  commonCauses: z.array(z.string()),
+  diagnosticSteps: z.array(DiagnosticStepSchema),
+  recommendedParts: z.array(z.string()).optional()
 });
 
+const DifficultySchema = z.enum(['easy', 'medium', 'hard']);
+const ProductSortSchema = z.enum(['relevance', 'price_asc', 'price_desc', 'install_time', 'availability']);
+
 export const ProductSearchParamsSchema = z.object({
   query: z.string().optional(),
   partNumber: z.string().optional(),
-  category: z.enum(['refrigerator', 'dishwasher']).optional(),
-  brand: z.string().optional(),
+  category: ApplianceCategorySchema.optional(),
+  brand: z.union([z.string(), z.array(z.string())]).optional(),
   priceRange: z.object({
-    min: z.number().nonnegative(),
-    max: z.number().positive()
+    min: z.number().nonnegative().optional(),
+    max: z.number().positive().optional()
   }).optional(),
-  availability: z.enum(['in-stock', 'out-of-stock', 'backordered']).optional(),
+  availability: z.union([PartAvailabilitySchema, z.array(PartAvailabilitySchema)]).optional(),
+  difficulty: z.union([DifficultySchema, z.array(DifficultySchema)]).optional(),
+  sort: ProductSortSchema.optional(),
   limit: z.number().positive().max(50).default(10),
   offset: z.number().nonnegative().default(0)
 });
 
+// Splits a comma-separated query string value ("GE,Whirlpool") into a list
+const commaSeparated = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  val => typeof val === 'string' ? val.split(',').map(part => part.trim()).filter(Boolean) : val,
+  z.array(item)
+);
+
+// Query string accepted by GET /api/products/search, converted to ProductSearchParams
+export const ProductSearchQuerySchema = z.object({
+  q: z.string().trim().optional(),
+  partNumber: z.string().trim().optional(),
+  category: ApplianceCategorySchema.optional(),
+  brand: commaSeparated(z.string()).optional(),
+  availability: commaSeparated(PartAvailabilitySchema).optional(),
+  difficulty: commaSeparated(DifficultySchema).optional(),
+  priceMin: z.coerce.number().nonnegative().optional(),
+  priceMax: z.coerce.number().positive().optional(),
+  modelNumber: z.string().trim().min(1).optional(),
+  sort: ProductSortSchema.default('relevance'),
+  limit: z.coerce.number().int().positive().max(50).default(10),
+  offset: z.coerce.number().int().nonnegative().default(0)
+}).refine(data => data.priceMin === undefined || data.priceMax === undefined || data.priceMin <= data.priceMax, {
+  message: 'priceMin must not be greater than priceMax',
+  path: ['priceMin']
+}).transform(({ q, priceMin, priceMax, ...rest }) => ({
+  ...rest,
+  query: q,
+  priceRange: priceMin !== undefined || priceMax !== undefined ? { min: priceMin, max: priceMax } : undefined
+}));
+
 // Chat-related schemas
 export const ChatMessageSchema = z.object({
   id: z.string(),
@@ -52,14 +156,24 @@ export const ChatMessageSchema = z.object({
     toolsUsed: z.array(z.string()).optional(),
     products: z.array(ProductSchema).optional(),
     searchParams: ProductSearchParamsSchema.optional(),
-    error: z.string().optional()
+    error: z.string().optional(),
+    degraded: z.boolean().optional(),
+    usage: z.record(z.any()).optional()
   }).optional()
 });
 
+export const ChatActionSchema = z.object({
+  type: z.enum(['check_compatibility', 'installation_guide', 'add_to_cart']),
+  partNumber: z.string().trim().min(1).max(50),
+  modelNumber: z.string().trim().min(1).max(50).optional()
+});
+
 export const ChatRequestSchema = z.object({
   message: z.string().min(1, "Message cannot be empty").max(1000, "Message too long"),
   sessionId: z.string().optional(),
-  context: z.array(ChatMessageSchema).max(20, "Too many context messages").optional()
+  profileId: z.string().trim().min(1).max(100).optional(),
+  context: z.array(ChatMessageSchema).max(20, "Too many context messages").optional(),
+  action: ChatActionSchema.optional()
 });
 
 export const ChatResponseSchema = z.object({
@@ -78,28 +192,57 @@ export const ChatResponseSchema = z.object({
 });
 
 // Tool parameter schemas
+// Each tool validates LLM-provided parameters against these before executing, and the
+// parameter descriptions shown to the LLM are derived from them (see tools/toolSchema.ts).
+// Numbers are coerced because models often emit them as strings (e.g. "5").
 export const ProductSearchToolSchema = z.object({
-  query: z.string().optional(),
-  partNumber: z.string().optional(),
-  category: z.enum(['refrigerator', 'dishwasher']).optional(),
-  brand: z.string().optional(),
-  limit: z.number().positive().max(20).default(5)
+  query: z.string().trim().optional().describe('Search query or product description'),
+  partNumber: z.string().trim().optional().describe('Specific part number to search for'),
+  category: ApplianceCategorySchema.optional().describe('Appliance category'),
+  brand: z.string().trim().optional().describe('Brand name (Whirlpool, GE, Frigidaire, etc.); separate several with commas'),
+  priceMin: z.coerce.number().nonnegative().optional().describe('Minimum price in USD'),
+  priceMax: z.coerce.number().positive().optional().describe('Maximum price in USD'),
+  difficulty: DifficultySchema.optional().describe('Installation difficulty'),
+  sort: ProductSortSchema.optional().describe('Result order (default: relevance); "availability" lists in-stock parts first, then by lead time'),
+  modelNumber: z.string().trim().min(1).optional().describe('Only list parts that fit this appliance model (default: the user\'s saved appliance, if any)'),
+  limit: z.coerce.number().int().positive().max(20).default(5).describe('Maximum number of results (default: 5)')
 });
 
 export const CompatibilityToolSchema = z.object({
-  partNumber: z.string().min(1, "Part number is required"),
-  modelNumber: z.string().min(1, "Model number is required")
+  partNumber: z.string().trim().min(1, "Part number is required").describe('Part number to check compatibility for'),
+  modelNumber: z.string().trim().min(1).optional().describe('Appliance model number (default: the user\'s saved appliance)')
+});
+
+export const ModelPartsToolSchema = z.object({
+  modelNumber: z.string().trim().min(1, "Model number is required").describe('Appliance model number, e.g. WDT780SAEM1'),
+  category: ApplianceCategorySchema.optional().describe('Only list parts for this appliance type')
 });
 
 export const InstallationToolSchema = z.object({
-  partNumber: z.string().min(1, "Part number is required")
+  partNumber: z.string().trim().min(1, "Part number is required").describe('Part number to get installation instructions for')
 });
 
 export const TroubleshootingToolSchema = z.object({
-  symptom: z.string().min(1, "Symptom description is required"),
-  category: z.enum(['refrigerator', 'dishwasher']).optional(),
-  brand: z.string().optional(),
-  modelNumber: z.string().optional()
+  symptom: z.string().trim().min(1, "Symptom description is required").describe('Description of the problem or symptom'),
+  category: ApplianceCategorySchema.optional().describe('Type of appliance'),
+  brand: z.string().trim().optional().describe('Brand of the appliance'),
+  modelNumber: z.string().trim().optional().describe('Specific model number if available')
+});
+
+export const CartToolSchema = z.object({
+  action: z.enum(['add', 'remove', 'view']).describe('"add" puts a part in the cart, "remove" takes it out, "view" lists the cart'),
+  partNumber: z.string().trim().min(1).optional().describe('Part number to add or remove'),
+  product: z.string().trim().min(1).optional().describe('The product as the user described it, e.g. "the water filter", when no part number was given'),
+  quantity: z.coerce.number().int().positive().max(10).optional().describe('How many to add or remove (default: 1 to add, all to remove)'),
+  modelNumber: z.string().trim().min(1).optional().describe('The appliance model the part is for, if the user mentioned one')
+});
+
+export const GuidedTroubleshootingToolSchema = z.object({
+  action: z.enum(['start', 'answer', 'status']).describe('"start" begins a step-by-step diagnosis, "answer" records the user\'s yes/no reply to the current step, "status" shows the current step'),
+  symptom: z.string().trim().optional().describe('Description of the problem (required for "start")'),
+  category: ApplianceCategorySchema.optional().describe('Type of appliance'),
+  answer: z.enum(['yes', 'no']).optional().describe('Whether the current step\'s expected result was observed (required for "answer")'),
+  note: z.string().trim().optional().describe('Any extra detail the user gave with their answer')
 });
 
 // DeepSeek/LLM schemas
@@ -137,7 +280,14 @@ export const ServerConfigSchema = z.object({
   rateLimitWindowMs: z.number().positive().default(900000), // 15 minutes
   rateLimitMaxRequests: z.number().positive().default(100),
   deepseekApiKey: z.string().optional(),
-  deepseekBaseUrl: z.string().url().default('https://api.deepseek.com')
+  deepseekBaseUrl: z.string().url().default('https://api.deepseek.com'),
+  llmProvider: z.string().default('deepseek'),
+  llmModel: z.string().optional()
+});
+
+export const ModelPricingSchema = z.object({
+  promptPerMillion: z.number().nonnegative(),
+  completionPerMillion: z.number().nonnegative()
 });
 
 // Environment variable validation
@@ -146,11 +296,130 @@ export const EnvironmentSchema = z.object({
   PORT: z.string().transform(Number).pipe(z.number().positive()).default('3001'),
   DEEPSEEK_API_KEY: z.string().optional(),
   DEEPSEEK_BASE_URL: z.string().url().default('https://api.deepseek.com'),
+  LLM_PROVIDER: z.string().default('deepseek'),
+  LLM_MODEL: z.string().optional(),
+  LLM_API_KEY: z.string().optional(),
+  LLM_BASE_URL: z.string().url().optional(),
+  MOCK_LLM_SCRIPT_PATH: z.string().optional(),
+  LLM_MAX_RETRIES: z.string().transform(Number).pipe(z.number().int().min(0).max(10)).default('2'),
+  LLM_RETRY_BASE_DELAY_MS: z.string().transform(Number).pipe(z.number().positive()).default('500'),
+  LLM_RETRY_MAX_DELAY_MS: z.string().transform(Number).pipe(z.number().positive()).default('8000'),
+  LLM_CIRCUIT_FAILURE_THRESHOLD: z.string().transform(Number).pipe(z.number().int().positive()).default('5'),
+  LLM_CIRCUIT_RESET_MS: z.string().transform(Number).pipe(z.number().positive()).default('30000'),
+  // JSON map of model name to USD per million tokens, e.g. {"deepseek-chat":{"promptPerMillion":0.27,"completionPerMillion":1.1}}
+  LLM_PRICING: z.string().optional().transform((val, ctx) => {
+    if (!val) return {};
+    try {
+      return JSON.parse(val);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'LLM_PRICING must be valid JSON' });
+      return z.NEVER;
+    }
+  }).pipe(z.record(ModelPricingSchema)),
+  SESSION_TOKEN_BUDGET: z.string().transform(Number).pipe(z.number().int().positive()).optional(),
+  DAILY_TOKEN_BUDGET: z.string().transform(Number).pipe(z.number().int().positive()).optional(),
+  LLM_FALLBACK_ENABLED: z.enum(['true', 'false']).transform(val => val === 'true').default('true'),
   CORS_ORIGINS: z.string().optional().transform(val => 
     val ? val.split(',').map(origin => origin.trim()) : ['http://localhost:3000']
   ),
   RATE_LIMIT_WINDOW_MS: z.string().transform(Number).pipe(z.number().positive()).default('900000'),
-  RATE_LIMIT_MAX_REQUESTS: z.string().transform(Number).pipe(z.number().positive()).default('100')
+  RATE_LIMIT_MAX_REQUESTS: z.string().transform(Number).pipe(z.number().positive()).default('100'),
+  AGENT_MAX_STEPS: z.string().transform(Number).pipe(z.number().int().positive().max(10)).default('5'),
+  AGENT_MAX_DURATION_MS: z.string().transform(Number).pipe(z.number().positive()).default('45000'),
+  SESSION_STORE: z.enum(['memory', 'file']).default('memory'),
+  SESSION_FILE_PATH: z.string().default('./data/sessions.json'),
+  SESSION_TTL_MS: z.string().transform(Number).pipe(z.number().positive()).default('3600000'),
+  SESSION_MAX_MESSAGES: z.string().transform(Number).pipe(z.number().int().positive()).default('20'),
+  // Guided troubleshooting sessions use the same store type as SESSION_STORE
+  DIAGNOSTIC_FILE_PATH: z.string().default('./data/diagnostics.json'),
+  DIAGNOSTIC_TTL_MS: z.string().transform(Number).pipe(z.number().positive()).default('604800000'),
+  // Shopping carts also use the store type from SESSION_STORE
+  CART_FILE_PATH: z.string().default('./data/carts.json'),
+  CART_TTL_MS: z.string().transform(Number).pipe(z.number().positive()).default('604800000'),
+  // Checked-out orders are appended here for the downstream order system
+  ORDER_INTENT_OUTBOX_PATH: z.string().default('./data/order-intents.ndjson'),
+  // Saved appliance profiles also use the store type from SESSION_STORE
+  APPLIANCE_PROFILE_FILE_PATH: z.string().default('./data/appliance-profiles.json'),
+  APPLIANCE_PROFILE_TTL_MS: z.string().transform(Number).pipe(z.number().positive()).default('31536000000'),
+  // "memory" serves the built-in sample catalog; "file" loads CATALOG_FILE_PATH (.json, .ndjson or .csv);
+  // "sqlite" queries the database at CATALOG_DB_PATH in place (seed it with `npm run catalog:seed`)
+  CATALOG_SOURCE: z.enum(['memory', 'file', 'sqlite']).default('memory'),
+  CATALOG_FILE_PATH: z.string().default('./data/catalog.json'),
+  CATALOG_DB_PATH: z.string().default('./data/catalog.db'),
+  // Comma-separated "name:key" pairs; the name is recorded in the audit log. The admin API is off when unset.
+  ADMIN_API_KEYS: z.string().optional().transform((val, ctx) => {
+    const keys: Array<{ name: string; key: string }> = [];
+    for (const pair of (val || '').split(',').map(entry => entry.trim()).filter(Boolean)) {
+      const separator = pair.indexOf(':');
+      const name = pair.slice(0, separator).trim();
+      const key = pair.slice(separator + 1).trim();
+      if (separator < 1 || key.length < 16) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'ADMIN_API_KEYS entries must be "name:key" with keys of at least 16 characters' });
+        return z.NEVER;
+      }
+      keys.push({ name, key });
+    }
+    return keys;
+  }),
+  ADMIN_AUDIT_LOG_PATH: z.string().default('./data/admin-audit.ndjson')
+});
+
+// Query string accepted by GET /api/admin/audit
+export const AdminAuditQuerySchema = z.object({
+  entity: z.enum(['product', 'troubleshootingSymptom']).optional(),
+  entityId: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().positive().max(500).default(50)
+});
+
+// Shopping cart API schemas
+export const CartQuerySchema = z.object({
+  sessionId: z.string().trim().min(1).max(100)
+});
+
+export const CartAddRequestSchema = z.object({
+  sessionId: z.string().trim().min(1).max(100),
+  partNumber: z.string().trim().min(1).max(50),
+  quantity: z.number().int().positive().max(10).default(1),
+  modelNumber: z.string().trim().min(1).max(50).optional()
+});
+
+export const CartRemoveQuerySchema = CartQuerySchema.extend({
+  quantity: z.coerce.number().int().positive().max(10).optional()
+});
+
+export const CheckoutRequestSchema = z.object({
+  sessionId: z.string().trim().min(1).max(100),
+  profileId: z.string().trim().min(1).max(100).optional(),
+  modelNumber: z.string().trim().min(1).max(50).optional()
+});
+
+// Appliance profile API schemas
+const SavedApplianceDetailsSchema = z.object({
+  brand: z.string().trim().min(1).max(50).optional(),
+  category: ApplianceCategorySchema.optional(),
+  purchaseDate: IsoDateSchema.refine(value => Date.parse(value) <= Date.now(), { message: 'Must not be in the future' }).optional()
+});
+
+export const SavedApplianceRequestSchema = SavedApplianceDetailsSchema.extend({
+  modelNumber: z.string().trim().min(1).max(50)
+});
+
+export const SavedApplianceUpdateSchema = SavedApplianceDetailsSchema.refine(data => Object.keys(data).length > 0, {
+  message: 'At least one of brand, category or purchaseDate is required'
+});
+
+// Guided troubleshooting API schemas
+export const DiagnosticStartRequestSchema = z.object({
+  symptom: z.string().trim().min(1).max(200).optional(),
+  symptomId: z.string().trim().min(1).optional(),
+  category: ApplianceCategorySchema.optional()
+}).refine(data => data.symptom || data.symptomId, {
+  message: 'Either symptom or symptomId is required'
+});
+
+export const DiagnosticAnswerRequestSchema = z.object({
+  answer: z.union([z.boolean(), z.enum(['yes', 'no']).transform(val => val === 'yes')]),
+  note: z.string().trim().max(500).optional()
 });
 
 // Error response schema
@@ -195,6 +464,36 @@ export function validateEnvironment() {
   }
 }
 
+export function validateProduct(data: unknown) {
+  try {
+    const validated = ProductSchema.parse(data);
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        error: error.errors.map(e => `${e.path.join('.') || 'record'}: ${e.message}`).join(', ')
+      };
+    }
+    return { success: false, error: 'Product validation failed' };
+  }
+}
+
+export function validateTroubleshootingSymptom(data: unknown) {
+  try {
+    const validated = TroubleshootingSymptomSchema.parse(data);
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        error: error.errors.map(e => `${e.path.join('.') || 'record'}: ${e.message}`).join(', ')
+      };
+    }
+    return { success: false, error: 'Troubleshooting guide validation failed' };
+  }
+}
+
 export function validateChatRequest(data: unknown) {
   try {
     const validated = ChatRequestSchema.parse(data);
@@ -210,6 +509,21 @@ export function validateChatRequest(data: unknown) {
   }
 }
 
+export function validateProductSearchQuery(data: unknown) {
+  try {
+    const validated = ProductSearchQuerySchema.parse(data);
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        error: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+      };
+    }
+    return { success: false, error: 'Search parameters validation failed' };
+  }
+}
+
 export function validateProductSearchParams(data: unknown) {
   try {
     const validated = ProductSearchParamsSchema.parse(data);
@@ -223,4 +537,138 @@ export function validateProductSearchParams(data: unknown) {
     }
     return { success: false, error: 'Search parameters validation failed' };
   }
-}
\ No newline at end of file
+}
+export function validateAdminAuditQuery(data: unknown) {
+  try {
+    const validated = AdminAuditQuerySchema.parse(data);
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        error: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+      };
+    }
+    return { success: false, error: 'Audit query validation failed' };
+  }
+}
+
+export function validateDiagnosticStartRequest(data: unknown) {
+  try {
+    const validated = DiagnosticStartRequestSchema.parse(data);
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        error: error.errors.map(e => `${e.path.join('.') || 'body'}: ${e.message}`).join(', ')
+      };
+    }
+    return { success: false, error: 'Diagnostic request validation failed' };
+  }
+}
+
+export function validateDiagnosticAnswerRequest(data: unknown) {
+  try {
+    const validated = DiagnosticAnswerRequestSchema.parse(data);
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        error: error.errors.map(e => `${e.path.join('.') || 'body'}: ${e.message}`).join(', ')
+      };
+    }
+    return { success: false, error: 'Diagnostic answer validation failed' };
+  }
+}
+
+export function validateCartQuery(data: unknown) {
+  try {
+    const validated = CartQuerySchema.parse(data);
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        error: error.errors.map(e => `${e.path.join('.') || 'body'}: ${e.message}`).join(', ')
+      };
+    }
+    return { success: false, error: 'Cart query validation failed' };
+  }
+}
+
+export function validateCartAddRequest(data: unknown) {
+  try {
+    const validated = CartAddRequestSchema.parse(data);
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        error: error.errors.map(e => `${e.path.join('.') || 'body'}: ${e.message}`).join(', ')
+      };
+    }
+    return { success: false, error: 'Cart request validation failed' };
+  }
+}
+
+export function validateCartRemoveQuery(data: unknown) {
+  try {
+    const validated = CartRemoveQuerySchema.parse(data);
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        error: error.errors.map(e => `${e.path.join('.') || 'body'}: ${e.message}`).join(', ')
+      };
+    }
+    return { success: false, error: 'Cart query validation failed' };
+  }
+}
+
+export function validateCheckoutRequest(data: unknown) {
+  try {
+    const validated = CheckoutRequestSchema.parse(data);
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        error: error.errors.map(e => `${e.path.join('.') || 'body'}: ${e.message}`).join(', ')
+      };
+    }
+    return { success: false, error: 'Checkout request validation failed' };
+  }
+}
+
+export function validateSavedApplianceRequest(data: unknown) {
+  try {
+    const validated = SavedApplianceRequestSchema.parse(data);
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        error: error.errors.map(e => `${e.path.join('.') || 'body'}: ${e.message}`).join(', ')
+      };
+    }
+    return { success: false, error: 'Appliance request validation failed' };
+  }
+}
+
+export function validateSavedApplianceUpdate(data: unknown) {
+  try {
+    const validated = SavedApplianceUpdateSchema.parse(data);
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        error: error.errors.map(e => `${e.path.join('.') || 'body'}: ${e.message}`).join(', ')
+      };
+    }
+    return { success: false, error: 'Appliance update validation failed' };
+  }
+}
@@ -0,0 +1,96 @@
+// backend/src/scripts/importCatalog.ts
+import { config } from 'dotenv';
+import { createFileCatalogRepository } from '../services/CatalogRepository';
+
+/**
+ * Imports a product catalog from a JSON, NDJSON or CSV file into the catalog the server
+ * loads (CATALOG_FILE_PATH, or CATALOG_DB_PATH when CATALOG_SOURCE is "sqlite"). Every record is validated against the product schema
+ * and rejected records are listed with their line. The catalog is only replaced when all
+ * records are valid (or --allow-partial is given), and the new file is swapped in atomically.
+ *
+ * Usage: npm run catalog:import -- <source-file> [--target <file>] [--dry-run] [--allow-partial]
+ * Runs from the compiled build in dist/ (`npm run build` first).
+ */
+
+const USAGE = 'Usage: npm run catalog:import -- <source-file> [--target <file>] [--dry-run] [--allow-partial]';
+
+interface ImportOptions {
+  source: string;
+  target: string;
+  dryRun: boolean;
+  allowPartial: boolean;
+}
+
+function parseArguments(args: string[]): ImportOptions | null {
+  const options: Partial<ImportOptions> = { dryRun: false, allowPartial: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--allow-partial') {
+      options.allowPartial = true;
+    } else if (arg === '--target') {
+      options.target = args[++i];
+    } else if (!arg.startsWith('--') && !options.source) {
+      options.source = arg;
+    } else {
+      return null;
+    }
+  }
+
+  if (!options.source) {
+    return null;
+  }
+  return {
+    ...options,
+    target: options.target || (process.env.CATALOG_SOURCE === 'sqlite'
+      ? process.env.CATALOG_DB_PATH || './data/catalog.db'
+      : process.env.CATALOG_FILE_PATH || './data/catalog.json')
+  } as ImportOptions;
+}
+
+async function importCatalog(options: ImportOptions): Promise<number> {
+  const source = createFileCatalogRepository(options.source);
+  const target = createFileCatalogRepository(options.target);
+
+  console.log(`Validating ${source.description}...`);
+  const { catalog, errors } = await source.load();
+
+  for (const error of errors) {
+    console.error(`  line ${error.line}${error.partNumber ? ` (${error.partNumber})` : ''}: ${error.message}`);
+  }
+  console.log(`${catalog.products.length} products and ${catalog.troubleshootingSymptoms.length} troubleshooting guides are valid; ${errors.length} records rejected.`);
+
+  if (errors.length > 0 && !options.allowPartial) {
+    console.error('Catalog not imported. Fix the rejected records, or pass --allow-partial to import only the valid ones.');
+    return 1;
+  }
+  if (catalog.products.length === 0) {
+    console.error('Catalog not imported: the source contains no valid products.');
+    return 1;
+  }
+  if (options.dryRun) {
+    console.log('Dry run: the catalog was not written.');
+    return 0;
+  }
+
+  await target.save(catalog);
+  console.log(`Catalog written to ${target.description}. Restart the server, or send it SIGHUP, to serve the new catalog.`);
+  return 0;
+}
+
+config();
+
+const options = parseArguments(process.argv.slice(2));
+if (!options) {
+  console.error(USAGE);
+  process.exit(2);
+}
+
+importCatalog(options)
+  .then(exitCode => process.exit(exitCode))
+  .catch(error => {
+    console.error(`Catalog import failed: ${(error as Error).message}`);
+    process.exit(1);
+  });
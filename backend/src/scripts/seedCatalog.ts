@@ -0,0 +1,72 @@
+// backend/src/scripts/seedCatalog.ts
+import { config } from 'dotenv';
+import { SqliteCatalogStore } from '../services/SqliteCatalogStore';
+import { sampleProducts, troubleshootingSymptoms } from '../data/sampleProducts';
+
+/**
+ * Creates the SQLite catalog database (CATALOG_DB_PATH) if needed, applies its migrations
+ * and loads the built-in sample products and troubleshooting guides into it. A database
+ * that already holds a catalog is left alone unless --force is given.
+ *
+ * Usage: npm run catalog:seed -- [--db <file>] [--force]
+ * Runs the compiled script, so build first (`npm run build`); the production image includes it.
+ */
+
+const USAGE = 'Usage: npm run catalog:seed -- [--db <file>] [--force]';
+
+interface SeedOptions {
+  dbPath: string;
+  force: boolean;
+}
+
+function parseArguments(args: string[]): SeedOptions | null {
+  const options: Partial<SeedOptions> = { force: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--force') {
+      options.force = true;
+    } else if (arg === '--db' && args[i + 1]) {
+      options.dbPath = args[++i];
+    } else {
+      return null;
+    }
+  }
+
+  return {
+    ...options,
+    dbPath: options.dbPath || process.env.CATALOG_DB_PATH || './data/catalog.db'
+  } as SeedOptions;
+}
+
+function seedCatalog(options: SeedOptions): number {
+  const store = new SqliteCatalogStore(options.dbPath);
+  try {
+    const existing = store.count();
+    if (existing.products > 0 && !options.force) {
+      console.error(`${store.description} already holds ${existing.products} products. Pass --force to replace them with the sample catalog.`);
+      return 1;
+    }
+
+    store.replaceCatalog({ products: sampleProducts, troubleshootingSymptoms });
+    console.log(`Seeded ${store.description} with ${sampleProducts.length} products and ${troubleshootingSymptoms.length} troubleshooting guides.`);
+    return 0;
+  } finally {
+    store.close();
+  }
+}
+
+config();
+
+const options = parseArguments(process.argv.slice(2));
+if (!options) {
+  console.error(USAGE);
+  process.exit(2);
+}
+
+try {
+  process.exit(seedCatalog(options));
+} catch (error) {
+  console.error(`Catalog seed failed: ${(error as Error).message}`);
+  process.exit(1);
+}
@@ -1,20 +1,57 @@
 // backend/src/server.ts
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
+import crypto from 'crypto';
 import { config } from 'dotenv';
 
-import { DeepSeekService } from './services/DeepSeekService';
+import { createLLMService } from './services/LLMProviderRegistry';
+import { ResilientLLMService } from './services/ResilientLLMService';
+import { LLMServiceError, LLMErrorCategory } from './services/LLMServiceError';
 import { PartSelectAgent } from './agents/PartSelectAgent';
+import { RuleBasedAgent } from './agents/RuleBasedAgent';
 import { SearchService } from './services/SearchService';
+import { SessionService } from './services/SessionService';
+import { InMemorySessionStore, FileSessionStore, InMemoryRecordStore, FileDiagnosticSessionStore, FileCartStore, FileApplianceProfileStore } from './services/SessionStore';
+import { CartService, CartError } from './services/CartService';
+import { FileOrderIntentOutbox } from './services/OrderIntentOutbox';
+import { ApplianceProfileService, ApplianceProfileError, pickSavedAppliance } from './services/ApplianceProfileService';
+import { DiagnosticService, DiagnosticSessionError } from './services/DiagnosticService';
+import { UsageTracker, TokenBudgetExceededError } from './services/UsageTracker';
+import { InMemoryCatalogRepository, createFileCatalogRepository } from './services/CatalogRepository';
+import { SqliteCatalogStore } from './services/SqliteCatalogStore';
+import { CatalogAdminService, CatalogAdminError } from './services/CatalogAdminService';
+import { FileAuditLog } from './services/AuditLog';
+import { applianceCategories, getApplianceCategory, CATEGORY_IDS } from './data/categories';
+import { withOffer } from './utils/pricing';
 import { 
+  ChatAction,
   ChatRequest, 
   ChatResponse, 
   ChatMessage, 
-  ServerConfig 
+  ConversationSession,
+  ServerConfig,
+  AgentCallbacks,
+  LLMService,
+  DiagnosticSession,
+  Cart,
+  ApplianceProfile,
+  CatalogRepository,
+  ToolExecutionContext,
+  ProductSearchParams
 } from './types';
 import { 
   validateEnvironment, 
   validateChatRequest,
+  validateDiagnosticStartRequest,
+  validateDiagnosticAnswerRequest,
+  validateProductSearchQuery,
+  validateAdminAuditQuery,
+  validateCartQuery,
+  validateCartAddRequest,
+  validateCartRemoveQuery,
+  validateCheckoutRequest,
+  validateSavedApplianceRequest,
+  validateSavedApplianceUpdate,
 } from './data/schemas';
 
 /**
@@ -42,20 +79,148 @@ const serverConfig: ServerConfig = {
   rateLimitWindowMs: envConfig.RATE_LIMIT_WINDOW_MS,
   rateLimitMaxRequests: envConfig.RATE_LIMIT_MAX_REQUESTS,
   deepseekApiKey: envConfig.DEEPSEEK_API_KEY,
-  deepseekBaseUrl: envConfig.DEEPSEEK_BASE_URL
+  deepseekBaseUrl: envConfig.DEEPSEEK_BASE_URL,
+  llmProvider: envConfig.LLM_PROVIDER,
+  llmModel: envConfig.LLM_MODEL
 };
 
 // Initialize services with dependency injection
-const deepSeekService = new DeepSeekService({
-  apiKey: serverConfig.deepseekApiKey,
-  baseUrl: serverConfig.deepseekBaseUrl
+// The LLM provider is chosen by LLM_PROVIDER; DEEPSEEK_* settings remain as fallbacks for the default provider
+const isDeepSeekProvider = serverConfig.llmProvider.toLowerCase() === 'deepseek';
+let llmService: LLMService;
+try {
+  llmService = new ResilientLLMService(
+    createLLMService({
+      provider: serverConfig.llmProvider,
+      model: serverConfig.llmModel,
+      apiKey: envConfig.LLM_API_KEY || (isDeepSeekProvider ? serverConfig.deepseekApiKey : undefined),
+      baseUrl: envConfig.LLM_BASE_URL || (isDeepSeekProvider ? serverConfig.deepseekBaseUrl : undefined),
+      mockScriptPath: envConfig.MOCK_LLM_SCRIPT_PATH
+    }),
+    {
+      maxRetries: envConfig.LLM_MAX_RETRIES,
+      baseDelayMs: envConfig.LLM_RETRY_BASE_DELAY_MS,
+      maxDelayMs: envConfig.LLM_RETRY_MAX_DELAY_MS,
+      failureThreshold: envConfig.LLM_CIRCUIT_FAILURE_THRESHOLD,
+      resetTimeoutMs: envConfig.LLM_CIRCUIT_RESET_MS
+    }
+  );
+} catch (error) {
+  console.error('LLM provider configuration failed:', (error as Error).message);
+  process.exit(1);
+}
+let catalogRepository: CatalogRepository;
+// Set when the catalog is served from SQLite, which the search service queries directly
+let catalogDatabase: SqliteCatalogStore | undefined;
+try {
+  if (envConfig.CATALOG_SOURCE === 'sqlite') {
+    catalogDatabase = new SqliteCatalogStore(envConfig.CATALOG_DB_PATH);
+    catalogRepository = catalogDatabase;
+  } else {
+    catalogRepository = envConfig.CATALOG_SOURCE === 'file'
+      ? createFileCatalogRepository(envConfig.CATALOG_FILE_PATH)
+      : new InMemoryCatalogRepository();
+  }
+} catch (error) {
+  console.error('Catalog configuration failed:', (error as Error).message);
+  process.exit(1);
+}
+const searchService = new SearchService(catalogDatabase);
+// Summary of the last catalog load, reported by /api/stats
+const catalogStatus = { source: catalogRepository.description, products: 0, troubleshootingGuides: 0, skippedRecords: 0, loadedAt: null as Date | null };
+const auditLog = new FileAuditLog(envConfig.ADMIN_AUDIT_LOG_PATH);
+const catalogAdminService = new CatalogAdminService(searchService, auditLog, {
+  // A SQLite catalog is written by the search service's store itself
+  repository: catalogDatabase ? undefined : catalogRepository,
+  onChange: counts => Object.assign(catalogStatus, {
+    products: counts.products,
+    troubleshootingGuides: counts.troubleshootingSymptoms,
+    loadedAt: new Date()
+  })
+});
+const sessionService = new SessionService(
+  envConfig.SESSION_STORE === 'file'
+    ? new FileSessionStore(envConfig.SESSION_FILE_PATH)
+    : new InMemorySessionStore(),
+  {
+    ttlMs: envConfig.SESSION_TTL_MS,
+    maxMessages: envConfig.SESSION_MAX_MESSAGES
+  }
+);
+const diagnosticService = new DiagnosticService(
+  envConfig.SESSION_STORE === 'file'
+    ? new FileDiagnosticSessionStore(envConfig.DIAGNOSTIC_FILE_PATH)
+    : new InMemoryRecordStore<DiagnosticSession>(),
+  searchService,
+  { ttlMs: envConfig.DIAGNOSTIC_TTL_MS }
+);
+const cartService = new CartService(
+  envConfig.SESSION_STORE === 'file'
+    ? new FileCartStore(envConfig.CART_FILE_PATH)
+    : new InMemoryRecordStore<Cart>(),
+  searchService,
+  new FileOrderIntentOutbox(envConfig.ORDER_INTENT_OUTBOX_PATH),
+  { ttlMs: envConfig.CART_TTL_MS }
+);
+const profileService = new ApplianceProfileService(
+  envConfig.SESSION_STORE === 'file'
+    ? new FileApplianceProfileStore(envConfig.APPLIANCE_PROFILE_FILE_PATH)
+    : new InMemoryRecordStore<ApplianceProfile>(),
+  searchService,
+  { ttlMs: envConfig.APPLIANCE_PROFILE_TTL_MS }
+);
+const usageTracker = new UsageTracker({
+  pricing: envConfig.LLM_PRICING,
+  sessionTokenBudget: envConfig.SESSION_TOKEN_BUDGET,
+  dailyTokenBudget: envConfig.DAILY_TOKEN_BUDGET
 });
-const searchService = new SearchService();
-const partSelectAgent = new PartSelectAgent(deepSeekService, searchService);
+const agentOptions = {
+  maxSteps: envConfig.AGENT_MAX_STEPS,
+  maxDurationMs: envConfig.AGENT_MAX_DURATION_MS
+};
+const agentServices = { searchService, diagnosticService, cartService };
+const createAgent = () => new PartSelectAgent(llmService, agentServices, agentOptions);
+const createFallbackAgent = () => new RuleBasedAgent(llmService, agentServices, agentOptions);
+const createActionAgent = (action: ChatAction) => new RuleBasedAgent(llmService, agentServices, agentOptions, action);
 
 // Create Express app
 const app = express();
 
+/**
+ * Loads the catalog from the configured repository and swaps it into the search service.
+ * Invalid records are skipped with a warning; a catalog that fails to load entirely leaves
+ * the current one in place. A SQLite catalog is queried in place, so only its size is read.
+ */
+async function loadCatalog(): Promise<void> {
+  if (catalogDatabase) {
+    const counts = catalogDatabase.count();
+    Object.assign(catalogStatus, { products: counts.products, troubleshootingGuides: counts.troubleshootingSymptoms, skippedRecords: 0, loadedAt: new Date() });
+    console.log(`Catalog served from ${catalogDatabase.description}: ${counts.products} products, ${counts.troubleshootingSymptoms} troubleshooting guides`);
+    if (counts.products === 0) {
+      console.warn('The catalog database is empty. Run `npm run catalog:seed` or `npm run catalog:import` to fill it.');
+    }
+    return;
+  }
+
+  try {
+    const { catalog, errors } = await catalogRepository.load();
+    for (const error of errors) {
+      console.warn(`Catalog record skipped (line ${error.line}${error.partNumber ? `, ${error.partNumber}` : ''}): ${error.message}`);
+    }
+
+    searchService.setCatalog(catalog);
+    Object.assign(catalogStatus, {
+      products: catalog.products.length,
+      troubleshootingGuides: catalog.troubleshootingSymptoms.length,
+      skippedRecords: errors.length,
+      loadedAt: new Date()
+    });
+    console.log(`Catalog loaded from ${catalogRepository.description}: ${catalog.products.length} products, ${catalog.troubleshootingSymptoms.length} troubleshooting guides, ${errors.length} records skipped`);
+  } catch (error) {
+    console.error(`Failed to load catalog from ${catalogRepository.description}:`, (error as Error).message);
+  }
+}
+
 /**
  * ========================================
  * MIDDLEWARE SETUP
@@ -70,7 +235,7 @@ app.use(express.urlencoded({ extended: true }));
 app.use(cors({
   origin: serverConfig.corsOrigins,
   credentials: true,
-  methods: ['GET', 'POST', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
 
@@ -104,6 +269,14 @@ const cleanupRateLimit = () => {
 // Run cleanup every 5 minutes
 setInterval(cleanupRateLimit, 5 * 60 * 1000);
 
+// Expired conversation sessions are purged on the same schedule
+setInterval(() => {
+  sessionService.purgeExpired().catch(error => console.error('Session cleanup error:', error));
+  diagnosticService.purgeExpired().catch(error => console.error('Diagnostic session cleanup error:', error));
+  cartService.purgeExpired().catch(error => console.error('Cart cleanup error:', error));
+  profileService.purgeExpired().catch(error => console.error('Appliance profile cleanup error:', error));
+}, 5 * 60 * 1000);
+
 // Rate limiting middleware to prevent abuse
 const rateLimit = (req: Request, res: Response, next: NextFunction) => {
   const clientId = req.ip || 'unknown';
@@ -157,13 +330,143 @@ app.get('/health', (req: Request, res: Response) => {
     timestamp: new Date().toISOString(),
     environment: envConfig.NODE_ENV,
     services: {
-      deepSeek: deepSeekService.getStatus(),
+      llm: llmService.getStatus(),
     }
   };
   
   res.json(health);
 });
 
+// Streaming hooks for a chat turn; onReset tells the client to discard the steps and tokens streamed so far
+type ChatTurnCallbacks = AgentCallbacks & { onReset?: () => void };
+
+/**
+ * Runs the LLM agent, switching to the rule-based agent when the provider is known to be
+ * down (not configured or circuit open) or a call fails, so simple requests still get an answer.
+ * A streaming client that has already received part of the LLM agent's output is told to
+ * discard it before the fallback's output follows; one that cannot be told gets the error.
+ * A follow-up action picked in the UI names its tool and part, so it is run without the LLM.
+ */
+const answerQuery = async (message: string, context: ChatMessage[], callbacks: ChatTurnCallbacks, toolContext: ToolExecutionContext, action?: ChatAction) => {
+  // Agents keep per-run reasoning state, so each turn gets its own instance
+  if (action) {
+    return { ...await createActionAgent(action).processQuery(message, context, callbacks, toolContext), degraded: false };
+  }
+  
+  if (envConfig.LLM_FALLBACK_ENABLED && llmService.getStatus().status === 'unhealthy') {
+    console.warn('LLM provider unavailable - answering with the rule-based agent');
+    return { ...await createFallbackAgent().processQuery(message, context, callbacks, toolContext), degraded: true };
+  }
+  
+  let streamed = false;
+  const trackedCallbacks: AgentCallbacks = {
+    onStep: callbacks.onStep ? step => { streamed = true; callbacks.onStep?.(step); } : undefined,
+    onToken: callbacks.onToken ? token => { streamed = true; callbacks.onToken?.(token); } : undefined,
+    signal: callbacks.signal
+  };
+  
+  try {
+    return { ...await createAgent().processQuery(message, context, trackedCallbacks, toolContext), degraded: false };
+  } catch (error) {
+    // A rejected request points at a bug on our side, so it is reported rather than masked;
+    // an aborted one has nobody left to answer
+    if (!envConfig.LLM_FALLBACK_ENABLED || !(error instanceof LLMServiceError) || error.category === 'bad_request' || error.category === 'aborted') {
+      throw error;
+    }
+    if (streamed && !callbacks.onReset) {
+      throw error;
+    }
+    console.warn(`LLM call failed (${error.category}) - answering with the rule-based agent`);
+    if (streamed) {
+      callbacks.onReset?.();
+    }
+    // The tokens spent by the failed attempt count towards the turn's usage
+    const fallbackResponse = await createFallbackAgent().processQuery(message, context, callbacks, toolContext);
+    return { ...fallbackResponse, usage: [...error.usage, ...fallbackResponse.usage], degraded: true };
+  }
+};
+
+/**
+ * Answers one conversational turn for a loaded session: runs the agent with the
+ * session history as context, records the exchange and builds the response.
+ */
+const answerChatTurn = async (session: ConversationSession, chatRequest: ChatRequest, callbacks: ChatTurnCallbacks): Promise<ChatResponse> => {
+  const messageId = `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  
+  usageTracker.assertWithinBudget(session);
+  // Explicit context from the client takes precedence over the stored session history
+  const context = chatRequest.context && chatRequest.context.length > 0
+    ? chatRequest.context
+    : sessionService.buildContext(session);
+  
+  const userMessage: ChatMessage = {
+    id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    role: 'user',
+    content: chatRequest.message,
+    timestamp: new Date()
+  };
+  
+  // Without a profile id from the client, the appliances are remembered for this session only
+  const profileId = chatRequest.profileId || session.id;
+  const profile = await profileService.get(profileId);
+  
+  let agentResponse: Awaited<ReturnType<typeof answerQuery>>;
+  try {
+    agentResponse = await answerQuery(chatRequest.message, context, callbacks, {
+      sessionId: session.id,
+      recentPartNumbers: session.lastPartNumbers,
+      recentModelNumbers: session.lastModelNumbers,
+      appliances: profile.appliances
+    }, chatRequest.action);
+  } catch (error) {
+    // A failed turn still spent the tokens of the calls made before the failure
+    if (error instanceof LLMServiceError && error.usage.length > 0) {
+      const failedUsage = usageTracker.summarize(error.usage);
+      usageTracker.record(session.id, failedUsage);
+      await sessionService.recordUsage(session, failedUsage);
+    }
+    throw error;
+  }
+  const usage = usageTracker.summarize(agentResponse.usage);
+  usageTracker.record(session.id, usage);
+  
+  const responseMessage: ChatMessage = {
+    id: messageId,
+    role: 'assistant',
+    content: agentResponse.response,
+    timestamp: new Date(),
+    metadata: {
+      reasoning: agentResponse.reasoning?.map(r => r.content) || [],
+      toolsUsed: agentResponse.reasoning?.filter(r => r.tool).map(r => r.tool!) || [],
+      products: agentResponse.products || [],
+      error: agentResponse.error,
+      degraded: agentResponse.degraded || undefined,
+      usage
+    }
+  };
+  
+  await sessionService.recordTurn(session, userMessage, responseMessage, agentResponse.reasoning);
+  await profileService.rememberFromTurn(profileId, chatRequest.message, agentResponse.reasoning);
+  
+  console.log(`Chat request processed successfully - ${responseMessage.metadata?.toolsUsed?.length || 0} tools used`);
+  
+  return {
+    message: responseMessage,
+    sessionId: session.id,
+    reasoning: agentResponse.reasoning,
+    products: agentResponse.products,
+    error: agentResponse.error
+  };
+};
+
+/**
+ * Runs one conversational turn. Turns of one session are queued, so each is answered
+ * with the history and usage stored by the previous one.
+ * Shared by the JSON and streaming chat endpoints.
+ */
+const runChatTurn = (chatRequest: ChatRequest, callbacks: ChatTurnCallbacks = {}): Promise<ChatResponse> =>
+  sessionService.runTurn(chatRequest.sessionId, session => answerChatTurn(session, chatRequest, callbacks));
+
 // Main chat endpoint
 app.post('/api/chat', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -180,40 +483,104 @@ app.post('/api/chat', async (req: Request, res: Response, next: NextFunction) =>
       });
     }
     
-    const chatRequest = validation.data as ChatRequest;
-    const messageId = `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-    
-    const agentResponse = await partSelectAgent.processQuery(
-      chatRequest.message,
-      chatRequest.context || []
-    );
-    
-    const responseMessage: ChatMessage = {
-      id: messageId,
-      role: 'assistant',
-      content: agentResponse.response,
-      timestamp: new Date(),
-      metadata: {
-        reasoning: agentResponse.reasoning?.map(r => r.content) || [],
-        toolsUsed: agentResponse.reasoning?.filter(r => r.tool).map(r => r.tool!) || [],
-        products: agentResponse.products || [],
-        error: agentResponse.error
+    const chatResponse = await runChatTurn(validation.data as ChatRequest);
+    res.json(chatResponse);
+    
+  } catch (error) {
+    console.error('Chat endpoint error:', error);
+    next(error);
+  }
+});
+
+// Streaming chat endpoint (Server-Sent Events)
+// Emits `step` for each reasoning step, `token` for each fragment of the final answer,
+// then a terminal `done` event with the full ChatResponse (or `error`).
+app.post('/api/chat/stream', async (req: Request, res: Response) => {
+  console.log('Processing streaming chat request...');
+  
+  const validation = validateChatRequest(req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      error: {
+        code: 'INVALID_REQUEST',
+        message: 'Request validation failed',
+        details: { validationError: validation.error }
       }
-    };
+    });
+  }
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  
+  // A client that goes away cancels the turn, so no more tokens are spent on it
+  let clientClosed = false;
+  const abortController = new AbortController();
+  res.on('close', () => {
+    clientClosed = true;
+    abortController.abort();
+  });
+  
+  const sendEvent = (event: string, data: unknown) => {
+    if (!clientClosed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+  
+  try {
+    const chatResponse = await runChatTurn(validation.data as ChatRequest, {
+      onStep: step => sendEvent('step', step),
+      onToken: token => sendEvent('token', { token }),
+      onReset: () => sendEvent('reset', { reason: 'fallback' }),
+      signal: abortController.signal
+    });
+    sendEvent('done', chatResponse);
+  } catch (error) {
+    if (error instanceof LLMServiceError && error.category === 'aborted') {
+      console.log('Streaming chat request aborted - client disconnected');
+      return;
+    }
+    console.error('Streaming chat endpoint error:', error);
+    const { code, message, retryAfterMs } = describeError(error);
+    sendEvent('error', { code, message, retryAfterMs });
+  } finally {
+    res.end();
+  }
+});
+
+// Conversation history endpoint. The session id is the only credential, see SessionService.
+app.get('/api/sessions/:sessionId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const session = await sessionService.get(req.params.sessionId);
     
-    const chatResponse: ChatResponse = {
-      message: responseMessage,
-      reasoning: agentResponse.reasoning,
-      products: agentResponse.products,
-      error: agentResponse.error
-    };
+    if (!session) {
+      return res.status(404).json({
+        error: {
+          code: 'SESSION_NOT_FOUND',
+          message: `Session ${req.params.sessionId} not found or expired`
+        }
+      });
+    }
     
-    console.log(`Chat request processed successfully - ${responseMessage.metadata?.toolsUsed?.length || 0} tools used`);
+    res.json(session);
     
-    res.json(chatResponse);
+  } catch (error) {
+    console.error('Session lookup error:', error);
+    next(error);
+  }
+});
+
+// End a conversation and forget its history
+app.delete('/api/sessions/:sessionId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await sessionService.delete(req.params.sessionId);
+    res.status(204).end();
     
   } catch (error) {
-    console.error('Chat endpoint error:', error);
+    console.error('Session delete error:', error);
     next(error);
   }
 });
@@ -221,17 +588,20 @@ app.post('/api/chat', async (req: Request, res: Response, next: NextFunction) =>
 // Product search endpoint
 app.get('/api/products/search', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const searchParams = {
-      query: req.query.q as string,
-      partNumber: req.query.partNumber as string,
-      category: req.query.category as 'refrigerator' | 'dishwasher',
-      brand: req.query.brand as string,
-      limit: parseInt(req.query.limit as string) || 10,
-      offset: parseInt(req.query.offset as string) || 0
-    };
+    const validation = validateProductSearchQuery(req.query);
+    if (!validation.success || !validation.data) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Search parameters validation failed',
+          details: { validationError: validation.error }
+        }
+      });
+    }
     
+    const searchParams: ProductSearchParams = validation.data;
     const results = await searchService.searchProducts(searchParams);
-    res.json(results);
+    res.json({ ...results, products: results.products.map(product => withOffer(product)) });
     
   } catch (error) {
     console.error('Product search error:', error);
@@ -243,9 +613,9 @@ app.get('/api/products/search', async (req: Request, res: Response, next: NextFu
 app.get('/api/products/:partNumber', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { partNumber } = req.params;
-    const product = await searchService.getProductByPartNumber(partNumber);
+    const resolution = searchService.resolvePartNumber(partNumber);
     
-    if (!product) {
+    if (!resolution) {
       return res.status(404).json({
         error: {
           code: 'PRODUCT_NOT_FOUND',
@@ -254,7 +624,10 @@ app.get('/api/products/:partNumber', async (req: Request, res: Response, next: N
       });
     }
     
-    res.json(product);
+    // Aliases and replaced numbers return the current part, and variant numbers the variant, with an explanation
+    const { product, relation, chain, message } = resolution;
+    const details = withOffer(product);
+    res.json(relation === 'exact' ? details : { ...details, resolvedFrom: { partNumber, relation, chain, message } });
     
   } catch (error) {
     console.error('Product details error:', error);
@@ -262,6 +635,48 @@ app.get('/api/products/:partNumber', async (req: Request, res: Response, next: N
   }
 });
 
+// Parts for an appliance model
+app.get('/api/models/:modelNumber/parts', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { modelNumber } = req.params;
+    const category = req.query.category as string | undefined;
+    
+    if (category && !getApplianceCategory(category)) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_REQUEST',
+          message: `category must be one of: ${CATEGORY_IDS.join(', ')}`
+        }
+      });
+    }
+    
+    const result = await searchService.getPartsForModel(modelNumber, category);
+    
+    if (!result.found) {
+      return res.status(404).json({
+        error: {
+          code: 'MODEL_NOT_FOUND',
+          message: `Model ${modelNumber} not found`,
+          details: { suggestions: result.suggestions }
+        }
+      });
+    }
+    
+    res.json(result);
+    
+  } catch (error) {
+    console.error('Model parts lookup error:', error);
+    next(error);
+  }
+});
+
+// Supported appliance categories, for category pickers and filters
+app.get('/api/categories', (req: Request, res: Response) => {
+  res.json({
+    categories: applianceCategories.map(({ id, name, scope }) => ({ id, name, scope }))
+  });
+});
+
 // Compatibility check endpoint
 app.post('/api/compatibility', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -308,6 +723,310 @@ app.get('/api/installation/:partNumber', async (req: Request, res: Response, nex
   }
 });
 
+// Start a guided troubleshooting session
+app.post('/api/troubleshooting/sessions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateDiagnosticStartRequest(req.body);
+    if (!validation.success || !validation.data) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request validation failed',
+          details: { validationError: validation.error }
+        }
+      });
+    }
+    
+    const session = await diagnosticService.start(validation.data);
+    res.status(201).json(await diagnosticService.describe(session));
+    
+  } catch (error) {
+    console.error('Troubleshooting session start error:', error);
+    next(error);
+  }
+});
+
+// Answer the current step of a guided troubleshooting session
+app.post('/api/troubleshooting/sessions/:id/answer', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateDiagnosticAnswerRequest(req.body);
+    if (!validation.success || !validation.data) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request validation failed',
+          details: { validationError: validation.error }
+        }
+      });
+    }
+    
+    const session = await diagnosticService.answer(req.params.id, validation.data.answer, validation.data.note);
+    res.json(await diagnosticService.describe(session));
+    
+  } catch (error) {
+    console.error('Troubleshooting answer error:', error);
+    next(error);
+  }
+});
+
+// Resume a guided troubleshooting session
+app.get('/api/troubleshooting/sessions/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const session = await diagnosticService.get(req.params.id);
+    
+    if (!session) {
+      return res.status(404).json({
+        error: {
+          code: 'DIAGNOSTIC_SESSION_NOT_FOUND',
+          message: `Diagnostic session ${req.params.id} not found or expired`
+        }
+      });
+    }
+    
+    res.json(await diagnosticService.describe(session));
+    
+  } catch (error) {
+    console.error('Troubleshooting session lookup error:', error);
+    next(error);
+  }
+});
+
+/**
+ * ========================================
+ * SHOPPING CART ENDPOINTS
+ * ========================================
+ */
+
+// The cart for a chat session
+app.get('/api/cart', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateCartQuery(req.query);
+    if (!validation.success || !validation.data) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request validation failed',
+          details: { validationError: validation.error }
+        }
+      });
+    }
+    
+    res.json(await cartService.get(validation.data.sessionId));
+    
+  } catch (error) {
+    console.error('Cart lookup error:', error);
+    next(error);
+  }
+});
+
+// Add a part to the cart
+app.post('/api/cart', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateCartAddRequest(req.body);
+    if (!validation.success || !validation.data) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request validation failed',
+          details: { validationError: validation.error }
+        }
+      });
+    }
+    
+    const { sessionId, partNumber, quantity, modelNumber } = validation.data;
+    res.status(201).json(await cartService.addItem(sessionId, partNumber, quantity, modelNumber));
+    
+  } catch (error) {
+    console.error('Cart add error:', error);
+    next(error);
+  }
+});
+
+// Empty the cart
+app.delete('/api/cart', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateCartQuery(req.query);
+    if (!validation.success || !validation.data) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request validation failed',
+          details: { validationError: validation.error }
+        }
+      });
+    }
+    
+    await cartService.clear(validation.data.sessionId);
+    res.json({ message: 'Cart cleared' });
+    
+  } catch (error) {
+    console.error('Cart clear error:', error);
+    next(error);
+  }
+});
+
+// Remove a part from the cart, or lower its quantity
+app.delete('/api/cart/items/:partNumber', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateCartRemoveQuery(req.query);
+    if (!validation.success || !validation.data) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request validation failed',
+          details: { validationError: validation.error }
+        }
+      });
+    }
+    
+    res.json(await cartService.removeItem(validation.data.sessionId, req.params.partNumber, validation.data.quantity));
+    
+  } catch (error) {
+    console.error('Cart remove error:', error);
+    next(error);
+  }
+});
+
+/**
+ * The appliance a cart is checked out for when the request names none: the model the parts
+ * were added for, else the saved appliance of the parts' type, else the model last discussed
+ * in the chat.
+ */
+const findCheckoutModel = async (sessionId: string, profileId: string): Promise<string | undefined> => {
+  const cart = await cartService.get(sessionId);
+  if (cart.modelNumber) {
+    return cart.modelNumber;
+  }
+  
+  const category = cart.lines.length > 0 ? searchService.resolvePartNumber(cart.lines[0].partNumber)?.product.category : undefined;
+  const saved = pickSavedAppliance((await profileService.get(profileId)).appliances, category);
+  if (saved) {
+    return saved.modelNumber;
+  }
+  
+  const session = await sessionService.get(sessionId);
+  return session?.lastModelNumbers[0];
+};
+
+// Check the cart out: re-validate every part and emit an order intent downstream
+app.post('/api/cart/checkout', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateCheckoutRequest(req.body);
+    if (!validation.success || !validation.data) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request validation failed',
+          details: { validationError: validation.error }
+        }
+      });
+    }
+    
+    const { sessionId, profileId, modelNumber } = validation.data;
+    const result = await cartService.checkout(sessionId, modelNumber || await findCheckoutModel(sessionId, profileId || sessionId));
+    
+    if (result.status === 'blocked') {
+      return res.status(409).json({
+        error: {
+          code: 'CHECKOUT_BLOCKED',
+          message: `The cart cannot be checked out for model ${result.modelNumber}`,
+          details: { issues: result.issues }
+        }
+      });
+    }
+    
+    res.status(201).json(result.order);
+    
+  } catch (error) {
+    console.error('Checkout error:', error);
+    next(error);
+  }
+});
+
+/**
+ * ========================================
+ * APPLIANCE PROFILE ENDPOINTS
+ * ========================================
+ */
+
+// The appliances saved in a profile, most recently used first
+app.get('/api/profiles/:profileId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await profileService.get(req.params.profileId));
+    
+  } catch (error) {
+    console.error('Profile lookup error:', error);
+    next(error);
+  }
+});
+
+// Save an appliance, or update the one with the same model number
+app.post('/api/profiles/:profileId/appliances', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateSavedApplianceRequest(req.body);
+    if (!validation.success || !validation.data) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request validation failed',
+          details: { validationError: validation.error }
+        }
+      });
+    }
+    
+    res.status(201).json(await profileService.saveAppliance(req.params.profileId, validation.data));
+    
+  } catch (error) {
+    console.error('Appliance save error:', error);
+    next(error);
+  }
+});
+
+// Change a saved appliance's brand, type or purchase date
+app.patch('/api/profiles/:profileId/appliances/:modelNumber', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateSavedApplianceUpdate(req.body);
+    if (!validation.success || !validation.data) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request validation failed',
+          details: { validationError: validation.error }
+        }
+      });
+    }
+    
+    res.json(await profileService.updateAppliance(req.params.profileId, req.params.modelNumber, validation.data));
+    
+  } catch (error) {
+    console.error('Appliance update error:', error);
+    next(error);
+  }
+});
+
+// Remove a saved appliance
+app.delete('/api/profiles/:profileId/appliances/:modelNumber', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await profileService.removeAppliance(req.params.profileId, req.params.modelNumber));
+    
+  } catch (error) {
+    console.error('Appliance removal error:', error);
+    next(error);
+  }
+});
+
+// Forget every saved appliance
+app.delete('/api/profiles/:profileId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await profileService.clear(req.params.profileId);
+    res.status(204).end();
+    
+  } catch (error) {
+    console.error('Profile deletion error:', error);
+    next(error);
+  }
+});
+
 // Statistics endpoint
 app.get('/api/stats', (req: Request, res: Response) => {
   const stats = {
@@ -316,39 +1035,218 @@ app.get('/api/stats', (req: Request, res: Response) => {
       memory: process.memoryUsage(),
       environment: envConfig.NODE_ENV
     },
-    deepSeek: deepSeekService.getStatus()
+    llm: llmService.getStatus(),
+    usage: usageTracker.getStats(),
+    catalog: catalogStatus
   };
   
   res.json(stats);
 });
 
+/**
+ * ========================================
+ * ADMIN ENDPOINTS
+ * ========================================
+ */
+
+/**
+ * Compares two strings in constant time, so response timing does not reveal how much of a key matched.
+ */
+const safeEqual = (a: string, b: string): boolean => {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+};
+
+// Admin authentication: "Authorization: Bearer <key>" with a key from ADMIN_API_KEYS.
+// The key's name is kept in res.locals.adminName for the audit log.
+const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (envConfig.ADMIN_API_KEYS.length === 0) {
+    return res.status(503).json({
+      error: {
+        code: 'ADMIN_DISABLED',
+        message: 'The admin API is disabled. Set ADMIN_API_KEYS to enable it.'
+      }
+    });
+  }
+
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  const admin = scheme === 'Bearer' && token
+    ? envConfig.ADMIN_API_KEYS.find(({ key }) => safeEqual(key, token))
+    : undefined;
+  if (!admin) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return res.status(401).json({
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'A valid admin API key is required.'
+      }
+    });
+  }
+
+  res.locals.adminName = admin.name;
+  next();
+};
+
+app.use('/api/admin', requireAdmin);
+
+// Create a product
+app.post('/api/admin/products', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const product = await catalogAdminService.createProduct(res.locals.adminName, req.body);
+    res.status(201).json(product);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Replace a product; every field must be given
+app.put('/api/admin/products/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const product = await catalogAdminService.replaceProduct(res.locals.adminName, req.params.id, req.body);
+    res.json(product);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update some of a product's fields, e.g. to correct its compatibleModels
+app.patch('/api/admin/products/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const product = await catalogAdminService.patchProduct(res.locals.adminName, req.params.id, req.body);
+    res.json(product);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/admin/products/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await catalogAdminService.deleteProduct(res.locals.adminName, req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a troubleshooting guide
+app.post('/api/admin/troubleshooting-symptoms', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const symptom = await catalogAdminService.createSymptom(res.locals.adminName, req.body);
+    res.status(201).json(symptom);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.put('/api/admin/troubleshooting-symptoms/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const symptom = await catalogAdminService.replaceSymptom(res.locals.adminName, req.params.id, req.body);
+    res.json(symptom);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.patch('/api/admin/troubleshooting-symptoms/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const symptom = await catalogAdminService.patchSymptom(res.locals.adminName, req.params.id, req.body);
+    res.json(symptom);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/admin/troubleshooting-symptoms/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await catalogAdminService.deleteSymptom(res.locals.adminName, req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Recent catalog changes, newest first
+app.get('/api/admin/audit', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateAdminAuditQuery(req.query);
+    if (!validation.success || !validation.data) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Audit query validation failed',
+          details: { validationError: validation.error }
+        }
+      });
+    }
+
+    const entries = await auditLog.list(validation.data);
+    res.json({ entries });
+  } catch (error) {
+    console.error('Audit log error:', error);
+    next(error);
+  }
+});
+
 /**
  * ========================================
  * ERROR HANDLING & SHUTDOWN
  * ========================================
  */
 
-// Error handling middleware
-app.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
-  console.error('Server error:', err);
+// LLM provider failures keep their category so clients can tell a rate limit from an outage
+const LLM_ERROR_RESPONSES: Record<LLMErrorCategory, { statusCode: number; code: string }> = {
+  rate_limit: { statusCode: 429, code: 'LLM_RATE_LIMITED' },
+  timeout: { statusCode: 504, code: 'LLM_TIMEOUT' },
+  circuit_open: { statusCode: 503, code: 'LLM_CIRCUIT_OPEN' },
+  // Only logged: the client that would receive it has gone
+  aborted: { statusCode: 499, code: 'REQUEST_ABORTED' },
+  not_configured: { statusCode: 503, code: 'LLM_NOT_CONFIGURED' },
+  authentication: { statusCode: 502, code: 'LLM_AUTHENTICATION_FAILED' },
+  bad_request: { statusCode: 400, code: 'LLM_REQUEST_REJECTED' },
+  server_error: { statusCode: 502, code: 'LLM_UNAVAILABLE' },
+  network: { statusCode: 502, code: 'LLM_UNAVAILABLE' },
+  invalid_response: { statusCode: 502, code: 'LLM_UNAVAILABLE' },
+  unknown: { statusCode: 502, code: 'LLM_UNAVAILABLE' }
+};
+
+/**
+ * Maps an error to the HTTP status, error code and message reported to clients.
+ */
+const describeError = (err: unknown): { statusCode: number; code: string; message: string; retryAfterMs?: number } => {
+  if (err instanceof LLMServiceError) {
+    return { ...LLM_ERROR_RESPONSES[err.category], message: err.message, retryAfterMs: err.retryAfterMs };
+  }
   
-  let statusCode = 500;
-  let errorCode = 'INTERNAL_SERVER_ERROR';
-  let message = 'An internal server error occurred';
+  if (err instanceof TokenBudgetExceededError) {
+    return { statusCode: 429, code: err.code, message: err.message, retryAfterMs: err.retryAfterMs };
+  }
   
-  if (err instanceof Error) {
-    message = err.message;
-    
-    if (err.name === 'ValidationError') {
-      statusCode = 400;
-      errorCode = 'VALIDATION_ERROR';
-    }
+  if (err instanceof DiagnosticSessionError || err instanceof CatalogAdminError || err instanceof CartError || err instanceof ApplianceProfileError) {
+    return { statusCode: err.statusCode, code: err.code, message: err.message };
   }
   
   if (err && typeof err === 'object' && 'code' in err && err.code === 'ECONNREFUSED') {
-    statusCode = 503;
-    errorCode = 'SERVICE_UNAVAILABLE';
-    message = 'External service unavailable';
+    return { statusCode: 503, code: 'SERVICE_UNAVAILABLE', message: 'External service unavailable' };
+  }
+  
+  if (err instanceof Error) {
+    return err.name === 'ValidationError'
+      ? { statusCode: 400, code: 'VALIDATION_ERROR', message: err.message }
+      : { statusCode: 500, code: 'INTERNAL_SERVER_ERROR', message: err.message };
+  }
+  
+  return { statusCode: 500, code: 'INTERNAL_SERVER_ERROR', message: 'An internal server error occurred' };
+};
+
+// Error handling middleware
+app.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
+  console.error('Server error:', err);
+  
+  const { statusCode, code: errorCode, message, retryAfterMs } = describeError(err);
+  
+  if (retryAfterMs !== undefined) {
+    res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000).toString());
   }
   
   res.status(statusCode).json({
@@ -394,33 +1292,66 @@ process.on('SIGINT', () => {
   process.exit(0);
 });
 
+// Reload the catalog without a restart, e.g. after `npm run catalog:import`
+process.on('SIGHUP', () => {
+  console.log('SIGHUP received, reloading catalog');
+  void loadCatalog();
+});
+
 /**
  * ========================================
  * SERVER START
  * ========================================
  */
 
-app.listen(serverConfig.port, () => {
+// Serve requests only once the catalog is in place
+loadCatalog().finally(() => app.listen(serverConfig.port, () => {
   console.log('PartSelect Chat Backend Server Started');
   console.log('=====================================');
   console.log(`Port: ${serverConfig.port}`);
   console.log(`Environment: ${envConfig.NODE_ENV}`);
-  console.log(`DeepSeek API: ${serverConfig.deepseekApiKey ? 'Configured' : 'Not configured'}`);
+  const llmStatus = llmService.getStatus();
+  console.log(`LLM Provider: ${llmStatus.provider} (${llmStatus.model}) - ${llmStatus.configured ? 'Configured' : 'Not configured'}`);
   console.log(`CORS Origins: ${serverConfig.corsOrigins.join(', ')}`);
   console.log(`Rate Limit: ${serverConfig.rateLimitMaxRequests} requests per ${serverConfig.rateLimitWindowMs/1000}s`);
+  console.log(`Session Store: ${envConfig.SESSION_STORE} (TTL ${envConfig.SESSION_TTL_MS/1000}s)`);
+  console.log(`Catalog: ${catalogStatus.source} (${catalogStatus.products} products)`);
+  console.log(`Admin API: ${envConfig.ADMIN_API_KEYS.length > 0 ? `Enabled (${envConfig.ADMIN_API_KEYS.length} keys)` : 'Disabled'}`);
+  console.log(`Agent Budget: ${envConfig.AGENT_MAX_STEPS} tool calls / ${envConfig.AGENT_MAX_DURATION_MS/1000}s per query`);
+  console.log(`LLM Resilience: ${envConfig.LLM_MAX_RETRIES} retries, circuit opens after ${envConfig.LLM_CIRCUIT_FAILURE_THRESHOLD} failures for ${envConfig.LLM_CIRCUIT_RESET_MS/1000}s`);
+  console.log(`Rule-based Fallback: ${envConfig.LLM_FALLBACK_ENABLED ? 'Enabled' : 'Disabled'}`);
+  console.log(`Token Budgets: ${envConfig.SESSION_TOKEN_BUDGET || 'unlimited'} per session / ${envConfig.DAILY_TOKEN_BUDGET || 'unlimited'} per day`);
   console.log('=====================================');
-  console.log('Available Tools:', partSelectAgent.getAvailableTools().join(', '));
+  console.log('Available Tools:', createAgent().getAvailableTools().join(', '));
   console.log('=====================================');
   console.log('API Endpoints:');
   console.log('  POST /api/chat - Main chat interface');
-  console.log('  GET  /api/products/search - Product search');
+  console.log('  POST /api/chat/stream - Streaming chat (Server-Sent Events)');
+  console.log('  GET  /api/sessions/:sessionId - Conversation history');
+  console.log('  DELETE /api/sessions/:sessionId - End conversation');
+  console.log('  GET  /api/products/search - Product search with facets');
   console.log('  GET  /api/products/:partNumber - Product details');
+  console.log('  GET  /api/models/:modelNumber/parts - Parts for an appliance model');
+  console.log('  GET  /api/categories - Supported appliance categories');
   console.log('  POST /api/compatibility - Compatibility check');
+  console.log('  POST /api/troubleshooting/sessions - Start guided troubleshooting');
+  console.log('  POST /api/troubleshooting/sessions/:id/answer - Answer the current diagnostic step');
+  console.log('  GET  /api/troubleshooting/sessions/:id - Resume guided troubleshooting');
+  console.log('  GET  /api/cart - Session cart');
+  console.log('  POST /api/cart - Add a part to the cart');
+  console.log('  DELETE /api/cart - Empty the cart');
+  console.log('  DELETE /api/cart/items/:partNumber - Remove a part from the cart');
+  console.log('  POST /api/cart/checkout - Check out the cart as an order intent');
+  console.log('  GET  /api/profiles/:profileId - Saved appliances');
+  console.log('  POST /api/profiles/:profileId/appliances - Save an appliance');
+  console.log('  PATCH /api/profiles/:profileId/appliances/:modelNumber - Edit a saved appliance');
+  console.log('  DELETE /api/profiles/:profileId/appliances/:modelNumber - Remove a saved appliance');
+  console.log('  DELETE /api/profiles/:profileId - Forget all saved appliances');
   console.log('  GET  /api/installation/:partNumber - Installation guide');
   console.log('  GET  /health - Health check');
   console.log('  GET  /api/stats - System statistics');
   console.log('=====================================');
   console.log('Server ready to accept connections');
-});
+}));
 
 export default app;
\ No newline at end of file
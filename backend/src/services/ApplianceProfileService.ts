@@ -0,0 +1,209 @@
+import { ApplianceCategoryId, ApplianceProfile, ApplianceProfileStore, ReasoningStep, SavedAppliance } from '../types';
+import { SearchService } from './SearchService';
+import { extractIdentifiers } from '../agents/IntentExtractor';
+import { normalizeModelNumber, parseModelNumber } from '../utils/modelNumber';
+
+interface ApplianceProfileServiceConfig {
+  ttlMs?: number;
+  maxAppliances?: number;
+}
+
+export type ApplianceProfileErrorCode = 'APPLIANCE_NOT_FOUND' | 'PROFILE_LIMIT_EXCEEDED';
+
+const ERROR_STATUS: Record<ApplianceProfileErrorCode, number> = {
+  APPLIANCE_NOT_FOUND: 404,
+  PROFILE_LIMIT_EXCEEDED: 422
+};
+
+/**
+ * Raised when an appliance profile change cannot be carried out.
+ */
+export class ApplianceProfileError extends Error {
+  public readonly code: ApplianceProfileErrorCode;
+  public readonly statusCode: number;
+
+  constructor(message: string, code: ApplianceProfileErrorCode) {
+    super(message);
+    this.name = 'ApplianceProfileError';
+    this.code = code;
+    this.statusCode = ERROR_STATUS[code];
+  }
+}
+
+// The details a user can give about an appliance
+export interface ApplianceDetails {
+  modelNumber: string;
+  brand?: string;
+  category?: ApplianceCategoryId;
+  purchaseDate?: string;
+}
+
+/**
+ * Picks the saved appliance a request is most likely about: the most recently used one of
+ * the given appliance type (or of unknown type). When the type is not known, a saved
+ * appliance is only picked if it is the only one, since the request may be about any of them.
+ * @param appliances The saved appliances, most recently used first.
+ * @param category The appliance type the request is about, when known.
+ * @returns The appliance, or undefined when none can be told apart for the request.
+ */
+export function pickSavedAppliance(appliances: SavedAppliance[] = [], category?: ApplianceCategoryId): SavedAppliance | undefined {
+  if (!category) {
+    return appliances.length === 1 ? appliances[0] : undefined;
+  }
+  return appliances.find(appliance => appliance.category === category) || appliances.find(appliance => !appliance.category);
+}
+
+/**
+ * A service that keeps the appliances a user owns ("My Appliances"), so their model numbers
+ * can be used without being repeated. Appliances are saved by the user, or automatically when
+ * a model number comes up in chat or is used for a compatibility check. The brand and
+ * appliance type are filled in from the catalog when the user does not give them.
+ */
+export class ApplianceProfileService {
+  private config: Required<ApplianceProfileServiceConfig>;
+
+  constructor(
+    private store: ApplianceProfileStore,
+    private searchService: SearchService,
+    config: ApplianceProfileServiceConfig = {}
+  ) {
+    this.config = {
+      ttlMs: config.ttlMs || 365 * 24 * 60 * 60 * 1000,
+      maxAppliances: config.maxAppliances || 10
+    };
+  }
+
+  public async get(profileId: string): Promise<ApplianceProfile> {
+    return (await this.store.get(profileId)) || this.emptyProfile(profileId);
+  }
+
+  /**
+   * Saves an appliance, or updates and marks as used the one with the same model number.
+   * Details already on a saved appliance are only replaced by details given explicitly.
+   * @param profileId The profile id.
+   * @param details The appliance's model number and any known details.
+   * @param source How the appliance came to be saved.
+   * @returns A promise that resolves to the updated profile.
+   */
+  public async saveAppliance(profileId: string, details: ApplianceDetails, source: SavedAppliance['source'] = 'manual'): Promise<ApplianceProfile> {
+    const profile = await this.get(profileId);
+    const modelNumber = normalizeModelNumber(details.modelNumber);
+    const existing = profile.appliances.find(appliance => appliance.modelNumber === modelNumber);
+
+    if (!existing && profile.appliances.length >= this.config.maxAppliances) {
+      if (source !== 'manual') {
+        return profile;
+      }
+      throw new ApplianceProfileError(`A profile can hold at most ${this.config.maxAppliances} appliances.`, 'PROFILE_LIMIT_EXCEEDED');
+    }
+
+    const now = new Date();
+    const known = this.searchService.describeModel(modelNumber);
+    const appliance: SavedAppliance = {
+      modelNumber,
+      brand: details.brand || existing?.brand || known?.brand || parseModelNumber(modelNumber)?.brand,
+      category: details.category || existing?.category || known?.category,
+      purchaseDate: details.purchaseDate || existing?.purchaseDate,
+      source: existing?.source || source,
+      addedAt: existing?.addedAt || now,
+      lastUsedAt: now
+    };
+
+    if (!existing) {
+      console.log(`[ApplianceProfileService] - Saved model ${modelNumber} to profile ${profileId} (${source}).`);
+    }
+    return this.save({ ...profile, appliances: [appliance, ...profile.appliances.filter(candidate => candidate !== existing)] });
+  }
+
+  /**
+   * Changes the details of a saved appliance.
+   * @param profileId The profile id.
+   * @param modelNumber The model number of the appliance.
+   * @param details The details to change.
+   * @returns A promise that resolves to the updated profile.
+   */
+  public async updateAppliance(profileId: string, modelNumber: string, details: Omit<ApplianceDetails, 'modelNumber'>): Promise<ApplianceProfile> {
+    const profile = await this.get(profileId);
+    const existing = this.findAppliance(profile, modelNumber);
+    const updated = { ...existing, ...details };
+    return this.save({ ...profile, appliances: profile.appliances.map(appliance => (appliance === existing ? updated : appliance)) });
+  }
+
+  public async removeAppliance(profileId: string, modelNumber: string): Promise<ApplianceProfile> {
+    const profile = await this.get(profileId);
+    const existing = this.findAppliance(profile, modelNumber);
+    return this.save({ ...profile, appliances: profile.appliances.filter(appliance => appliance !== existing) });
+  }
+
+  public async clear(profileId: string): Promise<void> {
+    await this.store.delete(profileId);
+  }
+
+  public async purgeExpired(): Promise<number> {
+    return this.store.purgeExpired();
+  }
+
+  /**
+   * Saves the appliances a chat turn was about: model numbers used for a compatibility check,
+   * and model numbers the user mentioned that the catalog or a known brand pattern recognizes
+   * (so that stray codes in a message are not saved as appliances).
+   * @param profileId The profile id.
+   * @param message The user's message.
+   * @param reasoning The reasoning steps produced while answering.
+   * @returns A promise that resolves to the updated profile.
+   */
+  public async rememberFromTurn(profileId: string, message: string, reasoning: ReasoningStep[] = []): Promise<ApplianceProfile> {
+    const checks = reasoning
+      .filter(step => step.type === 'action' && step.tool === 'CompatibilityCheck' && typeof step.parameters?.modelNumber === 'string')
+      .map(step => ({ modelNumber: step.parameters?.modelNumber as string, partNumber: step.parameters?.partNumber as string | undefined }));
+    const checked = checks.map(check => check.modelNumber);
+    const { modelNumber: mentioned } = extractIdentifiers(message);
+
+    let profile = await this.get(profileId);
+    for (const { modelNumber, partNumber } of checks) {
+      // A model the catalog does not know is assumed to be the type of appliance the part is for
+      const known = profile.appliances.find(appliance => appliance.modelNumber === normalizeModelNumber(modelNumber))?.category ||
+        this.searchService.describeModel(modelNumber)?.category;
+      const category = known || !partNumber ? undefined : this.searchService.resolvePartNumber(partNumber)?.product.category;
+      profile = await this.saveAppliance(profileId, { modelNumber, ...(category && { category }) }, 'compatibility');
+    }
+    if (mentioned && !checked.some(modelNumber => normalizeModelNumber(modelNumber) === normalizeModelNumber(mentioned)) &&
+      (this.searchService.describeModel(mentioned) || parseModelNumber(mentioned)?.brand)) {
+      profile = await this.saveAppliance(profileId, { modelNumber: mentioned }, 'chat');
+    }
+    return profile;
+  }
+
+  /**
+   * Finds a saved appliance by model number.
+   * @private
+   */
+  private findAppliance(profile: ApplianceProfile, modelNumber: string): SavedAppliance {
+    const key = normalizeModelNumber(modelNumber);
+    const appliance = profile.appliances.find(candidate => candidate.modelNumber === key);
+    if (!appliance) {
+      throw new ApplianceProfileError(`Model ${modelNumber} is not saved in this profile.`, 'APPLIANCE_NOT_FOUND');
+    }
+    return appliance;
+  }
+
+  /**
+   * Saves a profile, refreshing its TTL. A profile without appliances is deleted instead.
+   * @private
+   */
+  private async save(profile: ApplianceProfile): Promise<ApplianceProfile> {
+    const now = new Date();
+    const updated = { ...profile, updatedAt: now, expiresAt: new Date(now.getTime() + this.config.ttlMs) };
+    if (updated.appliances.length === 0) {
+      await this.store.delete(profile.id);
+    } else {
+      await this.store.save(updated);
+    }
+    return updated;
+  }
+
+  private emptyProfile(profileId: string): ApplianceProfile {
+    const now = new Date();
+    return { id: profileId, appliances: [], createdAt: now, updatedAt: now, expiresAt: new Date(now.getTime() + this.config.ttlMs) };
+  }
+}
@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AuditEntry, AuditLog, CatalogEntity } from '../types';
+
+const DEFAULT_AUDIT_LIMIT = 50;
+
+/**
+ * An append-only audit log stored as newline-delimited JSON, one entry per line, so it
+ * can be tailed, shipped or grepped without the server. Entries are never rewritten.
+ */
+export class FileAuditLog implements AuditLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Appends an entry. Appends are serialized so concurrent writes never interleave lines.
+   * Unlike session persistence, a failed write is reported to the caller: a change that
+   * cannot be audited should not be acknowledged.
+   */
+  public record(entry: AuditEntry): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  public async list(filter: { entity?: CatalogEntity; entityId?: string; limit?: number } = {}): Promise<AuditEntry[]> {
+    const { entity, entityId, limit = DEFAULT_AUDIT_LIMIT } = filter;
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        console.warn(`[FileAuditLog] - Skipping unreadable entry in ${this.filePath}`);
+      }
+    }
+
+    return entries
+      .filter(entry => (!entity || entry.entity === entity) && (!entityId || entry.entityId === entityId))
+      .reverse()
+      .slice(0, limit);
+  }
+}
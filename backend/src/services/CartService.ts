@@ -0,0 +1,306 @@
+import { Cart, CartLine, CartLineView, CartStore, CartView, CheckoutIssue, CheckoutResult, CompatibilityCheck, OrderIntent, OrderIntentLine, OrderIntentSink, Product } from '../types';
+import { SearchService } from './SearchService';
+import { estimateShipping, getEffectivePrice } from '../utils/pricing';
+import { normalizePartNumber } from '../utils/modelNumber';
+
+interface CartServiceConfig {
+  ttlMs?: number;
+  maxLines?: number;
+  maxQuantity?: number; // per line
+}
+
+export type CartErrorCode = 'PART_NOT_FOUND' | 'PART_UNAVAILABLE' | 'CART_LINE_NOT_FOUND' | 'CART_LIMIT_EXCEEDED' | 'CART_EMPTY' | 'MODEL_NUMBER_REQUIRED';
+
+const ERROR_STATUS: Record<CartErrorCode, number> = {
+  PART_NOT_FOUND: 404,
+  PART_UNAVAILABLE: 409,
+  CART_LINE_NOT_FOUND: 404,
+  CART_LIMIT_EXCEEDED: 422,
+  CART_EMPTY: 409,
+  MODEL_NUMBER_REQUIRED: 422
+};
+
+/**
+ * Raised when a cart change or checkout request cannot be carried out.
+ */
+export class CartError extends Error {
+  public readonly code: CartErrorCode;
+  public readonly statusCode: number;
+
+  constructor(message: string, code: CartErrorCode) {
+    super(message);
+    this.name = 'CartError';
+    this.code = code;
+    this.statusCode = ERROR_STATUS[code];
+  }
+}
+
+export interface AddToCartResult {
+  cart: CartView;
+  line: CartLineView;
+  notice?: string; // e.g. the requested number was replaced by a newer part
+  compatibility?: CompatibilityCheck; // against the cart's model, when one is known
+}
+
+/**
+ * A service that keeps a shopping cart per chat session. Lines are keyed by the catalog
+ * part number (aliases and replaced numbers are resolved first) and keep the price at the
+ * time they were added; views show today's price and availability alongside it.
+ *
+ * Checkout re-checks every line against the catalog and the appliance model the parts are
+ * for, then hands an order summary to the order intent sink and empties the cart.
+ */
+export class CartService {
+  private config: Required<CartServiceConfig>;
+
+  constructor(
+    private store: CartStore,
+    private searchService: SearchService,
+    private orderSink: OrderIntentSink,
+    config: CartServiceConfig = {}
+  ) {
+    this.config = {
+      ttlMs: config.ttlMs || 7 * 24 * 60 * 60 * 1000,
+      maxLines: config.maxLines || 25,
+      maxQuantity: config.maxQuantity || 10
+    };
+  }
+
+  public async get(sessionId: string): Promise<CartView> {
+    const cart = await this.store.get(sessionId);
+    return this.describe(cart || this.emptyCart(sessionId));
+  }
+
+  /**
+   * Adds a part to the session's cart, or raises the quantity of its existing line.
+   * @param sessionId The chat session id.
+   * @param partNumber The part number, alias or replaced number to add.
+   * @param quantity How many to add.
+   * @param modelNumber The appliance the part is for; remembered for checkout.
+   * @returns A promise that resolves to the updated cart and the line that changed.
+   */
+  public async addItem(sessionId: string, partNumber: string, quantity = 1, modelNumber?: string): Promise<AddToCartResult> {
+    const resolution = this.searchService.resolvePartNumber(partNumber);
+    if (!resolution) {
+      throw new CartError(`Part ${partNumber} was not found in our catalog.`, 'PART_NOT_FOUND');
+    }
+    const product = resolution.product;
+    if (product.availability === 'out-of-stock') {
+      throw new CartError(`${product.name} (${product.partNumber}) is ${estimateShipping(product).summary} and cannot be ordered right now.`, 'PART_UNAVAILABLE');
+    }
+
+    const cart = (await this.store.get(sessionId)) || this.emptyCart(sessionId);
+    const existing = cart.lines.find(line => line.partNumber === product.partNumber);
+    const total = (existing?.quantity || 0) + quantity;
+    if (total > this.config.maxQuantity) {
+      throw new CartError(`A cart can hold at most ${this.config.maxQuantity} of each part.`, 'CART_LIMIT_EXCEEDED');
+    }
+    if (!existing && cart.lines.length >= this.config.maxLines) {
+      throw new CartError(`A cart can hold at most ${this.config.maxLines} different parts.`, 'CART_LIMIT_EXCEEDED');
+    }
+
+    const lines = existing
+      ? cart.lines.map(line => (line === existing ? { ...line, quantity: total } : line))
+      : [...cart.lines, { partNumber: product.partNumber, name: product.name, quantity, unitPrice: getEffectivePrice(product), addedAt: new Date() }];
+    const updated = await this.save({ ...cart, lines, modelNumber: modelNumber || cart.modelNumber });
+
+    const view = this.describe(updated);
+    const compatibility = updated.modelNumber
+      ? await this.searchService.checkCompatibility(product.partNumber, updated.modelNumber)
+      : undefined;
+    console.log(`[CartService] - Added ${quantity} x ${product.partNumber} to cart ${sessionId}.`);
+
+    return {
+      cart: view,
+      line: view.lines.find(line => line.partNumber === product.partNumber) as CartLineView,
+      notice: resolution.message,
+      compatibility
+    };
+  }
+
+  /**
+   * Removes a part from the cart, or lowers its quantity.
+   * @param sessionId The chat session id.
+   * @param partNumber The part number of the line (aliases and replaced numbers are resolved).
+   * @param quantity How many to remove; the whole line when omitted.
+   * @returns A promise that resolves to the updated cart.
+   */
+  public async removeItem(sessionId: string, partNumber: string, quantity?: number): Promise<CartView> {
+    const cart = await this.store.get(sessionId);
+    const line = cart ? this.findLine(cart, partNumber) : undefined;
+    if (!cart || !line) {
+      throw new CartError(`Part ${partNumber} is not in the cart.`, 'CART_LINE_NOT_FOUND');
+    }
+
+    const remaining = quantity === undefined ? 0 : line.quantity - quantity;
+    const lines = remaining > 0
+      ? cart.lines.map(candidate => (candidate === line ? { ...candidate, quantity: remaining } : candidate))
+      : cart.lines.filter(candidate => candidate !== line);
+    return this.describe(await this.save({ ...cart, lines }));
+  }
+
+  public async clear(sessionId: string): Promise<void> {
+    await this.store.delete(sessionId);
+  }
+
+  public async purgeExpired(): Promise<number> {
+    return this.store.purgeExpired();
+  }
+
+  /**
+   * Checks the cart out. Every line must still be in the catalog, orderable and compatible
+   * with the appliance model; otherwise the issues are returned and the cart is left as is.
+   * A cart that passes is priced at today's prices, emitted as an order intent and emptied.
+   * @param sessionId The chat session id.
+   * @param modelNumber The appliance model to check against; defaults to the cart's model.
+   * @returns A promise that resolves to the order intent, or the issues blocking checkout.
+   */
+  public async checkout(sessionId: string, modelNumber?: string): Promise<CheckoutResult> {
+    const cart = await this.store.get(sessionId);
+    if (!cart || cart.lines.length === 0) {
+      throw new CartError('The cart is empty.', 'CART_EMPTY');
+    }
+    const model = modelNumber || cart.modelNumber;
+    if (!model) {
+      throw new CartError('A model number is needed to confirm the parts fit before checkout.', 'MODEL_NUMBER_REQUIRED');
+    }
+
+    const issues: CheckoutIssue[] = [];
+    const notices: string[] = [];
+    const orderLines: OrderIntentLine[] = [];
+
+    for (const line of cart.lines) {
+      const resolution = this.searchService.resolvePartNumber(line.partNumber);
+      if (!resolution) {
+        issues.push({ partNumber: line.partNumber, code: 'PART_NOT_FOUND', message: `${line.name} (${line.partNumber}) is no longer in our catalog.` });
+        continue;
+      }
+      // A part replaced since it was added is ordered as its replacement
+      const product = resolution.product;
+      if (resolution.relation === 'superseded' && resolution.message) {
+        notices.push(resolution.message);
+      }
+      if (product.availability === 'out-of-stock') {
+        issues.push({ partNumber: line.partNumber, code: 'OUT_OF_STOCK', message: `${product.name} (${product.partNumber}) is ${estimateShipping(product).summary}.` });
+      }
+
+      const compatibility = await this.searchService.checkCompatibility(product.partNumber, model);
+      if (!compatibility.isCompatible) {
+        issues.push({ partNumber: line.partNumber, code: 'NOT_COMPATIBLE', message: compatibility.reason });
+      }
+
+      const unitPrice = getEffectivePrice(product);
+      if (unitPrice !== line.unitPrice) {
+        notices.push(`The price of ${product.name} (${product.partNumber}) changed from $${line.unitPrice.toFixed(2)} to $${unitPrice.toFixed(2)} since it was added.`);
+      }
+      orderLines.push(this.toOrderLine(product, line.quantity, compatibility));
+    }
+
+    if (issues.length > 0) {
+      console.log(`[CartService] - Checkout of cart ${sessionId} blocked by ${issues.length} issue(s).`);
+      return { status: 'blocked', modelNumber: model, issues };
+    }
+
+    const order: OrderIntent = {
+      id: this.generateOrderId(),
+      sessionId,
+      modelNumber: model,
+      lines: orderLines,
+      itemCount: orderLines.reduce((total, line) => total + line.quantity, 0),
+      subtotal: this.roundCurrency(orderLines.reduce((total, line) => total + line.lineTotal, 0)),
+      currency: 'USD',
+      estimatedShipDays: Math.max(0, ...orderLines.map(line => line.shipping.leadTimeDays || 0)),
+      notices,
+      createdAt: new Date().toISOString()
+    };
+
+    // The cart is only emptied once the order system has the order
+    await this.orderSink.emit(order);
+    await this.store.delete(sessionId);
+    console.log(`[CartService] - Cart ${sessionId} checked out as order intent ${order.id}.`);
+    return { status: 'ready', order };
+  }
+
+  /**
+   * Builds the client-facing view of a cart, with today's prices and availability.
+   * @param cart The cart.
+   * @returns The view.
+   */
+  public describe(cart: Cart): CartView {
+    const lines = cart.lines.map(line => {
+      const product = this.searchService.resolvePartNumber(line.partNumber)?.product;
+      const currentPrice = product ? getEffectivePrice(product) : line.unitPrice;
+      const shipping = product ? estimateShipping(product) : { availability: 'out-of-stock' as const, summary: 'no longer available' };
+      return {
+        ...line,
+        currentPrice,
+        priceChanged: currentPrice !== line.unitPrice,
+        lineTotal: this.roundCurrency(currentPrice * line.quantity),
+        shipping,
+        available: product !== undefined && product.availability !== 'out-of-stock'
+      };
+    });
+
+    return {
+      sessionId: cart.id,
+      modelNumber: cart.modelNumber,
+      lines,
+      itemCount: lines.reduce((total, line) => total + line.quantity, 0),
+      subtotal: this.roundCurrency(lines.reduce((total, line) => total + line.lineTotal, 0)),
+      currency: 'USD',
+      updatedAt: cart.updatedAt
+    };
+  }
+
+  private toOrderLine(product: Product, quantity: number, compatibility: CompatibilityCheck): OrderIntentLine {
+    const unitPrice = getEffectivePrice(product);
+    return {
+      partNumber: product.partNumber,
+      name: product.name,
+      quantity,
+      unitPrice,
+      lineTotal: this.roundCurrency(unitPrice * quantity),
+      source: product.source || 'oem',
+      shipping: estimateShipping(product),
+      compatibility: { matchType: compatibility.matchType, confidence: compatibility.confidence, matchedModel: compatibility.matchedModel }
+    };
+  }
+
+  /**
+   * Finds a line by its part number, or by a number that resolves to it.
+   * @private
+   */
+  private findLine(cart: Cart, partNumber: string): CartLine | undefined {
+    const key = normalizePartNumber(partNumber);
+    const resolved = this.searchService.resolvePartNumber(partNumber)?.product.partNumber;
+    return cart.lines.find(line => normalizePartNumber(line.partNumber) === key || line.partNumber === resolved);
+  }
+
+  /**
+   * Saves a cart, refreshing its TTL. A cart with neither lines nor a model is deleted instead.
+   * @private
+   */
+  private async save(cart: Cart): Promise<Cart> {
+    const now = new Date();
+    const updated = { ...cart, updatedAt: now, expiresAt: new Date(now.getTime() + this.config.ttlMs) };
+    if (updated.lines.length === 0 && !updated.modelNumber) {
+      await this.store.delete(cart.id);
+    } else {
+      await this.store.save(updated);
+    }
+    return updated;
+  }
+
+  private emptyCart(sessionId: string): Cart {
+    const now = new Date();
+    return { id: sessionId, lines: [], createdAt: now, updatedAt: now, expiresAt: new Date(now.getTime() + this.config.ttlMs) };
+  }
+
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private generateOrderId(): string {
+    return `ord_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+}
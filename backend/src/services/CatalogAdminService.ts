@@ -0,0 +1,286 @@
+import { AuditEntry, AuditLog, Catalog, CatalogEntity, CatalogRepository, Product, TroubleshootingSymptom } from '../types';
+import { validateProduct, validateTroubleshootingSymptom } from '../data/schemas';
+import { SearchService } from './SearchService';
+
+interface CatalogAdminServiceConfig {
+  // Where changes are saved; omit when the search service's store persists them itself (SQLite)
+  repository?: CatalogRepository;
+  // Called after every successful change with the new catalog size, e.g. to refresh catalog statistics
+  onChange?: (counts: { products: number; troubleshootingSymptoms: number }) => void;
+}
+
+export type CatalogAdminErrorCode = 'PRODUCT_NOT_FOUND' | 'TROUBLESHOOTING_SYMPTOM_NOT_FOUND' | 'INVALID_RECORD' | 'ID_MISMATCH' | 'DUPLICATE_RECORD';
+
+const ERROR_STATUS: Record<CatalogAdminErrorCode, number> = {
+  PRODUCT_NOT_FOUND: 404,
+  TROUBLESHOOTING_SYMPTOM_NOT_FOUND: 404,
+  INVALID_RECORD: 400,
+  ID_MISMATCH: 400,
+  DUPLICATE_RECORD: 409
+};
+
+/**
+ * Raised when a catalog change is rejected.
+ */
+export class CatalogAdminError extends Error {
+  public readonly code: CatalogAdminErrorCode;
+  public readonly statusCode: number;
+
+  constructor(message: string, code: CatalogAdminErrorCode) {
+    super(message);
+    this.name = 'CatalogAdminError';
+    this.code = code;
+    this.statusCode = ERROR_STATUS[code];
+  }
+}
+
+/**
+ * A service for editing the catalog: creating, replacing, patching and deleting products
+ * and troubleshooting guides. Every change is validated against the catalog schemas, saved
+ * to the catalog repository, recorded in the audit log with the admin who made it, and only
+ * then applied to the search service's store, which updates just the changed record's index
+ * entries. Changes are applied one at a time so concurrent edits cannot overwrite each other.
+ */
+export class CatalogAdminService {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private searchService: SearchService,
+    private auditLog: AuditLog,
+    private config: CatalogAdminServiceConfig = {}
+  ) {}
+
+  public async createProduct(actor: string, data: unknown): Promise<Product> {
+    return this.change(actor, 'create', 'product', async () => {
+      const product = this.parseProduct(data);
+      if (this.searchService.getProductById(product.id)) {
+        throw new CatalogAdminError(`A product with id "${product.id}" already exists.`, 'DUPLICATE_RECORD');
+      }
+      this.assertUniquePartNumber(product);
+      return { before: undefined, after: product };
+    });
+  }
+
+  public async replaceProduct(actor: string, id: string, data: unknown): Promise<Product> {
+    return this.change(actor, 'update', 'product', async () => {
+      const existing = this.findProduct(id);
+      const product = this.parseProduct({ ...(data as object), id: this.pathId(id, data) });
+      this.assertUniquePartNumber(product);
+      return { before: existing, after: this.recordPriceChange(existing, product, data) };
+    });
+  }
+
+  public async patchProduct(actor: string, id: string, data: unknown): Promise<Product> {
+    return this.change(actor, 'patch', 'product', async () => {
+      const existing = this.findProduct(id);
+      const product = this.parseProduct({ ...existing, ...(data as object), id: this.pathId(id, data) });
+      this.assertUniquePartNumber(product);
+      return { before: existing, after: this.recordPriceChange(existing, product, data) };
+    });
+  }
+
+  public async deleteProduct(actor: string, id: string): Promise<void> {
+    await this.change(actor, 'delete', 'product', async () => ({ before: this.findProduct(id), after: undefined }));
+  }
+
+  public async createSymptom(actor: string, data: unknown): Promise<TroubleshootingSymptom> {
+    return this.change(actor, 'create', 'troubleshootingSymptom', async () => {
+      const symptom = this.parseSymptom(data);
+      if (await this.searchService.getTroubleshootingSymptom(symptom.id)) {
+        throw new CatalogAdminError(`A troubleshooting guide with id "${symptom.id}" already exists.`, 'DUPLICATE_RECORD');
+      }
+      return { before: undefined, after: symptom };
+    });
+  }
+
+  public async replaceSymptom(actor: string, id: string, data: unknown): Promise<TroubleshootingSymptom> {
+    return this.change(actor, 'update', 'troubleshootingSymptom', async () => {
+      const existing = await this.findSymptom(id);
+      return { before: existing, after: this.parseSymptom({ ...(data as object), id: this.pathId(id, data) }) };
+    });
+  }
+
+  public async patchSymptom(actor: string, id: string, data: unknown): Promise<TroubleshootingSymptom> {
+    return this.change(actor, 'patch', 'troubleshootingSymptom', async () => {
+      const existing = await this.findSymptom(id);
+      return { before: existing, after: this.parseSymptom({ ...existing, ...(data as object), id: this.pathId(id, data) }) };
+    });
+  }
+
+  public async deleteSymptom(actor: string, id: string): Promise<void> {
+    await this.change(actor, 'delete', 'troubleshootingSymptom', async () => ({ before: await this.findSymptom(id), after: undefined }));
+  }
+
+  /**
+   * Works out one change against the current catalog, then saves, audits and serves it.
+   * A change whose audit entry cannot be written is rolled back and reported as failed.
+   * @param apply Validates the change and returns the record before and after it (undefined when created or deleted).
+   * @private
+   */
+  private change<T extends Product | TroubleshootingSymptom>(
+    actor: string,
+    action: AuditEntry['action'],
+    entity: CatalogEntity,
+    apply: () => Promise<{ before?: T; after?: T }>
+  ): Promise<T> {
+    const result = this.writeQueue.then(async () => {
+      const { before, after } = await apply();
+      const record = (after || before) as T;
+
+      // A catalog file can only be rewritten whole; a store that persists itself gets the single record below
+      const { repository } = this.config;
+      const previous = repository ? this.searchService.getCatalog() : undefined;
+      if (repository && previous) {
+        await repository.save(this.withRecord(previous, entity, before, after));
+      }
+      try {
+        await this.auditLog.record({
+          timestamp: new Date().toISOString(),
+          actor,
+          action,
+          entity,
+          entityId: record.id,
+          changes: this.diff(before, after)
+        });
+      } catch (error) {
+        console.error(`[CatalogAdminService] - Could not audit ${action} ${entity} ${record.id}; rolling back: ${(error as Error).message}`);
+        if (repository && previous) {
+          await repository.save(previous);
+        }
+        throw error;
+      }
+
+      this.serve(entity, before, after);
+      this.config.onChange?.(this.searchService.countCatalog());
+      console.log(`[CatalogAdminService] - ${action} ${entity} ${record.id} by ${actor}`);
+
+      return record;
+    });
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Lists the top-level fields that differ between two versions of a record.
+   * @private
+   */
+  private diff(before?: object, after?: object): AuditEntry['changes'] {
+    const previous = (before || {}) as Record<string, unknown>;
+    const next = (after || {}) as Record<string, unknown>;
+    const changes: AuditEntry['changes'] = {};
+
+    for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+      if (JSON.stringify(previous[field]) !== JSON.stringify(next[field])) {
+        changes[field] = { from: previous[field], to: next[field] };
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Applies a change to a full catalog, keeping every record's position.
+   * @private
+   */
+  private withRecord(catalog: Catalog, entity: CatalogEntity, before?: Product | TroubleshootingSymptom, after?: Product | TroubleshootingSymptom): Catalog {
+    return entity === 'product'
+      ? { ...catalog, products: replaceRecord(catalog.products, before?.id, after as Product | undefined) }
+      : { ...catalog, troubleshootingSymptoms: replaceRecord(catalog.troubleshootingSymptoms, before?.id, after as TroubleshootingSymptom | undefined) };
+  }
+
+  /**
+   * Hands a saved change to the search service, which re-indexes only that record.
+   * @private
+   */
+  private serve(entity: CatalogEntity, before?: Product | TroubleshootingSymptom, after?: Product | TroubleshootingSymptom): void {
+    if (entity === 'product') {
+      if (after) {
+        this.searchService.saveProduct(after as Product);
+      } else if (before) {
+        this.searchService.deleteProduct(before.id);
+      }
+    } else if (after) {
+      this.searchService.saveTroubleshootingSymptom(after as TroubleshootingSymptom);
+    } else if (before) {
+      this.searchService.deleteTroubleshootingSymptom(before.id);
+    }
+  }
+
+  /**
+   * Adds a dated entry to a product's price history when an edit changes its list price,
+   * unless the edit supplies the price history itself.
+   * @private
+   */
+  private recordPriceChange(existing: Product, product: Product, data: unknown): Product {
+    if (product.price === existing.price || (data as { priceHistory?: unknown } | null)?.priceHistory !== undefined) {
+      return product;
+    }
+    const effectiveFrom = new Date().toISOString().slice(0, 10);
+    const history = (product.priceHistory || []).filter(point => point.effectiveFrom !== effectiveFrom);
+    return { ...product, priceHistory: [...history, { price: product.price, effectiveFrom }] };
+  }
+
+  /**
+   * Rejects a product whose part number is already used by another product.
+   * @private
+   */
+  private assertUniquePartNumber(product: Product): void {
+    const owner = this.searchService.findProductWithPartNumber(product.partNumber);
+    if (owner && owner.id !== product.id) {
+      throw new CatalogAdminError(`A product with part number "${product.partNumber}" already exists.`, 'DUPLICATE_RECORD');
+    }
+  }
+
+  private findProduct(id: string): Product {
+    const product = this.searchService.getProductById(id);
+    if (!product) {
+      throw new CatalogAdminError(`Product ${id} not found`, 'PRODUCT_NOT_FOUND');
+    }
+    return product;
+  }
+
+  private async findSymptom(id: string): Promise<TroubleshootingSymptom> {
+    const symptom = await this.searchService.getTroubleshootingSymptom(id);
+    if (!symptom) {
+      throw new CatalogAdminError(`Troubleshooting guide ${id} not found`, 'TROUBLESHOOTING_SYMPTOM_NOT_FOUND');
+    }
+    return symptom;
+  }
+
+  /**
+   * A record's id comes from the URL; a body may repeat it but not change it.
+   * @private
+   */
+  private pathId(id: string, data: unknown): string {
+    const bodyId = (data as { id?: unknown } | null)?.id;
+    if (bodyId !== undefined && bodyId !== id) {
+      throw new CatalogAdminError(`The record id cannot be changed (URL has "${id}", body has "${String(bodyId)}").`, 'ID_MISMATCH');
+    }
+    return id;
+  }
+
+  private parseProduct(data: unknown): Product {
+    const validation = validateProduct(data);
+    if (!validation.success) {
+      throw new CatalogAdminError(`Invalid product: ${validation.error}`, 'INVALID_RECORD');
+    }
+    return validation.data as Product;
+  }
+
+  private parseSymptom(data: unknown): TroubleshootingSymptom {
+    const validation = validateTroubleshootingSymptom(data);
+    if (!validation.success) {
+      throw new CatalogAdminError(`Invalid troubleshooting guide: ${validation.error}`, 'INVALID_RECORD');
+    }
+    return validation.data as TroubleshootingSymptom;
+  }
+}
+
+/**
+ * Replaces, appends (no id) or removes (no record) one record of a list.
+ */
+function replaceRecord<R extends { id: string }>(records: R[], id: string | undefined, record: R | undefined): R[] {
+  if (id === undefined) {
+    return record ? [...records, record] : records;
+  }
+  return record ? records.map(r => (r.id === id ? record : r)) : records.filter(r => r.id !== id);
+}
@@ -0,0 +1,313 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Catalog, CatalogLoadResult, CatalogRecordError, CatalogRepository, Product, TroubleshootingSymptom } from '../types';
+import { sampleProducts, troubleshootingSymptoms as sampleTroubleshootingSymptoms } from '../data/sampleProducts';
+import { validateProduct, validateTroubleshootingSymptom } from '../data/schemas';
+import { formatCsv, parseCsv } from '../utils/csv';
+import { SqliteCatalogStore } from './SqliteCatalogStore';
+
+interface CatalogRecord {
+  line: number;
+  value: unknown;
+}
+
+interface CatalogFileContents {
+  products: CatalogRecord[];
+  // Formats that cannot hold troubleshooting guides leave this out, and the built-in guides are used
+  troubleshootingSymptoms?: CatalogRecord[];
+  errors: CatalogRecordError[];
+}
+
+// Column order for CSV files; list columns hold values separated by "|"
+const CSV_COLUMNS = [
+  'id', 'partNumber', 'name', 'description', 'category', 'brand', 'compatibleModels', 'price',
+  'availability', 'imageUrl', 'installationDifficulty', 'estimatedInstallTime', 'requiredTools',
+  'safetyWarnings', 'aliases', 'supersedes', 'supersededBy', 'installationSteps'
+] as const;
+const CSV_LIST_COLUMNS = new Set<string>(['compatibleModels', 'requiredTools', 'safetyWarnings', 'aliases', 'supersedes']);
+const CSV_NUMBER_COLUMNS = new Set<string>(['price', 'estimatedInstallTime']);
+// Installation steps are nested objects, so they are stored as a JSON array
+const CSV_JSON_COLUMNS = new Set<string>(['installationSteps']);
+const CSV_LIST_SEPARATOR = '|';
+
+/**
+ * A catalog repository that serves a catalog held in memory, by default the built-in sample data.
+ */
+export class InMemoryCatalogRepository implements CatalogRepository {
+  public readonly description = 'built-in sample catalog';
+
+  constructor(private catalog: Catalog = { products: sampleProducts, troubleshootingSymptoms: sampleTroubleshootingSymptoms }) {}
+
+  public async load(): Promise<CatalogLoadResult> {
+    return { catalog: this.catalog, errors: [] };
+  }
+
+  public async save(catalog: Catalog): Promise<void> {
+    this.catalog = catalog;
+  }
+}
+
+/**
+ * Base class for catalogs stored in a file. Every record is validated on load; invalid
+ * records are skipped and reported with their line so the file can be corrected. Saving
+ * writes a temp file and renames it over the catalog, so readers never see a partial file.
+ */
+abstract class FileCatalogRepository implements CatalogRepository {
+  public abstract readonly description: string;
+
+  constructor(protected readonly filePath: string) {}
+
+  public async load(): Promise<CatalogLoadResult> {
+    const raw = await fs.readFile(this.filePath, 'utf8');
+    const contents = this.parse(raw);
+    const errors = [...contents.errors];
+
+    const products = validateProductRecords(contents.products, errors);
+    const troubleshootingSymptoms = contents.troubleshootingSymptoms
+      ? validateSymptomRecords(contents.troubleshootingSymptoms, errors)
+      : sampleTroubleshootingSymptoms;
+
+    return { catalog: { products, troubleshootingSymptoms }, errors: errors.sort((a, b) => a.line - b.line) };
+  }
+
+  public async save(catalog: Catalog): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, this.serialize(catalog), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  protected abstract parse(raw: string): CatalogFileContents;
+  protected abstract serialize(catalog: Catalog): string;
+}
+
+/**
+ * A catalog stored as a JSON file: either an array of products, or an object with
+ * `products` and `troubleshootingSymptoms` arrays.
+ */
+export class JsonCatalogRepository extends FileCatalogRepository {
+  public readonly description = `JSON file ${this.filePath}`;
+
+  protected parse(raw: string): CatalogFileContents {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`${this.filePath} is not valid JSON: ${(error as Error).message}`);
+    }
+
+    const toRecords = (values: unknown[]) => values.map((value, index) => ({ line: index + 1, value }));
+
+    if (Array.isArray(parsed)) {
+      return { products: toRecords(parsed), errors: [] };
+    }
+    const { products, troubleshootingSymptoms } = (parsed || {}) as { products?: unknown; troubleshootingSymptoms?: unknown };
+    if (!Array.isArray(products)) {
+      throw new Error(`${this.filePath} must contain an array of products or an object with a "products" array.`);
+    }
+    return {
+      products: toRecords(products),
+      troubleshootingSymptoms: Array.isArray(troubleshootingSymptoms) ? toRecords(troubleshootingSymptoms) : undefined,
+      errors: []
+    };
+  }
+
+  protected serialize(catalog: Catalog): string {
+    return JSON.stringify(catalog, null, 2) + '\n';
+  }
+}
+
+/**
+ * A catalog stored as newline-delimited JSON, one product per line.
+ */
+export class NdjsonCatalogRepository extends FileCatalogRepository {
+  public readonly description = `NDJSON file ${this.filePath}`;
+
+  protected parse(raw: string): CatalogFileContents {
+    const products: CatalogRecord[] = [];
+    const errors: CatalogRecordError[] = [];
+
+    raw.split(/\r?\n/).forEach((text, index) => {
+      if (!text.trim()) {
+        return;
+      }
+      try {
+        products.push({ line: index + 1, value: JSON.parse(text) });
+      } catch (error) {
+        errors.push({ line: index + 1, message: `Invalid JSON: ${(error as Error).message}` });
+      }
+    });
+
+    return { products, errors };
+  }
+
+  protected serialize(catalog: Catalog): string {
+    return catalog.products.map(product => JSON.stringify(product)).join('\n') + '\n';
+  }
+}
+
+/**
+ * A catalog stored as CSV with a header row naming the product fields. List fields
+ * separate their values with "|", and installation steps are a JSON array.
+ */
+export class CsvCatalogRepository extends FileCatalogRepository {
+  public readonly description = `CSV file ${this.filePath}`;
+
+  protected parse(raw: string): CatalogFileContents {
+    const [header, ...rows] = parseCsv(raw.replace(/^\uFEFF/, ''));
+    const products: CatalogRecord[] = [];
+    const errors: CatalogRecordError[] = [];
+    if (!header) {
+      return { products, errors };
+    }
+
+    const columns = header.values.map(column => column.trim());
+    for (const column of columns) {
+      if (!(CSV_COLUMNS as readonly string[]).includes(column)) {
+        errors.push({ line: header.line, message: `Unknown column "${column}" is ignored.` });
+      }
+    }
+
+    for (const row of rows) {
+      if (row.values.length !== columns.length) {
+        errors.push({ line: row.line, message: `Expected ${columns.length} fields, found ${row.values.length}.` });
+        continue;
+      }
+      try {
+        products.push({ line: row.line, value: this.toRecord(columns, row.values) });
+      } catch (error) {
+        errors.push({ line: row.line, partNumber: row.values[columns.indexOf('partNumber')], message: (error as Error).message });
+      }
+    }
+
+    return { products, errors };
+  }
+
+  protected serialize(catalog: Catalog): string {
+    const rows = catalog.products.map(product => CSV_COLUMNS.map(column => {
+      const value = product[column];
+      if (value === undefined) {
+        return '';
+      }
+      if (CSV_LIST_COLUMNS.has(column)) {
+        return (value as string[]).join(CSV_LIST_SEPARATOR);
+      }
+      return CSV_JSON_COLUMNS.has(column) ? JSON.stringify(value) : String(value);
+    }));
+    return formatCsv([[...CSV_COLUMNS], ...rows]);
+  }
+
+  /**
+   * Converts a row's text fields to the value types the product schema expects. Empty fields are omitted.
+   * @private
+   */
+  private toRecord(columns: string[], values: string[]): Record<string, unknown> {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const value = values[index].trim();
+      if (!value) {
+        return;
+      }
+      if (CSV_LIST_COLUMNS.has(column)) {
+        record[column] = value.split(CSV_LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+      } else if (CSV_NUMBER_COLUMNS.has(column)) {
+        record[column] = Number(value);
+      } else if (CSV_JSON_COLUMNS.has(column)) {
+        try {
+          record[column] = JSON.parse(value);
+        } catch {
+          throw new Error(`${column}: must be a JSON array`);
+        }
+      } else {
+        record[column] = value;
+      }
+    });
+    return record;
+  }
+}
+
+/**
+ * Creates the file repository matching a catalog file's extension.
+ * @param filePath A .json, .ndjson (or .jsonl) or .csv file, or a .db (or .sqlite) SQLite database.
+ * @returns The repository for the file.
+ */
+export function createFileCatalogRepository(filePath: string): CatalogRepository {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.json':
+      return new JsonCatalogRepository(filePath);
+    case '.ndjson':
+    case '.jsonl':
+      return new NdjsonCatalogRepository(filePath);
+    case '.csv':
+      return new CsvCatalogRepository(filePath);
+    case '.db':
+    case '.sqlite':
+      return new SqliteCatalogStore(filePath);
+    default:
+      throw new Error(`Unsupported catalog file type for ${filePath}. Use .json, .ndjson, .csv or .db.`);
+  }
+}
+
+/**
+ * Validates product records against the product schema, rejecting duplicate ids and part numbers.
+ */
+function validateProductRecords(records: CatalogRecord[], errors: CatalogRecordError[]): Product[] {
+  const products: Product[] = [];
+  const seenIds = new Set<string>();
+  const seenPartNumbers = new Set<string>();
+
+  for (const { line, value } of records) {
+    const rawPartNumber = (value as { partNumber?: unknown } | null)?.partNumber;
+    const partNumber = typeof rawPartNumber === 'string' ? rawPartNumber : undefined;
+
+    const validation = validateProduct(value);
+    if (!validation.success) {
+      errors.push({ line, partNumber, message: validation.error! });
+      continue;
+    }
+
+    const product = validation.data as Product;
+    const partKey = product.partNumber.toUpperCase();
+    if (seenIds.has(product.id)) {
+      errors.push({ line, partNumber, message: `Duplicate id "${product.id}".` });
+      continue;
+    }
+    if (seenPartNumbers.has(partKey)) {
+      errors.push({ line, partNumber, message: `Duplicate part number "${product.partNumber}".` });
+      continue;
+    }
+
+    seenIds.add(product.id);
+    seenPartNumbers.add(partKey);
+    products.push(product);
+  }
+
+  return products;
+}
+
+/**
+ * Validates troubleshooting guide records, rejecting duplicate ids.
+ */
+function validateSymptomRecords(records: CatalogRecord[], errors: CatalogRecordError[]): TroubleshootingSymptom[] {
+  const symptoms: TroubleshootingSymptom[] = [];
+  const seenIds = new Set<string>();
+
+  for (const { line, value } of records) {
+    const validation = validateTroubleshootingSymptom(value);
+    if (!validation.success) {
+      errors.push({ line, message: `Troubleshooting guide: ${validation.error}` });
+      continue;
+    }
+
+    const symptom = validation.data as TroubleshootingSymptom;
+    if (seenIds.has(symptom.id)) {
+      errors.push({ line, message: `Troubleshooting guide: duplicate id "${symptom.id}".` });
+      continue;
+    }
+
+    seenIds.add(symptom.id);
+    symptoms.push(symptom);
+  }
+
+  return symptoms;
+}
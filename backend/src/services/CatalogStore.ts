@@ -0,0 +1,227 @@
+import { Catalog, CatalogStore, Product, ProductFilter, ProductTextSearchResult, TroubleshootingSymptom } from '../types';
+import { sampleProducts, troubleshootingSymptoms as sampleTroubleshootingSymptoms } from '../data/sampleProducts';
+import { normalizeModelNumber, normalizePartNumber } from '../utils/modelNumber';
+import { isWithinPriceRange } from '../utils/pricing';
+import { ProductIndex } from './ProductIndex';
+
+/**
+ * A catalog store that keeps the whole catalog in process memory, with a BM25 index for
+ * free-text queries and maps for part number, alias, replaced number and model lookups.
+ * Suitable for catalogs of a few thousand parts; larger catalogs belong in SQLite.
+ */
+export class InMemoryCatalogStore implements CatalogStore {
+  public readonly description = 'in-memory catalog';
+
+  private products: Product[] = [];
+  private troubleshootingSymptoms: TroubleshootingSymptom[] = [];
+  private index: ProductIndex;
+  // Normalized part number, alias or variant number -> product, and replaced part number -> the part replacing it
+  private partIndex = new Map<string, Product>();
+  private supersessionIndex = new Map<string, Product>();
+  // Normalized model number -> compatible parts, and the model number as first written in the catalog
+  private modelIndex = new Map<string, { modelNumber: string; products: Product[] }>();
+
+  constructor(catalog: Catalog = { products: sampleProducts, troubleshootingSymptoms: sampleTroubleshootingSymptoms }) {
+    this.index = new ProductIndex(catalog.products);
+    this.indexCatalog(catalog);
+  }
+
+  public findProducts(filter: ProductFilter): Product[] {
+    const { category, brands = [], priceRange, availability = [], difficulty = [], ids } = filter;
+    const idSet = ids ? new Set(ids) : undefined;
+    const brandKeys = brands.map(brand => this.normalizeString(brand));
+
+    return this.products.filter(p =>
+      (!idSet || idSet.has(p.id)) &&
+      (!category || p.category === category) &&
+      (brandKeys.length === 0 || brandKeys.some(brand => this.normalizeString(p.brand).includes(brand))) &&
+      isWithinPriceRange(p, priceRange) &&
+      (availability.length === 0 || availability.includes(p.availability)) &&
+      (difficulty.length === 0 || difficulty.includes(p.installationDifficulty))
+    );
+  }
+
+  public searchText(query: string): ProductTextSearchResult {
+    const { matches, corrections } = this.index.search(query);
+    return { scores: new Map(matches.map(match => [match.product.id, match.score])), corrections };
+  }
+
+  public findByPartNumber(partNumber: string): Product | undefined {
+    return this.partIndex.get(normalizePartNumber(partNumber));
+  }
+
+  public findBySupersededNumber(partNumber: string): Product | undefined {
+    return this.supersessionIndex.get(normalizePartNumber(partNumber));
+  }
+
+  public findByModel(modelNumber: string): { modelNumber: string; products: Product[] } | undefined {
+    return this.modelIndex.get(normalizeModelNumber(modelNumber));
+  }
+
+  public listModelNumbers(): string[] {
+    return Array.from(this.modelIndex.values()).map(entry => entry.modelNumber);
+  }
+
+  public getTroubleshootingSymptoms(category?: Product['category']): TroubleshootingSymptom[] {
+    return this.troubleshootingSymptoms.filter(ts => !category || ts.category === category);
+  }
+
+  public getTroubleshootingSymptom(id: string): TroubleshootingSymptom | undefined {
+    return this.troubleshootingSymptoms.find(ts => ts.id === id);
+  }
+
+  public count(): { products: number; troubleshootingSymptoms: number } {
+    return { products: this.products.length, troubleshootingSymptoms: this.troubleshootingSymptoms.length };
+  }
+
+  /**
+   * Replaces the catalog and rebuilds every index over it.
+   * @param catalog The full catalog.
+   */
+  public replaceCatalog(catalog: Catalog): void {
+    this.index.rebuild(catalog.products);
+    this.indexCatalog(catalog);
+  }
+
+  /**
+   * Adds a product, or replaces the one with the same id in its place, updating the search
+   * index and only the lookup entries for the numbers and models of its old and new versions.
+   * @param product The new or changed product.
+   */
+  public saveProduct(product: Product): void {
+    const position = this.products.findIndex(p => p.id === product.id);
+    const previous = position >= 0 ? this.products[position] : undefined;
+    if (previous) {
+      this.products[position] = product;
+    } else {
+      this.products.push(product);
+    }
+
+    this.index.upsert(product);
+    this.refreshLookups(previous ? [previous, product] : [product]);
+  }
+
+  public deleteProduct(id: string): void {
+    const position = this.products.findIndex(p => p.id === id);
+    if (position < 0) {
+      return;
+    }
+
+    const [removed] = this.products.splice(position, 1);
+    this.index.remove(id);
+    this.refreshLookups([removed]);
+  }
+
+  public saveTroubleshootingSymptom(symptom: TroubleshootingSymptom): void {
+    const position = this.troubleshootingSymptoms.findIndex(ts => ts.id === symptom.id);
+    if (position >= 0) {
+      this.troubleshootingSymptoms[position] = symptom;
+    } else {
+      this.troubleshootingSymptoms.push(symptom);
+    }
+  }
+
+  public deleteTroubleshootingSymptom(id: string): void {
+    this.troubleshootingSymptoms = this.troubleshootingSymptoms.filter(ts => ts.id !== id);
+  }
+
+  /**
+   * Holds a copy of the catalog (so single-record edits never change the caller's arrays)
+   * and rebuilds the lookup maps over it.
+   * @private
+   */
+  private indexCatalog(catalog: Catalog): void {
+    this.products = [...catalog.products];
+    this.troubleshootingSymptoms = [...catalog.troubleshootingSymptoms];
+    this.buildPartIndex();
+    this.buildModelIndex();
+  }
+
+  /**
+   * Recomputes the lookup entries under any number or model of the given products.
+   * @private
+   */
+  private refreshLookups(products: Product[]): void {
+    const numbers = new Set(products.flatMap(product => [
+      product.partNumber,
+      ...(product.aliases || []),
+      ...(product.variants || []).map(variant => variant.partNumber),
+      ...(product.supersedes || [])
+    ].map(normalizePartNumber)));
+    const models = new Set(products.flatMap(product => product.compatibleModels.map(normalizeModelNumber)));
+
+    this.buildPartIndex(numbers);
+    this.buildModelIndex(models);
+  }
+
+  /**
+   * Rebuilds the index from part numbers, aliases and replaced part numbers to products.
+   * @param only Rebuilds just these normalized numbers, keeping every other entry.
+   * @private
+   */
+  private buildPartIndex(only?: Set<string>): void {
+    if (only) {
+      for (const key of only) {
+        this.partIndex.delete(key);
+        this.supersessionIndex.delete(key);
+      }
+    } else {
+      this.partIndex = new Map();
+      this.supersessionIndex = new Map();
+    }
+    const include = (key: string) => !only || only.has(key);
+
+    for (const product of this.products) {
+      const key = normalizePartNumber(product.partNumber);
+      if (include(key)) {
+        this.partIndex.set(key, product);
+      }
+    }
+    // A part's own number takes precedence over another part's alias for it
+    for (const product of this.products) {
+      for (const alias of [...(product.aliases || []), ...(product.variants || []).map(variant => variant.partNumber)]) {
+        const key = normalizePartNumber(alias);
+        if (include(key) && !this.partIndex.has(key)) {
+          this.partIndex.set(key, product);
+        }
+      }
+      for (const replaced of product.supersedes || []) {
+        const key = normalizePartNumber(replaced);
+        if (include(key) && !this.supersessionIndex.has(key)) {
+          this.supersessionIndex.set(key, product);
+        }
+      }
+    }
+  }
+
+  /**
+   * Rebuilds the reverse index from normalized model number to compatible parts.
+   * @param only Rebuilds just these normalized model numbers, keeping every other entry.
+   * @private
+   */
+  private buildModelIndex(only?: Set<string>): void {
+    if (only) {
+      for (const key of only) {
+        this.modelIndex.delete(key);
+      }
+    } else {
+      this.modelIndex = new Map();
+    }
+
+    for (const product of this.products) {
+      for (const model of product.compatibleModels) {
+        const key = normalizeModelNumber(model);
+        if (only && !only.has(key)) {
+          continue;
+        }
+        const entry = this.modelIndex.get(key) || { modelNumber: model, products: [] };
+        entry.products.push(product);
+        this.modelIndex.set(key, entry);
+      }
+    }
+  }
+
+  private normalizeString(str: string): string {
+    return str.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+}
@@ -0,0 +1,106 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface CircuitBreakerConfig {
+  failureThreshold?: number;
+  resetTimeoutMs?: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt?: Date;
+  nextAttemptAt?: Date;
+}
+
+/**
+ * A minimal circuit breaker. After `failureThreshold` consecutive failures the circuit
+ * opens and calls are rejected immediately; once `resetTimeoutMs` has passed a single
+ * trial call is allowed (half-open), which either closes the circuit or re-opens it.
+ */
+export class CircuitBreaker {
+  private config: Required<CircuitBreakerConfig>;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.config = {
+      failureThreshold: config.failureThreshold || 5,
+      resetTimeoutMs: config.resetTimeoutMs || 30000
+    };
+  }
+
+  /**
+   * Reports whether a call may proceed, moving an expired open circuit to half-open.
+   */
+  public canRequest(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && Date.now() - (this.openedAt || 0) >= this.config.resetTimeoutMs) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  public recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Ends a half-open trial call that said nothing about the provider's health (e.g. it was
+   * abandoned by its caller), so the next call can probe the provider instead.
+   */
+  public release(): void {
+    if (this.state === 'half_open') {
+      this.trialInFlight = false;
+    }
+  }
+
+  public recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.config.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Milliseconds until an open circuit will allow a trial call (0 when not open).
+   */
+  public getRetryAfterMs(): number {
+    if (this.state !== 'open' || this.openedAt === undefined) {
+      return 0;
+    }
+    return Math.max(0, this.openedAt + this.config.resetTimeoutMs - Date.now());
+  }
+
+  public getSnapshot(): CircuitBreakerSnapshot {
+    // Report an expired open circuit as half-open without consuming the trial call
+    const state = this.state === 'open' && this.getRetryAfterMs() === 0 ? 'half_open' : this.state;
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.config.failureThreshold,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt) : undefined,
+      nextAttemptAt: this.state === 'open' && this.openedAt !== undefined
+        ? new Date(this.openedAt + this.config.resetTimeoutMs)
+        : undefined
+    };
+  }
+}
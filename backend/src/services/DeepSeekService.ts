@@ -1,9 +1,13 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { DeepSeekMessage, DeepSeekResponse, LLMService, ServiceStatus, DeepSeekErrorResponse } from '../types';
+import axios, { AxiosInstance } from 'axios';
+import { Readable } from 'stream';
+import { DeepSeekMessage, DeepSeekResponse, DeepSeekStreamChunk, DeepSeekUsage, LLMCallOptions, LLMService, LLMToolDefinition, LLMToolResponse, ServiceStatus } from '../types';
+import { LLMServiceError } from './LLMServiceError';
+import { parseJsonArguments } from '../utils/jsonRepair';
 
 interface DeepSeekConfig {
   apiKey?: string;
   baseUrl?: string;
+  model?: string;
   maxTokens?: number;
   temperature?: number;
   timeout?: number;
@@ -23,6 +27,7 @@ export class DeepSeekService implements LLMService {
     this.config = {
       apiKey: config.apiKey || process.env.DEEPSEEK_API_KEY || '',
       baseUrl: config.baseUrl || process.env.DEEPSEEK_BASE_URL || 'https://api.deepseek.com/v1',
+      model: config.model || 'deepseek-chat',
       maxTokens: config.maxTokens || 1000,
       temperature: config.temperature || 0.1,
       timeout: config.timeout || 30000
@@ -42,18 +47,112 @@ export class DeepSeekService implements LLMService {
   /**
    * Generates a natural language response from the DeepSeek model.
    * @param messages The conversation history and prompt.
+   * @param options Optional listeners, e.g. for token usage.
    * @returns A promise that resolves to the generated response string.
    */
-  public async generateResponse(messages: DeepSeekMessage[]): Promise<string> {
-    if (!this.config.apiKey) {
-      throw new Error('AI service is not configured. An API key is required.');
+  public async generateResponse(messages: DeepSeekMessage[], options?: LLMCallOptions): Promise<string> {
+    this.assertConfigured();
+
+    const message = await this.callDeepSeekApi(messages, undefined, options);
+    return (message.content || '').trim();
+  }
+
+
+  /**
+   * Asks the DeepSeek model to either answer or call one of the provided tools,
+   * using the API's native OpenAI-compatible function calling.
+   * @param messages The conversation history and prompt.
+   * @param tools The function definitions the model may call.
+   * @param options Optional listeners, e.g. for token usage.
+   * @returns A promise that resolves to the text content and any requested tool calls.
+   */
+  public async generateWithTools(messages: DeepSeekMessage[], tools: LLMToolDefinition[], options?: LLMCallOptions): Promise<LLMToolResponse> {
+    this.assertConfigured();
+
+    const message = await this.callDeepSeekApi(messages, tools, options);
+    return {
+      content: (message.content || '').trim(),
+      toolCalls: (message.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseJsonArguments(call.function.arguments)
+      }))
+    };
+  }
+
+
+  /**
+   * Streams a natural language response from the DeepSeek model token by token.
+   * @param messages The conversation history and prompt.
+   * @param options Optional listeners, e.g. for token usage.
+   * @returns An async iterable of content fragments, in order.
+   */
+  public async *streamResponse(messages: DeepSeekMessage[], options?: LLMCallOptions): AsyncIterable<string> {
+    this.assertConfigured();
+
+    let stream: Readable;
+    try {
+      const response = await this.axiosInstance.post<Readable>('/chat/completions', {
+        model: this.config.model,
+        messages: messages,
+        max_tokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        stream: true,
+        // Usage is only sent for streams on request, in a final chunk without choices
+        stream_options: { include_usage: true }
+      }, { responseType: 'stream', signal: options?.signal });
+      stream = response.data;
+    } catch (error) {
+      throw LLMServiceError.fromAxiosError(error);
     }
-    
+
     try {
-      const response = await this.callDeepSeekApi(messages);
-      return response;
-    } catch (_error) {
-      throw new Error('AI service is temporarily unavailable. Please try again later.');
+      yield* this.parseEventStream(stream, options);
+    } catch (error) {
+      if (options?.signal?.aborted) {
+        throw LLMServiceError.aborted(error);
+      }
+      throw new LLMServiceError(`AI service stream was interrupted: ${(error as Error).message}`, 'network', { cause: error });
+    }
+  }
+
+
+  /**
+   * Parses an OpenAI-style Server-Sent Events body into content fragments.
+   * Events can be split across network chunks, so lines are buffered until complete.
+   * @param stream The raw response body.
+   * @param options Listeners notified of the usage reported in the final chunk.
+   */
+  private async *parseEventStream(stream: Readable, options?: LLMCallOptions): AsyncIterable<string> {
+    let buffer = '';
+
+    for await (const chunk of stream) {
+      buffer += chunk.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) {
+          continue;
+        }
+
+        const payload = trimmed.slice('data:'.length).trim();
+        if (payload === '[DONE]') {
+          return;
+        }
+
+        try {
+          const parsed = JSON.parse(payload) as DeepSeekStreamChunk;
+          this.reportUsage(parsed.usage, options);
+          const content = parsed.choices?.[0]?.delta?.content;
+          if (content) {
+            yield content;
+          }
+        } catch {
+          console.error('[DeepSeekService] - Skipping malformed stream chunk:', payload);
+        }
+      }
     }
   }
 
@@ -61,34 +160,55 @@ export class DeepSeekService implements LLMService {
   /**
    * Private method to handle the API call to DeepSeek.
    * @param messages The messages to send to the API.
-   * @returns A promise that resolves to the raw content from the API.
+   * @param tools Optional function definitions for native tool calling.
+   * @param options Listeners notified of the reported token usage.
+   * @returns A promise that resolves to the assistant message from the API.
    */
-  private async callDeepSeekApi(messages: DeepSeekMessage[]): Promise<string> {
+  private async callDeepSeekApi(messages: DeepSeekMessage[], tools?: LLMToolDefinition[], options?: LLMCallOptions): Promise<DeepSeekResponse['choices'][number]['message']> {
     try {
       const response = await this.axiosInstance.post<DeepSeekResponse>('/chat/completions', {
-        model: 'deepseek-chat',
+        model: this.config.model,
         messages: messages,
         max_tokens: this.config.maxTokens,
         temperature: this.config.temperature,
-        stream: false
-      });
+        stream: false,
+        ...(tools && tools.length > 0 ? { tools, tool_choice: 'auto' } : {})
+      }, { signal: options?.signal });
       
       const data = response.data;
       
-      if (!data || !('choices' in data) || !Array.isArray(data.choices) || data.choices.length === 0 || !data.choices[0].message || !('content' in data.choices[0].message)) {
-        throw new Error('Empty or invalid response from AI service.');
+      if (!data || !('choices' in data) || !Array.isArray(data.choices) || data.choices.length === 0 || !data.choices[0].message) {
+        throw new LLMServiceError('Empty or invalid response from AI service.', 'invalid_response');
+      }
+
+      const message = data.choices[0].message;
+      if (typeof message.content !== 'string' && !(message.tool_calls && message.tool_calls.length > 0)) {
+        throw new LLMServiceError('Empty or invalid response from AI service.', 'invalid_response');
       }
       
-      return data.choices[0].message.content.trim();
+      this.reportUsage(data.usage, options);
+      return message;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const axiosError = error as AxiosError<DeepSeekErrorResponse>;
-        if (axiosError.response?.data?.error?.message) {
-          throw new Error(`API error: ${axiosError.response.status} - ${axiosError.response.data.error.message}`);
-        }
-        throw new Error(`API error: ${axiosError.response?.status} - Unknown error`);
-      }
-      throw error;
+      throw LLMServiceError.fromAxiosError(error);
+    }
+  }
+
+
+  private reportUsage(usage: DeepSeekUsage | null | undefined, options?: LLMCallOptions): void {
+    if (usage && options?.onUsage) {
+      options.onUsage({
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+        model: this.config.model
+      });
+    }
+  }
+
+
+  private assertConfigured(): void {
+    if (!this.config.apiKey) {
+      throw new LLMServiceError('AI service is not configured. An API key is required.', 'not_configured');
     }
   }
 
@@ -102,6 +222,8 @@ export class DeepSeekService implements LLMService {
     return {
       status: configured ? 'healthy' : 'unhealthy',
       configured: configured,
+      provider: 'deepseek',
+      model: this.config.model,
       details: configured ? 'DeepSeek API configured and ready' : 'DeepSeek API not configured - API key required',
       metadata: {
         config: {
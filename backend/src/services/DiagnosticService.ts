@@ -0,0 +1,291 @@
+import { ApplianceCategoryId, DiagnosticConclusion, DiagnosticSession, DiagnosticStep, Product, RecordStore, TroubleshootingSymptom } from '../types';
+import { SearchService, CLARIFICATION_CONFIDENCE } from './SearchService';
+import { DIAGNOSTIC_QUESTION_MARKER } from '../agents/IntentExtractor';
+
+interface DiagnosticServiceConfig {
+  ttlMs?: number;
+  maxAnswers?: number;
+}
+
+export type DiagnosticErrorCode = 'SYMPTOM_NOT_FOUND' | 'SYMPTOM_AMBIGUOUS' | 'DIAGNOSTIC_SESSION_NOT_FOUND' | 'DIAGNOSTIC_SESSION_COMPLETED' | 'DIAGNOSTIC_STEP_NOT_FOUND';
+
+const ERROR_STATUS: Record<DiagnosticErrorCode, number> = {
+  SYMPTOM_NOT_FOUND: 404,
+  SYMPTOM_AMBIGUOUS: 422,
+  DIAGNOSTIC_SESSION_NOT_FOUND: 404,
+  DIAGNOSTIC_SESSION_COMPLETED: 409,
+  DIAGNOSTIC_STEP_NOT_FOUND: 500
+};
+
+/**
+ * Raised when a guided troubleshooting request cannot be carried out.
+ */
+export class DiagnosticSessionError extends Error {
+  public readonly code: DiagnosticErrorCode;
+  public readonly statusCode: number;
+
+  constructor(message: string, code: DiagnosticErrorCode) {
+    super(message);
+    this.name = 'DiagnosticSessionError';
+    this.code = code;
+    this.statusCode = ERROR_STATUS[code];
+  }
+}
+
+export interface StartDiagnosticOptions {
+  symptom?: string;
+  symptomId?: string;
+  category?: ApplianceCategoryId;
+  conversationId?: string;
+}
+
+/**
+ * A diagnostic session as presented to clients, with the current step and the
+ * recommended parts resolved to products.
+ */
+export interface DiagnosticSessionView {
+  id: string;
+  status: DiagnosticSession['status'];
+  symptom: { id: string; description: string; category: string };
+  currentStep?: {
+    step: number;
+    instruction: string;
+    expectedResult: string;
+    question: string;
+  };
+  trail: DiagnosticSession['trail'];
+  conclusion?: Omit<DiagnosticConclusion, 'recommendedParts'> & { recommendedParts: Product[] };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A service that walks a user through a troubleshooting guide one diagnostic step at a time.
+ * Each yes/no answer follows the step's `nextStepIfTrue` / `nextStepIfFalse` branch until a
+ * step has no further branch, at which point a conclusion with recommended parts is drawn.
+ * Sessions are persisted so a diagnosis can be resumed later.
+ */
+export class DiagnosticService {
+  private config: Required<DiagnosticServiceConfig>;
+
+  constructor(
+    private store: RecordStore<DiagnosticSession>,
+    private searchService: SearchService,
+    config: DiagnosticServiceConfig = {}
+  ) {
+    this.config = {
+      ttlMs: config.ttlMs || 7 * 24 * 60 * 60 * 1000,
+      maxAnswers: config.maxAnswers || 20
+    };
+  }
+
+  /**
+   * Starts a diagnosis for the best-matching troubleshooting guide. Starting from chat
+   * replaces any earlier diagnosis in the same conversation.
+   * @param options The symptom (free text or guide id), appliance category and owning chat session.
+   * @returns A promise that resolves to the new session.
+   */
+  public async start(options: StartDiagnosticOptions): Promise<DiagnosticSession> {
+    const symptom = await this.resolveSymptom(options);
+    const firstStep = symptom.diagnosticSteps[0];
+    if (!firstStep) {
+      throw new DiagnosticSessionError(`The troubleshooting guide "${symptom.description}" has no diagnostic steps.`, 'DIAGNOSTIC_STEP_NOT_FOUND');
+    }
+
+    const now = new Date();
+    const session: DiagnosticSession = {
+      id: options.conversationId ? this.conversationKey(options.conversationId) : this.generateSessionId(),
+      symptomId: symptom.id,
+      symptomDescription: symptom.description,
+      category: symptom.category,
+      conversationId: options.conversationId,
+      status: 'in_progress',
+      currentStep: firstStep.step,
+      trail: [],
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: new Date(now.getTime() + this.config.ttlMs)
+    };
+
+    await this.store.save(session);
+    console.log(`[DiagnosticService] - Started diagnosis ${session.id} for "${symptom.description}".`);
+    return session;
+  }
+
+  /**
+   * Records the answer to the current step and advances along the branch graph.
+   * @param sessionId The diagnostic session id.
+   * @param answer True when the user observed the step's expected result.
+   * @param note Optional free-text detail from the user.
+   * @returns A promise that resolves to the updated session.
+   */
+  public async answer(sessionId: string, answer: boolean, note?: string): Promise<DiagnosticSession> {
+    const session = await this.get(sessionId);
+    if (!session) {
+      throw new DiagnosticSessionError(`Diagnostic session ${sessionId} not found or expired.`, 'DIAGNOSTIC_SESSION_NOT_FOUND');
+    }
+    if (session.status === 'completed') {
+      throw new DiagnosticSessionError('This diagnosis is already complete. Start a new one to check again.', 'DIAGNOSTIC_SESSION_COMPLETED');
+    }
+
+    const symptom = await this.searchService.getTroubleshootingSymptom(session.symptomId);
+    const step = symptom?.diagnosticSteps.find(candidate => candidate.step === session.currentStep);
+    if (!symptom || !step) {
+      throw new DiagnosticSessionError(`Diagnostic step ${session.currentStep} is no longer available.`, 'DIAGNOSTIC_STEP_NOT_FOUND');
+    }
+
+    const now = new Date();
+    const trail = [...session.trail, { step: step.step, description: step.description, answer, note, answeredAt: now }];
+    const nextStepNumber = answer ? step.nextStepIfTrue : step.nextStepIfFalse;
+    const nextStep = symptom.diagnosticSteps.find(candidate => candidate.step === nextStepNumber);
+
+    const updated: DiagnosticSession = {
+      ...session,
+      trail,
+      updatedAt: now,
+      expiresAt: new Date(now.getTime() + this.config.ttlMs)
+    };
+
+    // Some branches loop back (e.g. "fix the water line, then re-check the dispenser"), so cap the walk
+    if (nextStep && trail.length < this.config.maxAnswers) {
+      updated.currentStep = nextStep.step;
+    } else {
+      updated.status = 'completed';
+      updated.currentStep = undefined;
+      updated.conclusion = this.conclude(symptom, trail, nextStep !== undefined);
+    }
+
+    await this.store.save(updated);
+    return updated;
+  }
+
+  public async get(sessionId: string): Promise<DiagnosticSession | null> {
+    return this.store.get(sessionId);
+  }
+
+  /**
+   * Finds the diagnosis started from a chat conversation, if any.
+   * @param conversationId The chat session id.
+   */
+  public async getForConversation(conversationId: string): Promise<DiagnosticSession | null> {
+    return this.store.get(this.conversationKey(conversationId));
+  }
+
+  public async purgeExpired(): Promise<number> {
+    return this.store.purgeExpired();
+  }
+
+  /**
+   * Builds the client-facing view of a session.
+   * @param session The diagnostic session.
+   * @returns A promise that resolves to the view.
+   */
+  public async describe(session: DiagnosticSession): Promise<DiagnosticSessionView> {
+    const symptom = await this.searchService.getTroubleshootingSymptom(session.symptomId);
+    const step = symptom?.diagnosticSteps.find(candidate => candidate.step === session.currentStep);
+
+    let conclusion: DiagnosticSessionView['conclusion'];
+    if (session.conclusion) {
+      const products = await Promise.all(session.conclusion.recommendedParts.map(partNumber => this.searchService.getProductByPartNumber(partNumber)));
+      conclusion = { ...session.conclusion, recommendedParts: products.filter((p): p is Product => p !== null) };
+    }
+
+    return {
+      id: session.id,
+      status: session.status,
+      symptom: { id: session.symptomId, description: session.symptomDescription, category: session.category },
+      currentStep: step ? this.describeStep(step) : undefined,
+      trail: session.trail,
+      conclusion,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt
+    };
+  }
+
+  /**
+   * Finds the guide by id, or the best match for a free-text symptom.
+   * @private
+   */
+  private async resolveSymptom(options: StartDiagnosticOptions): Promise<TroubleshootingSymptom> {
+    if (options.symptomId) {
+      const symptom = await this.searchService.getTroubleshootingSymptom(options.symptomId);
+      if (symptom) {
+        return symptom;
+      }
+    } else if (options.symptom) {
+      const matches = await this.searchService.searchTroubleshooting(options.symptom, options.category);
+      // A single weak candidate is still the best guess; several weak ones need the user to choose
+      if (matches.length > 1 && matches[0].confidence < CLARIFICATION_CONFIDENCE) {
+        const choices = matches.map(match => `"${match.symptom.description}"`).join(', ');
+        throw new DiagnosticSessionError(`Which problem would you like to diagnose: ${choices}?`, 'SYMPTOM_AMBIGUOUS');
+      }
+      if (matches[0]) {
+        return matches[0].symptom;
+      }
+    }
+
+    throw new DiagnosticSessionError(
+      `No troubleshooting guide found for "${options.symptomId || options.symptom || ''}".`,
+      'SYMPTOM_NOT_FOUND'
+    );
+  }
+
+  /**
+   * Draws the conclusion once the walk ends. A failed check points at its own fix and parts;
+   * if the last check passed, parts from earlier failed checks are still the likely culprits.
+   * @private
+   */
+  private conclude(symptom: TroubleshootingSymptom, trail: DiagnosticSession['trail'], stoppedEarly: boolean): DiagnosticConclusion {
+    const stepsByNumber = new Map(symptom.diagnosticSteps.map(step => [step.step, step]));
+    const failedSteps = trail
+      .filter(entry => !entry.answer)
+      .map(entry => stepsByNumber.get(entry.step))
+      .filter((step): step is DiagnosticStep => step !== undefined)
+      .reverse();
+    const suspectedParts = Array.from(new Set(failedSteps.flatMap(step => step.recommendedParts || [])));
+
+    if (stoppedEarly) {
+      return {
+        outcome: 'step_limit',
+        summary: `The diagnosis for "${symptom.description}" did not reach a conclusion after ${trail.length} checks.`,
+        recommendedParts: suspectedParts.length > 0 ? suspectedParts : symptom.recommendedParts || [],
+        shouldContactProfessional: true
+      };
+    }
+
+    const cause = failedSteps.find(step => step.recommendedAction || step.recommendedParts?.length);
+    if (cause) {
+      return {
+        outcome: 'issue_found',
+        summary: `The check "${cause.description}" did not pass, which points to the likely cause of "${symptom.description}".`,
+        recommendedAction: cause.recommendedAction,
+        recommendedParts: suspectedParts,
+        shouldContactProfessional: false
+      };
+    }
+
+    return {
+      outcome: 'no_issue_found',
+      summary: `All checks for "${symptom.description}" passed without pinpointing the cause. The parts that most often fix this problem are listed below.`,
+      recommendedParts: symptom.recommendedParts || [],
+      shouldContactProfessional: true
+    };
+  }
+
+  private describeStep(step: DiagnosticStep): NonNullable<DiagnosticSessionView['currentStep']> {
+    return {
+      step: step.step,
+      instruction: step.description,
+      expectedResult: step.expectedResult,
+      question: `${step.description}. Is this the case: ${step.expectedResult.charAt(0).toLowerCase()}${step.expectedResult.slice(1)}? ${DIAGNOSTIC_QUESTION_MARKER}`
+    };
+  }
+
+  private conversationKey(conversationId: string): string {
+    return `diag_${conversationId}`;
+  }
+
+  private generateSessionId(): string {
+    return `diag_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+}
@@ -0,0 +1,56 @@
+import { LLMService } from '../types';
+import { DeepSeekService } from './DeepSeekService';
+import { OpenAICompatibleService } from './OpenAICompatibleService';
+import { MockLLMService } from './MockLLMService';
+
+export interface LLMProviderConfig {
+  provider: string;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  mockScriptPath?: string;
+}
+
+export type LLMProviderFactory = (config: LLMProviderConfig) => LLMService;
+
+const providers = new Map<string, LLMProviderFactory>([
+  ['deepseek', config => new DeepSeekService({
+    apiKey: config.apiKey,
+    baseUrl: config.baseUrl,
+    model: config.model
+  })],
+  ['openai', config => new OpenAICompatibleService({
+    apiKey: config.apiKey,
+    baseUrl: config.baseUrl,
+    model: config.model
+  })],
+  ['mock', config => new MockLLMService({
+    scriptPath: config.mockScriptPath
+  })]
+]);
+
+/**
+ * Registers (or replaces) an LLM provider so it can be selected with LLM_PROVIDER.
+ * @param name The provider name, matched case-insensitively.
+ * @param factory Creates the service from the resolved configuration.
+ */
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+  providers.set(name.toLowerCase(), factory);
+}
+
+export function getRegisteredProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Creates the LLM service for the configured provider.
+ * @param config The provider configuration, usually resolved from the environment.
+ * @returns The LLM service instance.
+ */
+export function createLLMService(config: LLMProviderConfig): LLMService {
+  const factory = providers.get(config.provider.toLowerCase());
+  if (!factory) {
+    throw new Error(`Unknown LLM provider '${config.provider}'. Available providers: ${getRegisteredProviders().join(', ')}`);
+  }
+  return factory(config);
+}
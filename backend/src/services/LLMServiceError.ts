@@ -0,0 +1,128 @@
+import axios from 'axios';
+import { DeepSeekErrorResponse, LLMUsageRecord } from '../types';
+
+export type LLMErrorCategory =
+  | 'rate_limit'
+  | 'timeout'
+  | 'server_error'
+  | 'network'
+  | 'authentication'
+  | 'bad_request'
+  | 'invalid_response'
+  | 'not_configured'
+  | 'circuit_open'
+  | 'aborted'
+  | 'unknown';
+
+// Transient failures worth retrying; everything else will fail the same way again
+const RETRYABLE_CATEGORIES: LLMErrorCategory[] = ['rate_limit', 'timeout', 'server_error', 'network', 'invalid_response'];
+
+/**
+ * An error raised by an LLM provider, classified so callers can decide whether to
+ * retry and how to report it (e.g. 429 vs 502) instead of collapsing every failure
+ * into a generic "service unavailable".
+ */
+export class LLMServiceError extends Error {
+  public readonly category: LLMErrorCategory;
+  public readonly status?: number;
+  public readonly retryAfterMs?: number;
+  // Tokens already spent on the request that failed, attached by the agent so they are still billed
+  public usage: LLMUsageRecord[] = [];
+
+  constructor(message: string, category: LLMErrorCategory, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'LLMServiceError';
+    this.category = category;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  public get retryable(): boolean {
+    return RETRYABLE_CATEGORIES.includes(this.category);
+  }
+
+  /**
+   * The error for a call cancelled by its caller, e.g. because the client disconnected.
+   */
+  public static aborted(cause?: unknown): LLMServiceError {
+    return new LLMServiceError('AI service request was aborted.', 'aborted', { cause });
+  }
+
+  /**
+   * Classifies an HTTP error status from a provider.
+   * @param status The HTTP status code.
+   * @param detail The provider's error message, if any.
+   * @param retryAfter The raw Retry-After header value, if any.
+   */
+  public static fromStatus(status: number, detail?: string, retryAfter?: string | null, cause?: unknown): LLMServiceError {
+    const message = `API error: ${status} - ${detail || 'Unknown error'}`;
+    const retryAfterMs = parseRetryAfter(retryAfter);
+
+    if (status === 429) {
+      return new LLMServiceError(message, 'rate_limit', { status, retryAfterMs, cause });
+    }
+    if (status === 408) {
+      return new LLMServiceError(message, 'timeout', { status, cause });
+    }
+    if (status === 401 || status === 403) {
+      return new LLMServiceError(message, 'authentication', { status, cause });
+    }
+    if (status >= 500) {
+      return new LLMServiceError(message, 'server_error', { status, retryAfterMs, cause });
+    }
+    if (status >= 400) {
+      return new LLMServiceError(message, 'bad_request', { status, cause });
+    }
+    return new LLMServiceError(message, 'unknown', { status, cause });
+  }
+
+  /**
+   * Classifies an error thrown by axios during a provider call.
+   */
+  public static fromAxiosError(error: unknown): LLMServiceError {
+    if (error instanceof LLMServiceError) {
+      return error;
+    }
+
+    if (axios.isCancel(error)) {
+      return LLMServiceError.aborted(error);
+    }
+
+    if (axios.isAxiosError(error)) {
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        return new LLMServiceError('AI service request timed out.', 'timeout', { cause: error });
+      }
+      if (!error.response) {
+        return new LLMServiceError(`AI service is unreachable: ${error.message}`, 'network', { cause: error });
+      }
+
+      const data = error.response.data as DeepSeekErrorResponse | undefined;
+      const retryAfter = error.response.headers?.['retry-after'];
+      return LLMServiceError.fromStatus(error.response.status, data?.error?.message, typeof retryAfter === 'string' ? retryAfter : undefined, error);
+    }
+
+    return new LLMServiceError((error as Error)?.message || 'Unknown AI service error', 'unknown', { cause: error });
+  }
+}
+
+/**
+ * Parses a Retry-After header given either in seconds or as an HTTP date.
+ * @returns The delay in milliseconds, or undefined when absent or unparseable.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
@@ -0,0 +1,272 @@
+import { readFileSync } from 'fs';
+import { DeepSeekMessage, LLMCallOptions, LLMService, LLMToolDefinition, LLMToolResponse, ServiceStatus } from '../types';
+import { extractCartRequest, extractDiagnosticAnswer, extractIdentifiers, extractIntent, isAwaitingDiagnosticAnswer, CART_PATTERN, GREETING_PATTERN, GUIDED_PATTERN, INSTALL_PATTERN, MODEL_PARTS_PATTERN, SYMPTOM_PATTERN } from '../agents/IntentExtractor';
+import { describeApplianceCategories } from '../data/categories';
+import { LLMServiceError } from './LLMServiceError';
+
+/**
+ * A scripted interaction. When `match` (a case-insensitive regular expression) matches
+ * the latest user message, `toolCalls` are issued one per reasoning step, in order,
+ * and `response` is returned as the final answer.
+ */
+export interface MockScriptEntry {
+  match: string;
+  toolCalls?: Array<{ name: string; arguments: Record<string, any> }>;
+  response?: string;
+}
+
+interface MockLLMConfig {
+  script?: MockScriptEntry[];
+  scriptPath?: string;
+}
+
+type PlannedCall = { name: string; arguments: Record<string, any> };
+
+// Rough characters-per-token ratio used to report plausible usage figures
+const CHARS_PER_TOKEN = 4;
+const PART_REFERENCE_PATTERN = /\b(that one|this one|that part|this part|the first one|it)\b/i;
+
+/**
+ * A deterministic, offline LLM provider for tests and demos. It never calls the network:
+ * tool selection follows a user-supplied script or simple keyword/part-number rules, and
+ * final answers are assembled from the tool summaries present in the prompt.
+ */
+export class MockLLMService implements LLMService {
+  private script: MockScriptEntry[];
+
+  constructor(config: MockLLMConfig = {}) {
+    this.script = config.script || (config.scriptPath ? this.loadScript(config.scriptPath) : []);
+  }
+
+
+  /**
+   * Returns the next scripted tool decision as JSON when prompted for one,
+   * otherwise a final answer built from the tool results in the prompt.
+   * @param messages The conversation history and prompt.
+   * @param options Optional listeners, e.g. for token usage.
+   * @returns A promise that resolves to the generated response string.
+   */
+  public async generateResponse(messages: DeepSeekMessage[], options?: LLMCallOptions): Promise<string> {
+    const text = this.respond(messages);
+    this.reportUsage(messages, text, options);
+    return text;
+  }
+
+
+  /**
+   * Streams the same text generateResponse would return, one word at a time.
+   * @param messages The conversation history and prompt.
+   * @param options Optional listeners, e.g. for token usage.
+   * @returns An async iterable of content fragments, in order.
+   */
+  public async *streamResponse(messages: DeepSeekMessage[], options?: LLMCallOptions): AsyncIterable<string> {
+    const text = await this.generateResponse(messages, options);
+    for (const token of text.match(/\S+\s*|\s+/g) || []) {
+      if (options?.signal?.aborted) {
+        throw LLMServiceError.aborted();
+      }
+      yield token;
+    }
+  }
+
+
+  /**
+   * Issues the next planned tool call, or none once the plan is exhausted.
+   * @param messages The conversation history and prompt.
+   * @param tools The function definitions the model may call.
+   * @param options Optional listeners, e.g. for token usage.
+   * @returns A promise that resolves to the text content and any requested tool calls.
+   */
+  public async generateWithTools(messages: DeepSeekMessage[], tools: LLMToolDefinition[], options?: LLMCallOptions): Promise<LLMToolResponse> {
+    const available = new Set(tools.map(tool => tool.function.name));
+    const call = this.nextCall(messages);
+
+    if (!call || !available.has(call.name)) {
+      this.reportUsage(messages, '', options);
+      return { content: '', toolCalls: [] };
+    }
+
+    this.reportUsage(messages, JSON.stringify(call), options);
+    return {
+      content: `Scripted mock decision: calling ${call.name}`,
+      toolCalls: [{ id: `mock_call_${this.countStepsTaken(messages) + 1}`, name: call.name, arguments: call.arguments }]
+    };
+  }
+
+
+  /**
+   * Provides the health status of the service.
+   * @returns A ServiceStatus object.
+   */
+  public getStatus(): ServiceStatus {
+    return {
+      status: 'healthy',
+      configured: true,
+      provider: 'mock',
+      model: 'scripted',
+      details: `Mock LLM provider active (${this.script.length} scripted entries) - responses are deterministic and offline`
+    };
+  }
+
+
+  /**
+   * Produces the JSON tool decision when prompted for one, otherwise a final answer.
+   * @private
+   */
+  private respond(messages: DeepSeekMessage[]): string {
+    const systemPrompt = messages[0]?.content || '';
+
+    if (systemPrompt.startsWith('Rewrite the user\'s latest message')) {
+      return this.rewriteFollowUp(messages[messages.length - 1]?.content || '');
+    }
+
+    if (systemPrompt.includes('Respond with ONLY a JSON object')) {
+      const call = this.nextCall(messages);
+      return JSON.stringify(call
+        ? { tool: call.name, parameters: call.arguments, reasoning: 'Scripted mock decision' }
+        : { tool: 'final_answer' });
+    }
+
+    return this.composeFinalAnswer(messages);
+  }
+
+  /**
+   * Resolves "it"/"that one" to the most recently discussed product and "my model" to the
+   * most recently mentioned model number, mimicking what a real model would do.
+   * @private
+   */
+  private rewriteFollowUp(prompt: string): string {
+    const latest = prompt.match(/Latest message: (.*)$/s)?.[1]?.trim() || '';
+    const { partNumber, modelNumber } = extractIdentifiers(latest);
+    const recentPart = prompt.match(/^- ([A-Z0-9-]+):/m)?.[1];
+    const recentModel = prompt.match(/model numbers: ([A-Z0-9-]+)/)?.[1];
+
+    let rewritten = latest;
+    if (!partNumber && recentPart) {
+      rewritten = rewritten.replace(PART_REFERENCE_PATTERN, `part ${recentPart}`);
+    }
+    if (!modelNumber && recentModel) {
+      rewritten = rewritten.replace(/\bmy model\b/i, `model ${recentModel}`);
+    }
+    return rewritten;
+  }
+
+  /**
+   * Reports token counts estimated from text length, so usage accounting can be exercised offline.
+   * @private
+   */
+  private reportUsage(messages: DeepSeekMessage[], output: string, options?: LLMCallOptions): void {
+    const promptTokens = Math.ceil(messages.reduce((total, message) => total + message.content.length, 0) / CHARS_PER_TOKEN);
+    const completionTokens = Math.ceil(output.length / CHARS_PER_TOKEN);
+    options?.onUsage?.({ promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, model: 'scripted' });
+  }
+
+  /**
+   * Picks the planned call for the current step of the reasoning loop.
+   * @private
+   */
+  private nextCall(messages: DeepSeekMessage[]): PlannedCall | undefined {
+    const plan = this.planCalls(this.latestUserMessage(messages), isAwaitingDiagnosticAnswer(messages));
+    return plan[this.countStepsTaken(messages)];
+  }
+
+  /**
+   * Determines the full sequence of tool calls for a user message.
+   * @private
+   */
+  private planCalls(userMessage: string, awaitingAnswer: boolean): PlannedCall[] {
+    const entry = this.findScriptEntry(userMessage);
+    if (entry) {
+      return entry.toolCalls || [];
+    }
+
+    const reply = awaitingAnswer ? extractDiagnosticAnswer(userMessage) : undefined;
+    if (reply) {
+      return [{ name: 'GuidedTroubleshooting', arguments: { action: 'answer', ...reply } }];
+    }
+
+    if (GREETING_PATTERN.test(userMessage)) {
+      return [];
+    }
+
+    const { partNumber, modelNumber } = extractIdentifiers(userMessage);
+    if (CART_PATTERN.test(userMessage)) {
+      return [{ name: 'Cart', arguments: { ...extractCartRequest(userMessage), ...(partNumber && { partNumber }), ...(modelNumber && { modelNumber }) } }];
+    }
+
+    const wantsInstall = INSTALL_PATTERN.test(userMessage);
+
+    const plan: PlannedCall[] = [];
+    if (partNumber && modelNumber) {
+      plan.push({ name: 'CompatibilityCheck', arguments: { partNumber, modelNumber } });
+    } else if (partNumber && !wantsInstall) {
+      plan.push({ name: 'ProductSearch', arguments: { partNumber } });
+    } else if (SYMPTOM_PATTERN.test(userMessage) && GUIDED_PATTERN.test(userMessage)) {
+      const { symptom, category } = extractIntent(userMessage);
+      plan.push({ name: 'GuidedTroubleshooting', arguments: { action: 'start', symptom: symptom || userMessage, ...(category && { category }) } });
+    } else if (SYMPTOM_PATTERN.test(userMessage)) {
+      plan.push({ name: 'TroubleshootingGuide', arguments: { symptom: userMessage } });
+    } else if (modelNumber && MODEL_PARTS_PATTERN.test(userMessage)) {
+      plan.push({ name: 'ModelPartsLookup', arguments: { modelNumber } });
+    } else if (!partNumber) {
+      plan.push({ name: 'ProductSearch', arguments: { query: userMessage } });
+    }
+
+    if (partNumber && wantsInstall) {
+      plan.push({ name: 'InstallationGuide', arguments: { partNumber } });
+    }
+
+    return plan;
+  }
+
+  /**
+   * Builds a final answer from the scripted response or the tool summaries in the prompt.
+   * @private
+   */
+  private composeFinalAnswer(messages: DeepSeekMessage[]): string {
+    const entry = this.findScriptEntry(this.latestUserMessage(messages));
+    if (entry?.response) {
+      return entry.response;
+    }
+
+    const summaries: string[] = [];
+    for (const message of messages) {
+      for (const match of message.content.matchAll(/"data":\s*\{\s*"summary":\s*"((?:[^"\\]|\\.)*)"/g)) {
+        summaries.push(JSON.parse(`"${match[1]}"`));
+      }
+    }
+
+    if (summaries.length > 0) {
+      return summaries.map(summary => `- ${summary}`).join('\n');
+    }
+
+    return `I can help you find ${describeApplianceCategories()} parts, check compatibility, and walk through installation or troubleshooting. What part or model are you working with?`;
+  }
+
+  private findScriptEntry(userMessage: string): MockScriptEntry | undefined {
+    return this.script.find(entry => new RegExp(entry.match, 'i').test(userMessage));
+  }
+
+  private latestUserMessage(messages: DeepSeekMessage[]): string {
+    const userMessages = messages.filter(message => message.role === 'user');
+    return userMessages[userMessages.length - 1]?.content || '';
+  }
+
+  /**
+   * Counts completed tool calls from the agent's "Steps taken so far" note.
+   * @private
+   */
+  private countStepsTaken(messages: DeepSeekMessage[]): number {
+    const stepsNote = messages.find(message => message.role === 'system' && message.content.startsWith('Steps taken so far'));
+    return stepsNote ? (stepsNote.content.match(/^\d+\. /gm) || []).length : 0;
+  }
+
+  private loadScript(scriptPath: string): MockScriptEntry[] {
+    try {
+      return JSON.parse(readFileSync(scriptPath, 'utf8')) as MockScriptEntry[];
+    } catch (error) {
+      console.error(`[MockLLMService] - Failed to load script from ${scriptPath}:`, error);
+      return [];
+    }
+  }
+}
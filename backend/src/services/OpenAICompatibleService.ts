@@ -0,0 +1,222 @@
+import OpenAI from 'openai';
+import { DeepSeekMessage, LLMCallOptions, LLMService, LLMToolDefinition, LLMToolResponse, ServiceStatus } from '../types';
+import { parseJsonArguments } from '../utils/jsonRepair';
+import { LLMServiceError } from './LLMServiceError';
+
+interface OpenAICompatibleConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  timeout?: number;
+}
+
+
+/**
+ * A service for any chat completions API that follows the OpenAI wire format
+ * (OpenAI itself, Azure OpenAI gateways, vLLM, Ollama, LM Studio, etc.),
+ * built on the official `openai` client.
+ */
+export class OpenAICompatibleService implements LLMService {
+  private config: Required<OpenAICompatibleConfig>;
+  private client: OpenAI;
+
+  constructor(config: OpenAICompatibleConfig = {}) {
+    this.config = {
+      apiKey: config.apiKey || process.env.OPENAI_API_KEY || '',
+      baseUrl: config.baseUrl || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      model: config.model || 'gpt-4o-mini',
+      maxTokens: config.maxTokens || 1000,
+      temperature: config.temperature || 0.1,
+      timeout: config.timeout || 30000
+    };
+
+    this.client = new OpenAI({
+      apiKey: this.config.apiKey || 'not-configured',
+      baseURL: this.config.baseUrl,
+      timeout: this.config.timeout,
+      maxRetries: 0
+    });
+  }
+
+
+  /**
+   * Generates a natural language response from the configured model.
+   * @param messages The conversation history and prompt.
+   * @param options Optional listeners, e.g. for token usage.
+   * @returns A promise that resolves to the generated response string.
+   */
+  public async generateResponse(messages: DeepSeekMessage[], options?: LLMCallOptions): Promise<string> {
+    this.assertConfigured();
+
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: this.config.model,
+        messages,
+        max_tokens: this.config.maxTokens,
+        temperature: this.config.temperature
+      }, { signal: options?.signal });
+
+      this.reportUsage(completion.usage, options);
+      const content = completion.choices[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new LLMServiceError('Empty or invalid response from AI service.', 'invalid_response');
+      }
+      return content.trim();
+    } catch (error) {
+      console.error(`[OpenAICompatibleService] - Request failed: ${(error as Error).message}`);
+      throw this.toServiceError(error);
+    }
+  }
+
+
+  /**
+   * Streams a natural language response from the configured model token by token.
+   * @param messages The conversation history and prompt.
+   * @param options Optional listeners, e.g. for token usage.
+   * @returns An async iterable of content fragments, in order.
+   */
+  public async *streamResponse(messages: DeepSeekMessage[], options?: LLMCallOptions): AsyncIterable<string> {
+    this.assertConfigured();
+
+    let stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>;
+    try {
+      stream = await this.client.chat.completions.create({
+        model: this.config.model,
+        messages,
+        max_tokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { signal: options?.signal });
+    } catch (error) {
+      console.error(`[OpenAICompatibleService] - Streaming request failed: ${(error as Error).message}`);
+      throw this.toServiceError(error);
+    }
+
+    try {
+      for await (const chunk of stream) {
+        this.reportUsage(chunk.usage, options);
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) {
+          yield content;
+        }
+      }
+    } catch (error) {
+      if (options?.signal?.aborted) {
+        throw LLMServiceError.aborted(error);
+      }
+      throw new LLMServiceError(`AI service stream was interrupted: ${(error as Error).message}`, 'network', { cause: error });
+    }
+  }
+
+
+  /**
+   * Asks the model to either answer or call one of the provided tools.
+   * @param messages The conversation history and prompt.
+   * @param tools The function definitions the model may call.
+   * @param options Optional listeners, e.g. for token usage.
+   * @returns A promise that resolves to the text content and any requested tool calls.
+   */
+  public async generateWithTools(messages: DeepSeekMessage[], tools: LLMToolDefinition[], options?: LLMCallOptions): Promise<LLMToolResponse> {
+    this.assertConfigured();
+
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: this.config.model,
+        messages,
+        max_tokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        tools,
+        tool_choice: 'auto'
+      }, { signal: options?.signal });
+
+      this.reportUsage(completion.usage, options);
+      const message = completion.choices[0]?.message;
+      if (!message) {
+        throw new LLMServiceError('Empty or invalid response from AI service.', 'invalid_response');
+      }
+
+      return {
+        content: (message.content || '').trim(),
+        toolCalls: (message.tool_calls || [])
+          .filter(call => call.type === 'function')
+          .map(call => ({
+            id: call.id,
+            name: call.function.name,
+            arguments: parseJsonArguments(call.function.arguments)
+          }))
+      };
+    } catch (error) {
+      console.error(`[OpenAICompatibleService] - Tool call request failed: ${(error as Error).message}`);
+      throw this.toServiceError(error);
+    }
+  }
+
+
+  /**
+   * Provides the health status of the service.
+   * @returns A ServiceStatus object.
+   */
+  public getStatus(): ServiceStatus {
+    const configured = !!this.config.apiKey;
+    return {
+      status: configured ? 'healthy' : 'unhealthy',
+      configured,
+      provider: 'openai',
+      model: this.config.model,
+      details: configured ? `OpenAI-compatible API configured (${this.config.baseUrl})` : 'OpenAI-compatible API not configured - API key required',
+      metadata: {
+        config: {
+          baseUrl: this.config.baseUrl,
+          maxTokens: this.config.maxTokens,
+          temperature: this.config.temperature,
+          timeout: this.config.timeout
+        }
+      }
+    };
+  }
+
+
+  private reportUsage(usage: OpenAI.CompletionUsage | null | undefined, options?: LLMCallOptions): void {
+    if (usage && options?.onUsage) {
+      options.onUsage({
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+        model: this.config.model
+      });
+    }
+  }
+
+
+  private assertConfigured(): void {
+    if (!this.config.apiKey) {
+      throw new LLMServiceError('AI service is not configured. An API key is required.', 'not_configured');
+    }
+  }
+
+
+  /**
+   * Classifies errors from the `openai` client so retries and HTTP mapping can use them.
+   */
+  private toServiceError(error: unknown): LLMServiceError {
+    if (error instanceof LLMServiceError) {
+      return error;
+    }
+    if (error instanceof OpenAI.APIUserAbortError) {
+      return LLMServiceError.aborted(error);
+    }
+    if (error instanceof OpenAI.APIConnectionTimeoutError) {
+      return new LLMServiceError('AI service request timed out.', 'timeout', { cause: error });
+    }
+    if (error instanceof OpenAI.APIConnectionError) {
+      return new LLMServiceError(`AI service is unreachable: ${error.message}`, 'network', { cause: error });
+    }
+    if (error instanceof OpenAI.APIError && error.status) {
+      return LLMServiceError.fromStatus(error.status, error.message, error.headers?.get('retry-after'), error);
+    }
+    return new LLMServiceError((error as Error)?.message || 'Unknown AI service error', 'unknown', { cause: error });
+  }
+}
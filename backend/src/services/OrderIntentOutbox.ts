@@ -0,0 +1,27 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { OrderIntent, OrderIntentSink } from '../types';
+
+/**
+ * An outbox for order intents, stored as newline-delimited JSON with one order per line.
+ * The downstream order system tails or periodically drains the file; entries are only ever
+ * appended.
+ */
+export class FileOrderIntentOutbox implements OrderIntentSink {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Appends an order intent. A failed write is reported to the caller, so a checkout is
+   * never acknowledged for an order the downstream system will not see.
+   */
+  public emit(order: OrderIntent): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(order) + '\n', 'utf8');
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,341 @@
+import { Product } from '../types';
+import { editDistance, tokenize } from '../utils/text';
+
+export type IndexedField = 'partNumber' | 'name' | 'brand' | 'compatibleModels' | 'category' | 'description';
+
+// How much a match in each field counts relative to the description
+export const FIELD_BOOSTS: Record<IndexedField, number> = {
+  partNumber: 5,
+  name: 3,
+  brand: 2,
+  compatibleModels: 2,
+  category: 1,
+  description: 1
+};
+
+// Standard BM25 parameters: term frequency saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Partial matches count for less than the exact term
+const PREFIX_MATCH_WEIGHT = 0.8;
+export const TYPO_MATCH_WEIGHT = 0.6;
+const MIN_PREFIX_LENGTH = 3;
+const MIN_TYPO_LENGTH = 4;
+
+interface FieldIndex {
+  postings: Map<string, Map<number, number>>; // term -> document -> term frequency
+  lengths: number[];
+  totalLength: number;
+  averageLength: number;
+}
+
+export interface TermExpansion {
+  term: string;
+  weight: number;
+}
+
+export interface ProductMatch {
+  product: Product;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface ProductIndexResult {
+  matches: ProductMatch[];
+  // Query terms that matched nothing exactly, mapped to the catalog term used instead
+  corrections: Record<string, string>;
+}
+
+/**
+ * An in-memory inverted index over the product catalog, ranked with BM25 across
+ * boosted fields. Query terms also match catalog terms they are a prefix of
+ * ("filt" -> "filter") and, failing an exact match, terms within a small edit
+ * distance ("dishwaser" -> "dishwasher"). Call `rebuild` when the whole catalog changes,
+ * and `upsert` or `remove` for a single product.
+ */
+export class ProductIndex {
+  // Indexed by document id; a removed product leaves an empty slot until the next rebuild
+  private products: Array<Product | undefined> = [];
+  private documentIds = new Map<string, number>();
+  private documentCount = 0;
+  private fields = new Map<IndexedField, FieldIndex>();
+  private documentFrequency = new Map<string, number>();
+  private vocabulary = new Set<string>();
+
+  constructor(products: Product[] = []) {
+    this.rebuild(products);
+  }
+
+  /**
+   * Replaces the indexed catalog.
+   * @param products The full product catalog.
+   */
+  public rebuild(products: Product[]): void {
+    this.products = [...products];
+    this.documentIds = new Map(products.map((product, documentId) => [product.id, documentId]));
+    this.documentCount = products.length;
+    this.fields = new Map((Object.keys(FIELD_BOOSTS) as IndexedField[])
+      .map(field => [field, { postings: new Map(), lengths: [], totalLength: 0, averageLength: 0 }]));
+    this.documentFrequency = new Map();
+    this.vocabulary = new Set();
+
+    products.forEach((product, documentId) => this.addDocument(documentId, product));
+    this.updateAverageLengths();
+
+    console.log(`[ProductIndex] - Indexed ${products.length} products (${this.vocabulary.size} terms).`);
+  }
+
+  /**
+   * Adds a product, or re-indexes the one with the same id, touching only its own terms.
+   * @param product The new or changed product.
+   */
+  public upsert(product: Product): void {
+    let documentId = this.documentIds.get(product.id);
+    if (documentId === undefined) {
+      documentId = this.products.length;
+      this.documentIds.set(product.id, documentId);
+      this.documentCount++;
+    } else {
+      this.removeDocument(documentId);
+    }
+
+    this.products[documentId] = product;
+    this.addDocument(documentId, product);
+    this.updateAverageLengths();
+  }
+
+  /**
+   * Removes a product from the index.
+   * @param id The product's id.
+   */
+  public remove(id: string): void {
+    const documentId = this.documentIds.get(id);
+    if (documentId === undefined) {
+      return;
+    }
+
+    this.removeDocument(documentId);
+    this.products[documentId] = undefined;
+    this.documentIds.delete(id);
+    this.documentCount--;
+    this.updateAverageLengths();
+  }
+
+  /**
+   * Ranks the products matching any of the query's terms.
+   * @param query Free-form search text.
+   * @returns The matches, best first, and any typo corrections that were applied.
+   */
+  public search(query: string): ProductIndexResult {
+    const queryTerms = Array.from(new Set(searchTerms(query)));
+    const scores = new Map<number, { score: number; matchedTerms: string[] }>();
+    const corrections: Record<string, string> = {};
+
+    for (const queryTerm of queryTerms) {
+      const expansions = expandTerm(queryTerm, this.vocabulary);
+      if (expansions.length > 0 && expansions.every(expansion => expansion.weight === TYPO_MATCH_WEIGHT)) {
+        corrections[queryTerm] = expansions[0].term;
+      }
+
+      // A query term is credited once per product, through its best-scoring expansion
+      const best = new Map<number, number>();
+      for (const { term, weight } of expansions) {
+        for (const [documentId, score] of this.scoreTerm(term)) {
+          best.set(documentId, Math.max(best.get(documentId) || 0, score * weight));
+        }
+      }
+
+      for (const [documentId, score] of best) {
+        const entry = scores.get(documentId) || { score: 0, matchedTerms: [] };
+        entry.score += score;
+        entry.matchedTerms.push(queryTerm);
+        scores.set(documentId, entry);
+      }
+    }
+
+    // Products matching more of the query rank above those matching one term very well
+    const matches = Array.from(scores.entries())
+      .map(([documentId, { score, matchedTerms }]) => ({
+        product: this.products[documentId]!,
+        score: score * (matchedTerms.length / queryTerms.length),
+        matchedTerms
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    return { matches, corrections };
+  }
+
+  /**
+   * Scores every product containing an exact term with BM25, summed over the boosted fields.
+   * @private
+   */
+  private scoreTerm(term: string): Map<number, number> {
+    const scores = new Map<number, number>();
+    const documentFrequency = this.documentFrequency.get(term) || 0;
+    if (documentFrequency === 0) {
+      return scores;
+    }
+
+    const idf = Math.log(1 + (this.documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+    for (const [field, index] of this.fields) {
+      const documents = index.postings.get(term);
+      if (!documents) {
+        continue;
+      }
+      for (const [documentId, frequency] of documents) {
+        const lengthRatio = index.averageLength > 0 ? index.lengths[documentId] / index.averageLength : 1;
+        const saturation = (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+        scores.set(documentId, (scores.get(documentId) || 0) + FIELD_BOOSTS[field] * idf * saturation);
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Adds a product's terms to the postings, field lengths and document frequencies.
+   * @private
+   */
+  private addDocument(documentId: number, product: Product): void {
+    const documentTerms = new Set<string>();
+
+    for (const [field, index] of this.fields) {
+      const terms = fieldTerms(product, field);
+      index.lengths[documentId] = terms.length;
+      index.totalLength += terms.length;
+      for (const term of terms) {
+        const documents = index.postings.get(term) || new Map<number, number>();
+        documents.set(documentId, (documents.get(documentId) || 0) + 1);
+        index.postings.set(term, documents);
+        documentTerms.add(term);
+      }
+    }
+
+    for (const term of documentTerms) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      this.vocabulary.add(term);
+    }
+  }
+
+  /**
+   * Takes the terms of the product currently in a slot back out of the index.
+   * @private
+   */
+  private removeDocument(documentId: number): void {
+    const product = this.products[documentId];
+    if (!product) {
+      return;
+    }
+    const documentTerms = new Set<string>();
+
+    for (const [field, index] of this.fields) {
+      for (const term of fieldTerms(product, field)) {
+        const documents = index.postings.get(term);
+        documents?.delete(documentId);
+        if (documents?.size === 0) {
+          index.postings.delete(term);
+        }
+        documentTerms.add(term);
+      }
+      index.totalLength -= index.lengths[documentId];
+      index.lengths[documentId] = 0;
+    }
+
+    for (const term of documentTerms) {
+      const frequency = (this.documentFrequency.get(term) || 0) - 1;
+      if (frequency > 0) {
+        this.documentFrequency.set(term, frequency);
+      } else {
+        this.documentFrequency.delete(term);
+        this.vocabulary.delete(term);
+      }
+    }
+  }
+
+  private updateAverageLengths(): void {
+    for (const index of this.fields.values()) {
+      index.averageLength = this.documentCount > 0 ? index.totalLength / this.documentCount : 0;
+    }
+  }
+}
+
+/**
+ * Tokenizes a product field for indexing. Part and model numbers are kept whole (without
+ * punctuation) so they only match as identifiers.
+ * @param product The product.
+ * @param field The field to tokenize.
+ * @returns The field's terms, in order, including repeats.
+ */
+export function fieldTerms(product: Product, field: IndexedField): string[] {
+  switch (field) {
+    case 'partNumber':
+      // Aliases, variant numbers and replaced numbers find the part under any of its numbers
+      return [
+        product.partNumber,
+        ...(product.aliases || []),
+        ...(product.variants || []).map(variant => variant.partNumber),
+        ...(product.supersedes || [])
+      ].map(identifier);
+    case 'compatibleModels':
+      return product.compatibleModels.map(identifier);
+    default:
+      return tokenize(product[field]);
+  }
+}
+
+/**
+ * Splits a search query into index terms. Query words are stemmed like product text, and
+ * words that look like identifiers are also looked up whole.
+ * @param query Free-form search text.
+ * @returns The query's terms, including repeats.
+ */
+export function searchTerms(query: string): string[] {
+  const identifiers = query
+    .split(/\s+/)
+    .map(identifier)
+    .filter(word => word.length >= 5 && /\d/.test(word));
+  return [...tokenize(query), ...identifiers];
+}
+
+/**
+ * Finds the index terms a query term should match: itself, terms it is a prefix of, and,
+ * only when neither exists, terms within the allowed edit distance. Identifiers containing
+ * digits are never corrected.
+ * @param queryTerm The query term.
+ * @param vocabulary Every term in the index.
+ * @returns The terms with the weight a match through each counts for.
+ */
+export function expandTerm(queryTerm: string, vocabulary: ReadonlySet<string>): TermExpansion[] {
+  const expansions: TermExpansion[] = [];
+
+  if (vocabulary.has(queryTerm)) {
+    expansions.push({ term: queryTerm, weight: 1 });
+  }
+
+  if (queryTerm.length >= MIN_PREFIX_LENGTH) {
+    for (const term of vocabulary) {
+      if (term !== queryTerm && term.startsWith(queryTerm)) {
+        expansions.push({ term, weight: PREFIX_MATCH_WEIGHT });
+      }
+    }
+  }
+
+  if (expansions.length > 0 || queryTerm.length < MIN_TYPO_LENGTH || /\d/.test(queryTerm)) {
+    return expansions;
+  }
+
+  const maxDistance = queryTerm.length >= 8 ? 2 : 1;
+  const candidates = Array.from(vocabulary)
+    .map(term => ({ term, distance: editDistance(queryTerm, term, maxDistance) }))
+    .filter(candidate => candidate.distance <= maxDistance);
+  const closest = Math.min(...candidates.map(candidate => candidate.distance));
+  return candidates
+    .filter(candidate => candidate.distance === closest)
+    .map(candidate => ({ term: candidate.term, weight: TYPO_MATCH_WEIGHT }));
+}
+
+function identifier(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
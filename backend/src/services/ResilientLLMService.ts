@@ -0,0 +1,220 @@
+import { DeepSeekMessage, LLMCallOptions, LLMService, LLMToolDefinition, LLMToolResponse, ServiceStatus } from '../types';
+import { CircuitBreaker } from './CircuitBreaker';
+import { LLMServiceError } from './LLMServiceError';
+
+interface ResilienceConfig {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  failureThreshold?: number;
+  resetTimeoutMs?: number;
+}
+
+/**
+ * Wraps any LLM provider with retries (exponential backoff with full jitter, honouring
+ * Retry-After) and a circuit breaker, so a single 429 or timeout does not fail a chat
+ * turn and a provider outage fails fast instead of piling up slow requests.
+ */
+export class ResilientLLMService implements LLMService {
+  private inner: LLMService;
+  private config: Required<Omit<ResilienceConfig, 'failureThreshold' | 'resetTimeoutMs'>>;
+  private breaker: CircuitBreaker;
+
+  public generateWithTools?: (messages: DeepSeekMessage[], tools: LLMToolDefinition[], options?: LLMCallOptions) => Promise<LLMToolResponse>;
+
+  constructor(inner: LLMService, config: ResilienceConfig = {}) {
+    this.inner = inner;
+    this.config = {
+      maxRetries: config.maxRetries ?? 2,
+      baseDelayMs: config.baseDelayMs || 500,
+      maxDelayMs: config.maxDelayMs || 8000
+    };
+    this.breaker = new CircuitBreaker({
+      failureThreshold: config.failureThreshold,
+      resetTimeoutMs: config.resetTimeoutMs
+    });
+
+    // Only advertise native tool calling when the wrapped provider supports it
+    if (inner.generateWithTools) {
+      const generateWithTools = inner.generateWithTools.bind(inner);
+      this.generateWithTools = (messages, tools, options) =>
+        this.execute('generateWithTools', () => generateWithTools(messages, tools, options));
+    }
+  }
+
+
+  /**
+   * Generates a response, retrying transient failures.
+   * @param messages The conversation history and prompt.
+   * @param options Optional listeners, passed through to the provider.
+   * @returns A promise that resolves to the generated response string.
+   */
+  public async generateResponse(messages: DeepSeekMessage[], options?: LLMCallOptions): Promise<string> {
+    return this.execute('generateResponse', () => this.inner.generateResponse(messages, options));
+  }
+
+
+  /**
+   * Streams a response. Failures are retried only until the first token has been
+   * yielded; after that the caller has already shown partial output, so errors propagate.
+   * @param messages The conversation history and prompt.
+   * @param options Optional listeners, passed through to the provider.
+   * @returns An async iterable of content fragments, in order.
+   */
+  public async *streamResponse(messages: DeepSeekMessage[], options?: LLMCallOptions): AsyncIterable<string> {
+    const isTrial = this.assertCircuitClosed();
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        let yielded = false;
+
+        try {
+          for await (const token of this.inner.streamResponse(messages, options)) {
+            yielded = true;
+            yield token;
+          }
+          this.breaker.recordSuccess();
+          return;
+        } catch (error) {
+          const serviceError = toServiceError(error);
+          const delay = this.retryDelay(serviceError, attempt);
+          if (yielded || delay === undefined) {
+            this.recordFailure(serviceError);
+            throw serviceError;
+          }
+          console.warn(`[ResilientLLMService] - streamResponse failed (${serviceError.category}), retrying in ${delay}ms (attempt ${attempt + 1}/${this.config.maxRetries})`);
+          await sleep(delay);
+        }
+      }
+    } finally {
+      // A stream abandoned by its consumer never reaches either outcome above
+      if (isTrial) {
+        this.breaker.release();
+      }
+    }
+  }
+
+
+  /**
+   * Provides the wrapped provider's status with the circuit breaker state merged in.
+   * @returns A ServiceStatus object.
+   */
+  public getStatus(): ServiceStatus {
+    const status = this.inner.getStatus();
+    const circuit = this.breaker.getSnapshot();
+
+    let overall = status.status;
+    let details = status.details;
+    if (circuit.state === 'open') {
+      overall = 'unhealthy';
+      details = `Circuit open after ${circuit.consecutiveFailures} consecutive failed requests - ${details}`;
+    } else if (circuit.state === 'half_open' && overall === 'healthy') {
+      overall = 'degraded';
+      details = `Circuit half-open, probing provider - ${details}`;
+    }
+
+    return {
+      ...status,
+      status: overall,
+      details,
+      metadata: {
+        ...status.metadata,
+        circuitBreaker: circuit,
+        retry: { ...this.config }
+      }
+    };
+  }
+
+
+  /**
+   * Runs a provider call through the circuit breaker and retry policy.
+   * @private
+   */
+  private async execute<T>(operation: string, call: () => Promise<T>): Promise<T> {
+    const isTrial = this.assertCircuitClosed();
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await call();
+          this.breaker.recordSuccess();
+          return result;
+        } catch (error) {
+          const serviceError = toServiceError(error);
+          const delay = this.retryDelay(serviceError, attempt);
+          if (delay === undefined) {
+            this.recordFailure(serviceError);
+            throw serviceError;
+          }
+          console.warn(`[ResilientLLMService] - ${operation} failed (${serviceError.category}), retrying in ${delay}ms (attempt ${attempt + 1}/${this.config.maxRetries})`);
+          await sleep(delay);
+        }
+      }
+    } finally {
+      // Frees a half-open trial call that ended without a verdict on the provider's health
+      if (isTrial) {
+        this.breaker.release();
+      }
+    }
+  }
+
+  /**
+   * Rejects a call while the circuit is open.
+   * @returns Whether the call is the half-open circuit's single trial call.
+   * @private
+   */
+  private assertCircuitClosed(): boolean {
+    const isTrial = this.breaker.getSnapshot().state === 'half_open';
+    if (!this.breaker.canRequest()) {
+      const retryAfterMs = this.breaker.getRetryAfterMs();
+      throw new LLMServiceError(
+        `AI service is temporarily unavailable after repeated failures. Try again in ${Math.ceil(retryAfterMs / 1000)}s.`,
+        'circuit_open',
+        { retryAfterMs }
+      );
+    }
+    return isTrial;
+  }
+
+  /**
+   * Counts a request that failed after all retries against the breaker. Only transient
+   * failures count; a rejected request (400, 401) says nothing about the provider's health.
+   * @private
+   */
+  private recordFailure(error: LLMServiceError): void {
+    if (error.retryable) {
+      this.breaker.recordFailure();
+    } else {
+      // Neither counts as a failure nor resets the failures counted so far
+      this.breaker.release();
+    }
+  }
+
+  /**
+   * Computes the delay before the next attempt, or undefined when the call should not be retried.
+   * @private
+   */
+  private retryDelay(error: LLMServiceError, attempt: number): number | undefined {
+    if (!error.retryable || attempt >= this.config.maxRetries) {
+      return undefined;
+    }
+
+    if (error.retryAfterMs !== undefined) {
+      // Waiting longer than our own ceiling would hold the user's request open too long
+      return error.retryAfterMs <= this.config.maxDelayMs ? error.retryAfterMs : undefined;
+    }
+
+    const ceiling = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+function toServiceError(error: unknown): LLMServiceError {
+  return error instanceof LLMServiceError
+    ? error
+    : new LLMServiceError((error as Error)?.message || 'Unknown AI service error', 'unknown', { cause: error });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
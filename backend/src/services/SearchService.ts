@@ -1,88 +1,237 @@
-import { Product, ProductSearchParams, SearchResult, CompatibilityCheck, TroubleshootingResult, TroubleshootingSymptom } from '../types';
-import { sampleProducts, troubleshootingSymptoms } from '../data/sampleProducts';
+import { ApplianceCategoryId, Catalog, CatalogStore, Product, ProductFilter, ProductSearchParams, SearchResult, SearchFacets, FacetCount, CompatibilityCheck, ModelNumberMatch, ModelPartsGroup, ModelPartsResult, ModelSummary, PartNumberResolution, TroubleshootingResult, TroubleshootingSymptom } from '../types';
+import { editDistance, toTerms } from '../utils/text';
+import { compareModelNumbers, normalizeModelNumber, normalizePartNumber } from '../utils/modelNumber';
+import { compareAvailability, estimateShipping, getEffectivePrice, variantAsProduct } from '../utils/pricing';
+import { InMemoryCatalogStore } from './CatalogStore';
+import { describeApplianceCategories } from '../data/categories';
+
+// Weight of a query term found in each part of a troubleshooting guide
+const SYMPTOM_FIELD_WEIGHTS = {
+  description: 1,
+  causes: 0.6,
+  category: 0.5,
+  steps: 0.3
+};
+// Guides scoring below this are not considered matches at all
+const MIN_SYMPTOM_CONFIDENCE = 0.15;
+const DEFAULT_TROUBLESHOOTING_RESULTS = 3;
+// Price facet buckets; each bucket includes its minimum and excludes its maximum
+const PRICE_BUCKETS: Array<{ label: string; min: number; max?: number }> = [
+  { label: 'Under $25', min: 0, max: 25 },
+  { label: '$25 - $50', min: 25, max: 50 },
+  { label: '$50 - $100', min: 50, max: 100 },
+  { label: '$100 - $200', min: 100, max: 200 },
+  { label: '$200 and up', min: 200 }
+];
+// Appliance subsystems used to group a model's parts; the first rule matching the product name wins
+const SUBSYSTEM_RULES: Array<{ subsystem: string; pattern: RegExp }> = [
+  { subsystem: 'Water & ice', pattern: /\b(filter|ice|water|inlet)\b/i },
+  { subsystem: 'Doors & seals', pattern: /\b(door|seal|gasket|latch|hinge)\b/i },
+  { subsystem: 'Cooling', pattern: /\b(evaporator|condenser|compressor|fan|thermostat|defrost)\b/i },
+  { subsystem: 'Pumps & drainage', pattern: /\b(pump|drain|hose)\b/i },
+  { subsystem: 'Heating', pattern: /\b(heating|heater|element|igniter)\b/i },
+  { subsystem: 'Drive & motion', pattern: /\b(belt|pulley|idler|roller|clutch|coupler|turntable)\b/i },
+  { subsystem: 'Controls & electrical', pattern: /\b(switch|board|control|fuse|diode|sensor|timer|knob)\b/i },
+  { subsystem: 'Racks & interior', pattern: /\b(rack|shelf|bin|drawer|basket|arm)\b/i }
+];
+const OTHER_SUBSYSTEM = 'Other parts';
+const MAX_ALTERNATIVE_PARTS = 3;
+const MAX_MODEL_SUGGESTIONS = 5;
+// Guards against cycles in supersededBy links
+const MAX_SUPERSESSION_DEPTH = 10;
+// Family matches (same model apart from color or revision) at or above this are reported as likely compatible
+const LIKELY_COMPATIBLE_CONFIDENCE = 0.7;
+// Below this, a best match is too uncertain to act on and the user should be asked which problem they mean
+export const CLARIFICATION_CONFIDENCE = 0.6;
 
 /**
- * A service for searching and retrieving product-related information from a static dataset.
- * This service encapsulates all data access logic for products, compatibility, and troubleshooting.
+ * A service for searching and retrieving product-related information from the catalog.
+ * This service encapsulates the search, compatibility and troubleshooting logic; the
+ * catalog store behind it (in memory or SQLite) provides the indexed lookups.
  */
 export class SearchService {
-  private products: Product[];
+  /**
+   * @param store The catalog store to query; defaults to the built-in sample catalog in memory.
+   */
+  constructor(private store: CatalogStore = new InMemoryCatalogStore()) {}
+
+  /**
+   * Replaces the products, keeping the current troubleshooting guides.
+   * @param products The full product catalog.
+   */
+  public setProducts(products: Product[]): void {
+    this.store.replaceCatalog({ products, troubleshootingSymptoms: this.store.getTroubleshootingSymptoms() });
+  }
+
+  /**
+   * Returns the full catalog, in catalog order.
+   */
+  public getCatalog(): Catalog {
+    return { products: this.store.findProducts({}), troubleshootingSymptoms: this.store.getTroubleshootingSymptoms() };
+  }
+
+  /**
+   * Replaces the products and troubleshooting guides together, e.g. after a catalog import.
+   * @param catalog The full catalog.
+   */
+  public setCatalog(catalog: Catalog): void {
+    this.store.replaceCatalog(catalog);
+  }
+
+  /**
+   * Adds a product, or replaces the one with the same id, re-indexing only that product.
+   * @param product The new or changed product.
+   */
+  public saveProduct(product: Product): void {
+    this.store.saveProduct(product);
+  }
+
+  public deleteProduct(id: string): void {
+    this.store.deleteProduct(id);
+  }
+
+  public saveTroubleshootingSymptom(symptom: TroubleshootingSymptom): void {
+    this.store.saveTroubleshootingSymptom(symptom);
+  }
+
+  public deleteTroubleshootingSymptom(id: string): void {
+    this.store.deleteTroubleshootingSymptom(id);
+  }
+
+  /**
+   * Looks up a product by its catalog id (not its part number).
+   */
+  public getProductById(id: string): Product | undefined {
+    return this.store.findProducts({ ids: [id] })[0];
+  }
+
+  /**
+   * Finds the product whose own part number this is; aliases and replaced numbers do not count.
+   */
+  public findProductWithPartNumber(partNumber: string): Product | undefined {
+    const product = this.store.findByPartNumber(partNumber);
+    return product && normalizePartNumber(product.partNumber) === normalizePartNumber(partNumber) ? product : undefined;
+  }
 
-  constructor() {
-    this.products = sampleProducts;
+  public countCatalog(): { products: number; troubleshootingSymptoms: number } {
+    return this.store.count();
   }
 
   /**
    * Searches for products based on a variety of criteria.
    * Prioritizes exact part number matches, then uses a scoring system for relevance.
+   * Facet counts are computed over every matching product, before pagination.
    * @param params The search parameters.
    * @returns A promise that resolves to a SearchResult object.
    */
   public async searchProducts(params: ProductSearchParams): Promise<SearchResult> {
-    const { partNumber, brand, category, priceRange, availability, offset = 0, limit = 10 } = params;
-    let results = [...this.products];
+    const { partNumber, category, priceRange, offset = 0, limit = 10 } = params;
+    const filter: ProductFilter = {};
     const searchTerms: string[] = [];
 
-    // Prioritize exact part number match and return immediately if found
+    // Prioritize exact part number match (following aliases and replacements) and return immediately if found
     if (partNumber) {
       searchTerms.push(`part:${partNumber}`);
-      const exactMatch = results.find(p => this.normalizeString(p.partNumber) === this.normalizeString(partNumber));
-      if (exactMatch) {
+      const resolution = this.resolvePartNumber(partNumber);
+      if (resolution) {
         return {
-          products: [exactMatch],
+          products: [resolution.product],
           totalCount: 1,
           searchTerms,
-          suggestions: []
+          suggestions: [],
+          notices: resolution.message ? [resolution.message] : [],
+          facets: this.buildFacets([resolution.product])
         };
       }
     }
 
-    // Apply filters based on other parameters
+    // Build the filters the catalog store applies
     if (category) {
-      results = results.filter(p => p.category === category);
+      filter.category = category;
       searchTerms.push(`category:${category}`);
     }
 
-    if (brand) {
-      results = results.filter(p => this.normalizeString(p.brand).includes(this.normalizeString(brand)));
-      searchTerms.push(`brand:${brand}`);
+    const brands = toList(params.brand);
+    if (brands.length > 0) {
+      filter.brands = brands;
+      searchTerms.push(`brand:${brands.join('|')}`);
     }
 
-    if (priceRange) {
-      results = results.filter(p => p.price >= priceRange.min && p.price <= priceRange.max);
-      searchTerms.push(`price:${priceRange.min}-${priceRange.max}`);
+    if (priceRange && (priceRange.min !== undefined || priceRange.max !== undefined)) {
+      const { min = 0, max = Infinity } = priceRange;
+      filter.priceRange = priceRange;
+      searchTerms.push(`price:${min}-${max === Infinity ? '' : max}`);
+    }
+
+    const availability = toList(params.availability);
+    if (availability.length > 0) {
+      filter.availability = availability;
+      searchTerms.push(`availability:${availability.join('|')}`);
+    }
+
+    const difficulty = toList(params.difficulty);
+    if (difficulty.length > 0) {
+      filter.difficulty = difficulty;
+      searchTerms.push(`difficulty:${difficulty.join('|')}`);
+    }
+
+    // Free-text queries are ranked by the store's index; products that match no query term are dropped
+    let textScores: Map<string, number> | undefined;
+    let corrections: Record<string, string> = {};
+    const suggestions: string[] = [];
+    const notices: string[] = [];
+    if (params.query && params.query.trim()) {
+      searchTerms.push(`query:${params.query}`);
+      notices.push(...this.describeReplacedNumbers(params.query));
+      ({ scores: textScores, corrections } = this.store.searchText(params.query));
+      filter.ids = Array.from(textScores.keys());
+    }
+
+    // Parts that have been replaced are represented by their replacement
+    let results = this.store.findProducts(filter).filter(p => !this.isReplaced(p));
+
+    const { modelNumber } = params;
+    if (modelNumber) {
+      searchTerms.push(`model:${modelNumber}`);
+      results = results.filter(p => this.bestModelMatch(p, modelNumber).confidence >= LIKELY_COMPATIBLE_CONFIDENCE);
     }
 
-    if (availability) {
-      results = results.filter(p => p.availability === availability);
-      searchTerms.push(`availability:${availability}`);
+    const corrected = Object.entries(corrections);
+    if (corrected.length > 0 && results.length > 0) {
+      suggestions.push(`Showing results for ${corrected.map(([term, correction]) => `"${correction}" (instead of "${term}")`).join(', ')}.`);
     }
 
-    // Use relevance scoring for the remaining results
-    const scoredResults = this.scoreAndSortResults(results, params);
+    const scoredResults = this.scoreAndSortResults(results, params, textScores);
     const paginatedResults = scoredResults.slice(offset, offset + limit);
 
-    const suggestions = scoredResults.length === 0 ? this.generateSuggestions(params) : [];
+    if (scoredResults.length === 0) {
+      suggestions.push(...this.generateSuggestions(params));
+    }
 
     return {
       products: paginatedResults,
       totalCount: scoredResults.length,
       searchTerms,
-      suggestions
+      suggestions,
+      notices,
+      facets: this.buildFacets(scoredResults)
     };
   }
 
   /**
-   * Checks the compatibility between a part and a model number.
+   * Checks the compatibility between a part and a model number. Besides exact matches, a model
+   * in the same family as a listed model (differing only in color code or revision) is reported
+   * as likely compatible, with a graded confidence and a reason naming the segment that differed.
+   * The result says when the part ships; a compatible part that is not in stock comes with
+   * in-stock equivalents.
    * @param partNumber The part number to check.
    * @param modelNumber The model number to check against.
    * @returns A promise that resolves to a CompatibilityCheck object.
    */
   public async checkCompatibility(partNumber: string, modelNumber: string): Promise<CompatibilityCheck> {
-    const part = this.products.find(p => this.normalizeString(p.partNumber) === this.normalizeString(partNumber));
-    const normalizedModelNumber = this.normalizeModel(modelNumber);
+    const resolution = this.resolvePartNumber(partNumber);
 
-    if (!part) {
+    if (!resolution) {
       return {
         partNumber,
         modelNumber,
@@ -93,60 +242,248 @@ export class SearchService {
       };
     }
 
-    const isCompatible = part.compatibleModels.some(model => this.normalizeModel(model) === normalizedModelNumber);
+    const part = resolution.product;
+    const match = this.bestModelMatch(part, modelNumber);
+    // An alias or replaced number is checked as the current part, and the reason says so
+    const replacement = resolution.relation === 'exact' || resolution.relation === 'variant' ? {} : { resolvedPartNumber: part.partNumber };
+    const note = resolution.message ? `${resolution.message} ` : '';
+
+    const shipping = estimateShipping(part);
 
-    if (isCompatible) {
+    if (match.confidence >= LIKELY_COMPATIBLE_CONFIDENCE) {
+      // A part that fits but cannot ship now comes with in-stock equivalents
+      const equivalents = part.availability === 'in-stock' ? [] : this.findInStockEquivalents(part, modelNumber);
       return {
         partNumber,
         modelNumber,
         isCompatible: true,
-        confidence: 1.0,
-        reason: `Part ${partNumber} is confirmed compatible with model ${modelNumber}.`
+        confidence: match.type === 'exact' ? 1.0 : match.confidence,
+        reason: match.type === 'exact'
+          ? `${note}Part ${part.partNumber} is confirmed compatible with model ${modelNumber}.`
+          : `${note}Part ${part.partNumber} is listed for model ${match.model}. ${match.reason}`,
+        matchType: match.type,
+        matchedModel: match.model,
+        ...replacement,
+        shipping,
+        ...(equivalents.length > 0 && { alternativeParts: equivalents })
       };
     }
 
-    const alternativeParts = this.products
-      .filter(p => p.category === part.category && p.compatibleModels.some(model => this.normalizeModel(model) === normalizedModelNumber))
-      .slice(0, 3);
+    // Alternatives, including their variants, that can ship soonest come first, then the cheapest
+    const alternativeParts = this.store.findProducts({ category: part.category })
+      .filter(p => !this.isReplaced(p) && this.bestModelMatch(p, modelNumber).confidence >= LIKELY_COMPATIBLE_CONFIDENCE)
+      .flatMap(p => [p, ...(p.variants || []).map(variant => variantAsProduct(p, variant))])
+      .sort((a, b) => compareAvailability(a, b) || getEffectivePrice(a) - getEffectivePrice(b))
+      .slice(0, MAX_ALTERNATIVE_PARTS);
 
     return {
       partNumber,
       modelNumber,
       isCompatible: false,
-      confidence: 0,
-      reason: `Part ${partNumber} is not compatible with model ${modelNumber}.`,
+      confidence: match.confidence,
+      reason: note + (match.type === 'series' ? match.reason : `Part ${part.partNumber} is not compatible with model ${modelNumber}.`),
+      matchType: match.type,
+      matchedModel: match.type === 'series' ? match.model : undefined,
+      ...replacement,
+      shipping,
       alternativeParts
     };
   }
 
   /**
-   * Retrieves a product by its part number.
+   * Finds in-stock parts that can stand in for one that is not in stock: the part's own
+   * variants first (another finish, or an aftermarket equivalent), then other parts for the
+   * same subsystem that fit the model, cheapest first.
+   * @private
+   */
+  private findInStockEquivalents(part: Product, modelNumber: string): Product[] {
+    // When the part is a variant, this finds the product it belongs to
+    const base = this.store.findByPartNumber(part.partNumber) || part;
+    const variants = [base, ...(base.variants || []).map(variant => variantAsProduct(base, variant))]
+      .filter(candidate => candidate.partNumber !== part.partNumber && candidate.availability === 'in-stock');
+
+    const subsystem = this.subsystemOf(part);
+    const others = this.store.findProducts({ category: part.category, availability: ['in-stock'] })
+      .filter(p =>
+        p.id !== base.id &&
+        !this.isReplaced(p) &&
+        this.subsystemOf(p) === subsystem &&
+        this.bestModelMatch(p, modelNumber).confidence >= LIKELY_COMPATIBLE_CONFIDENCE
+      );
+
+    return [
+      ...variants.sort((a, b) => getEffectivePrice(a) - getEffectivePrice(b)),
+      ...others.sort((a, b) => getEffectivePrice(a) - getEffectivePrice(b))
+    ].slice(0, MAX_ALTERNATIVE_PARTS);
+  }
+
+  /**
+   * Lists every part known to fit an appliance model, grouped by subsystem. When the model
+   * is unknown, similar model numbers from the catalog are suggested instead.
+   * @param modelNumber The appliance model number.
+   * @param category Optionally restricts the parts to one appliance category.
+   * @returns A promise that resolves to a ModelPartsResult object.
+   */
+  public async getPartsForModel(modelNumber: string, category?: ApplianceCategoryId): Promise<ModelPartsResult> {
+    const entry = this.store.findByModel(modelNumber);
+
+    if (!entry) {
+      return { modelNumber, found: false, totalCount: 0, groups: [], suggestions: this.suggestModels(modelNumber) };
+    }
+
+    const products = entry.products.filter(p => !category || p.category === category);
+    const groups = new Map<string, ModelPartsGroup>();
+    for (const product of products) {
+      const subsystem = this.subsystemOf(product);
+      const key = `${product.category}:${subsystem}`;
+      const group = groups.get(key) || { subsystem, category: product.category, products: [] };
+      group.products.push(product);
+      groups.set(key, group);
+    }
+
+    return {
+      modelNumber: entry.modelNumber,
+      found: true,
+      totalCount: products.length,
+      groups: Array.from(groups.values()).sort((a, b) => b.products.length - a.products.length || a.subsystem.localeCompare(b.subsystem)),
+      suggestions: []
+    };
+  }
+
+  /**
+   * Says what the catalog knows about an appliance model: the brand and appliance type of
+   * the parts listed for it.
+   * @param modelNumber The appliance model number.
+   * @returns The model's brand and category, or null when no part lists the model.
+   */
+  public describeModel(modelNumber: string): ModelSummary | null {
+    const entry = this.store.findByModel(modelNumber);
+    if (!entry || entry.products.length === 0) {
+      return null;
+    }
+    return {
+      modelNumber: entry.modelNumber,
+      brand: mostCommon(entry.products.map(p => p.brand)),
+      category: mostCommon(entry.products.map(p => p.category))
+    };
+  }
+
+  /**
+   * Retrieves a product by its part number. Aliases and replaced part numbers return the current part.
    * @param partNumber The part number to look up.
    * @returns A promise that resolves to the Product object or null if not found.
    */
   public async getProductByPartNumber(partNumber: string): Promise<Product | null> {
-    return this.products.find(p => this.normalizeString(p.partNumber) === this.normalizeString(partNumber)) || null;
+    return this.resolvePartNumber(partNumber)?.product || null;
+  }
+
+  /**
+   * Matches a part number to the current catalog part: directly, through one of the part's
+   * aliases, or by following replacements ("W10348269 has been replaced by WPW10348269").
+   * A variant's number resolves to the variant, presented as a part of its own.
+   * @param partNumber The part number to look up.
+   * @returns The resolution, or null if the number is unknown.
+   */
+  public resolvePartNumber(partNumber: string): PartNumberResolution | null {
+    let product = this.store.findByPartNumber(partNumber);
+    let relation: PartNumberResolution['relation'] = 'exact';
+    const chain = [partNumber];
+
+    if (product && normalizePartNumber(product.partNumber) !== normalizePartNumber(partNumber)) {
+      relation = 'alias';
+      // A variant keeps its own number, price and availability
+      const variant = product.variants?.find(candidate => normalizePartNumber(candidate.partNumber) === normalizePartNumber(partNumber));
+      if (variant) {
+        return {
+          requestedPartNumber: partNumber,
+          product: variantAsProduct(product, variant),
+          relation: 'variant',
+          variant,
+          chain,
+          message: `${variant.partNumber} is the ${variant.name} variant of ${product.partNumber}.`
+        };
+      }
+    } else if (!product) {
+      product = this.store.findBySupersededNumber(partNumber);
+      relation = 'superseded';
+    }
+    if (!product) {
+      return null;
+    }
+    if (relation === 'superseded') {
+      chain.push(product.partNumber);
+    }
+
+    // The matched part may itself have been replaced since
+    while (product.supersededBy && chain.length <= MAX_SUPERSESSION_DEPTH) {
+      const replacement = product.supersededBy;
+      const next = this.findPart(replacement);
+      if (!next || next.partNumber === product.partNumber || chain.includes(next.partNumber)) {
+        break;
+      }
+      // The replacement may be listed under an older number of its own
+      if (normalizePartNumber(next.partNumber) !== normalizePartNumber(replacement)) {
+        chain.push(replacement);
+      }
+      product = next;
+      relation = 'superseded';
+      chain.push(next.partNumber);
+    }
+
+    let message: string | undefined;
+    if (relation === 'superseded') {
+      message = chain.length > 2
+        ? `${partNumber} has been replaced by ${product.partNumber} (via ${chain.slice(1, -1).join(', ')}).`
+        : `${partNumber} has been replaced by ${product.partNumber}.`;
+    } else if (relation === 'alias') {
+      message = `${partNumber} is another part number for ${product.partNumber}.`;
+    }
+
+    return { requestedPartNumber: partNumber, product, relation, chain, message };
+  }
+
+  /**
+   * Retrieves a troubleshooting guide by its id.
+   * @param symptomId The troubleshooting symptom id, e.g. 'dishwasher-not-draining'.
+   * @returns A promise that resolves to the symptom or null if not found.
+   */
+  public async getTroubleshootingSymptom(symptomId: string): Promise<TroubleshootingSymptom | null> {
+    return this.store.getTroubleshootingSymptom(symptomId) || null;
+  }
+
+  /**
+   * Lists the available troubleshooting guides.
+   * @param category Optionally restricts the list to one appliance category.
+   * @returns A promise that resolves to the matching symptoms.
+   */
+  public async getTroubleshootingSymptoms(category?: ApplianceCategoryId): Promise<TroubleshootingSymptom[]> {
+    return this.store.getTroubleshootingSymptoms(category);
   }
 
   /**
    * Searches for troubleshooting information based on a symptom and category.
+   * The description is matched term by term (stemmed, with synonyms folded together) against
+   * each guide's description, common causes and diagnostic steps, and every result carries a
+   * confidence score so callers can ask for clarification on weak matches.
    * @param symptom The user-provided symptom.
    * @param category The appliance category.
-   * @returns A promise that resolves to an array of TroubleshootingResult objects.
+   * @param limit The maximum number of candidates to return.
+   * @returns A promise that resolves to an array of TroubleshootingResult objects, best match first.
    */
-  public async searchTroubleshooting(symptom: string, category?: 'refrigerator' | 'dishwasher'): Promise<TroubleshootingResult[]> {
-    const normalizedSymptom = this.normalizeString(symptom);
+  public async searchTroubleshooting(symptom: string, category?: ApplianceCategoryId, limit = DEFAULT_TROUBLESHOOTING_RESULTS): Promise<TroubleshootingResult[]> {
+    const queryTerms = toTerms(symptom);
+    if (queryTerms.length === 0) {
+      return [];
+    }
 
-    const matchingSymptoms = troubleshootingSymptoms.filter(ts => {
-      const matchesCategory = !category || ts.category === category;
-      const matchesDescription = this.normalizeString(ts.description).includes(normalizedSymptom);
-      const matchesCauses = ts.commonCauses.some(cause => this.normalizeString(cause).includes(normalizedSymptom));
-      return matchesCategory && (matchesDescription || matchesCauses);
-    });
+    const matches = this.store.getTroubleshootingSymptoms(category)
+      .map(ts => ({ symptom: ts, ...this.scoreSymptom(ts, queryTerms) }))
+      .filter(match => match.confidence >= MIN_SYMPTOM_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, limit);
 
     const results = await Promise.all(
-      matchingSymptoms.map(async ts => {
-        // Corrected line to handle `undefined`
+      matches.map(async ({ symptom: ts, confidence, matchedTerms }) => {
         const recommendedParts = await Promise.all(
           (ts.recommendedParts || []).map(partNumber => this.getProductByPartNumber(partNumber))
         );
@@ -156,7 +493,9 @@ export class SearchService {
           suggestedSteps: ts.diagnosticSteps,
           recommendedParts: recommendedParts.filter((p): p is Product => p !== null),
           shouldContactProfessional: this.shouldContactProfessional(ts),
-          reason: this.getProfessionalContactReason(ts)
+          reason: this.getProfessionalContactReason(ts),
+          confidence,
+          matchedTerms
         };
       })
     );
@@ -195,29 +534,41 @@ export class SearchService {
 
   /**
    * Scores and sorts products based on relevance to the search parameters.
+   * The full-text score from the index comes first; part number, brand and stock
+   * bonuses order products the text scores cannot separate. Price (today's price, after
+   * any sale), install time and availability orderings fall back to relevance for ties.
    * @private
    */
-  private scoreAndSortResults(products: Product[], params: ProductSearchParams): Product[] {
-    const { query, brand, partNumber } = params;
+  private scoreAndSortResults(products: Product[], params: ProductSearchParams, textScores?: Map<string, number>): Product[] {
+    const { partNumber, sort = 'relevance' } = params;
+    const brands = toList(params.brand);
+
+    const byRelevance = (a: { textScore: number; score: number }, b: { textScore: number; score: number }) =>
+      b.textScore - a.textScore || b.score - a.score;
+    const orderings: Record<string, (a: { product: Product }, b: { product: Product }) => number> = {
+      price_asc: (a, b) => getEffectivePrice(a.product) - getEffectivePrice(b.product),
+      price_desc: (a, b) => getEffectivePrice(b.product) - getEffectivePrice(a.product),
+      install_time: (a, b) => a.product.estimatedInstallTime - b.product.estimatedInstallTime,
+      availability: (a, b) => compareAvailability(a.product, b.product)
+    };
 
     return products
       .map(product => ({
         product,
-        score: this.calculateRelevanceScore(product, query, brand, partNumber)
+        textScore: textScores?.get(product.id) || 0,
+        score: this.calculateRelevanceScore(product, brands, partNumber)
       }))
-      .sort((a, b) => b.score - a.score)
+      .sort((a, b) => (orderings[sort]?.(a, b) || 0) || byRelevance(a, b))
       .map(item => item.product);
   }
 
   /**
-   * Calculates a relevance score for a product based on search terms.
+   * Calculates a relevance score for a product from the structured search parameters.
    * @private
    */
-  private calculateRelevanceScore(product: Product, query?: string, brand?: string, partNumber?: string): number {
+  private calculateRelevanceScore(product: Product, brands: string[], partNumber?: string): number {
     let score = 0;
     const normProductNumber = this.normalizeString(product.partNumber);
-    const normProductName = this.normalizeString(product.name);
-    const normProductDesc = this.normalizeString(product.description);
 
     if (partNumber) {
       const normPartNumber = this.normalizeString(partNumber);
@@ -229,17 +580,7 @@ export class SearchService {
       }
     }
 
-    if (query) {
-      const normQuery = this.normalizeString(query);
-      if (normProductName.includes(normQuery)) {
-        score += 100;
-      }
-      if (normProductDesc.includes(normQuery)) {
-        score += 50;
-      }
-    }
-
-    if (brand && this.normalizeString(product.brand).includes(this.normalizeString(brand))) {
+    if (brands.some(brand => this.normalizeString(product.brand).includes(this.normalizeString(brand)))) {
       score += 200;
     }
 
@@ -250,6 +591,118 @@ export class SearchService {
     return score;
   }
 
+  /**
+   * The appliance subsystem a part belongs to, from its name.
+   * @private
+   */
+  private subsystemOf(product: Product): string {
+    return SUBSYSTEM_RULES.find(rule => rule.pattern.test(product.name))?.subsystem || OTHER_SUBSYSTEM;
+  }
+
+  /**
+   * Whether a newer part in the catalog replaces this one.
+   * @private
+   */
+  private isReplaced(product: Product): boolean {
+    return product.supersededBy !== undefined && this.findPart(product.supersededBy) !== undefined;
+  }
+
+  /**
+   * Looks up a part by its number, an alias, or a number it replaced.
+   * @private
+   */
+  private findPart(partNumber: string): Product | undefined {
+    return this.store.findByPartNumber(partNumber) || this.store.findBySupersededNumber(partNumber);
+  }
+
+  /**
+   * Explains any words of a free-text query that are replaced or alias part numbers.
+   * @private
+   */
+  private describeReplacedNumbers(query: string): string[] {
+    return query
+      .split(/\s+/)
+      .filter(word => /\d/.test(word))
+      .flatMap(word => this.resolvePartNumber(word.replace(/[^A-Za-z0-9-]/g, ''))?.message || []);
+  }
+
+  /**
+   * Finds the listed model that best matches the given model number.
+   * @private
+   */
+  private bestModelMatch(product: Product, modelNumber: string): ModelNumberMatch & { model?: string } {
+    let best: ModelNumberMatch & { model?: string } = { type: 'none', confidence: 0, reason: '' };
+    for (const model of product.compatibleModels) {
+      const match = compareModelNumbers(modelNumber, model);
+      if (match.confidence > best.confidence) {
+        best = { ...match, model };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Finds known model numbers that start with the given one (a truncated model number)
+   * or are within a couple of typos of it.
+   * @private
+   */
+  private suggestModels(modelNumber: string): string[] {
+    const normalized = normalizeModelNumber(modelNumber);
+    if (normalized.length < 3) {
+      return [];
+    }
+
+    return this.store.listModelNumbers()
+      .map(model => {
+        const key = normalizeModelNumber(model);
+        return { modelNumber: model, distance: key.startsWith(normalized) ? 0 : editDistance(normalized, key, 2) };
+      })
+      .filter(candidate => candidate.distance <= 2)
+      .sort((a, b) => a.distance - b.distance || a.modelNumber.localeCompare(b.modelNumber))
+      .slice(0, MAX_MODEL_SUGGESTIONS)
+      .map(candidate => candidate.modelNumber);
+  }
+
+  /**
+   * Counts the matching products per category, brand, availability, price bucket,
+   * installation difficulty and model family. Values are ordered by count, then name.
+   * @private
+   */
+  private buildFacets(products: Product[]): SearchFacets {
+    const count = (values: string[]): FacetCount[] => {
+      const counts = new Map<string, number>();
+      for (const value of values) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+      return Array.from(counts.entries())
+        .map(([value, total]) => ({ value, count: total }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    };
+
+    return {
+      category: count(products.map(p => p.category)),
+      brand: count(products.map(p => p.brand)),
+      availability: count(products.map(p => p.availability)),
+      price: PRICE_BUCKETS
+        .map(bucket => ({
+          ...bucket,
+          count: products.map(p => getEffectivePrice(p)).filter(price => price >= bucket.min && (bucket.max === undefined || price < bucket.max)).length
+        }))
+        .filter(bucket => bucket.count > 0),
+      difficulty: count(products.map(p => p.installationDifficulty)),
+      // A product is counted once per family even when it fits several models in it
+      modelFamily: count(products.flatMap(p => Array.from(new Set(p.compatibleModels.map(model => this.modelFamily(model))))))
+    };
+  }
+
+  /**
+   * Reduces a model number to its series prefix, e.g. 'WDT780SAEM1' -> 'WDT'.
+   * @private
+   */
+  private modelFamily(model: string): string {
+    return model.toUpperCase().match(/^[A-Z]+/)?.[0] || model.toUpperCase();
+  }
+
   /**
    * Generates search suggestions for when no results are found.
    * @private
@@ -267,7 +720,7 @@ export class SearchService {
       suggestions.push('Search by brand name (Whirlpool, GE, etc.).');
     }
 
-    suggestions.push('Try browsing by category (refrigerator or dishwasher).');
+    suggestions.push(`Try browsing by category (${describeApplianceCategories().replace(/ and (\w+)$/, ' or $1')}).`);
 
     return suggestions;
   }
@@ -281,11 +734,39 @@ export class SearchService {
   }
 
   /**
-   * Normalizes a model number to handle common variations.
+   * Scores how well a troubleshooting guide matches the user's terms. Confidence blends how much
+   * of the user's description the guide explains with how much of the guide's own description
+   * the user mentioned, so a specific match outranks one that only shares the appliance type.
    * @private
    */
-  private normalizeModel(model: string): string {
-    return this.normalizeString(model.replace(/-\d+$/, '')); // Removes trailing digits after a dash, e.g., 'W123456-7' -> 'W123456'
+  private scoreSymptom(symptom: TroubleshootingSymptom, queryTerms: string[]): { confidence: number; matchedTerms: string[] } {
+    const descriptionTerms = toTerms(symptom.description);
+    const fields: Array<[Set<string>, number]> = [
+      [new Set(descriptionTerms), SYMPTOM_FIELD_WEIGHTS.description],
+      [new Set(symptom.commonCauses.flatMap(cause => toTerms(cause))), SYMPTOM_FIELD_WEIGHTS.causes],
+      [new Set(toTerms(symptom.category)), SYMPTOM_FIELD_WEIGHTS.category],
+      [new Set(symptom.diagnosticSteps.flatMap(step => toTerms(step.description))), SYMPTOM_FIELD_WEIGHTS.steps]
+    ];
+
+    let queryScore = 0;
+    const matchedTerms: string[] = [];
+    for (const term of queryTerms) {
+      const weight = Math.max(0, ...fields.filter(([terms]) => terms.has(term)).map(([, fieldWeight]) => fieldWeight));
+      if (weight > 0) {
+        queryScore += weight;
+        matchedTerms.push(term);
+      }
+    }
+
+    const queryCoverage = queryScore / queryTerms.length;
+    const descriptionCoverage = descriptionTerms.length > 0
+      ? descriptionTerms.filter(term => queryTerms.includes(term)).length / descriptionTerms.length
+      : 0;
+
+    return {
+      confidence: Math.round((0.7 * queryCoverage + 0.3 * descriptionCoverage) * 100) / 100,
+      matchedTerms
+    };
   }
 
   /**
@@ -309,4 +790,31 @@ export class SearchService {
     }
     return undefined;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Normalizes a single-or-multi-valued filter to a list. Strings may hold several
+ * comma-separated values, e.g. 'GE,Whirlpool'.
+ */
+function toList<T extends string>(value?: T | T[]): T[] {
+  if (!value) {
+    return [];
+  }
+  const values = Array.isArray(value) ? value : (value.split(',') as T[]);
+  return values.map(item => item.trim() as T).filter(Boolean);
+}
+
+/**
+ * The value that occurs most often in a list; ties go to the value seen first.
+ */
+function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  let best: T | undefined;
+  for (const [value, count] of counts) {
+    if (best === undefined || count > (counts.get(best) || 0)) {
+      best = value;
+    }
+  }
+  return best;
+}
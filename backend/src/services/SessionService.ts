@@ -0,0 +1,203 @@
+import { randomUUID } from 'crypto';
+import { ChatMessage, ConversationSession, ReasoningStep, SessionStore, UsageSummary } from '../types';
+import { addUsage } from './UsageTracker';
+import { KeyedQueue } from '../utils/keyedQueue';
+
+interface SessionServiceConfig {
+  ttlMs?: number;
+  maxMessages?: number;
+  maxReferences?: number;
+}
+
+/**
+ * A service that manages server-side conversation sessions on top of a SessionStore.
+ * It owns session lifecycle (creation, TTL refresh, history trimming) and tracks the
+ * part and model numbers mentioned so follow-up questions can be resolved.
+ *
+ * Sessions are not tied to an account: anyone holding a session id can read and
+ * delete its history, so the id is a bearer secret and must be unguessable.
+ */
+export class SessionService {
+  private config: Required<SessionServiceConfig>;
+  // Updates of one session are applied one at a time, each to the latest stored version
+  private updates = new KeyedQueue();
+  private turns = new KeyedQueue();
+
+  constructor(private store: SessionStore, config: SessionServiceConfig = {}) {
+    this.config = {
+      ttlMs: config.ttlMs || 60 * 60 * 1000,
+      maxMessages: config.maxMessages || 20,
+      maxReferences: config.maxReferences || 5
+    };
+  }
+
+  /**
+   * Loads an existing, unexpired session or starts a new one.
+   * @param sessionId The client-provided session id; a new id is generated when omitted.
+   * @returns A promise that resolves to the session.
+   */
+  public async getOrCreate(sessionId?: string): Promise<ConversationSession> {
+    if (sessionId) {
+      const existing = await this.store.get(sessionId);
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const now = new Date();
+    return {
+      id: sessionId || this.generateSessionId(),
+      messages: [],
+      lastPartNumbers: [],
+      lastModelNumbers: [],
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: new Date(now.getTime() + this.config.ttlMs)
+    };
+  }
+
+  /**
+   * Runs a conversational turn against the latest stored version of a session.
+   * Turns of the same session run one at a time, so each one starts from the history
+   * and token usage recorded by the turn before it and cannot slip past a budget check
+   * that an overlapping turn is about to exhaust.
+   * @param sessionId The client-provided session id; a new session is started when omitted.
+   * @param turn Answers the turn for the loaded session.
+   * @returns A promise that resolves to the turn's result.
+   */
+  public async runTurn<T>(sessionId: string | undefined, turn: (session: ConversationSession) => Promise<T>): Promise<T> {
+    if (!sessionId) {
+      return turn(await this.getOrCreate());
+    }
+    return this.turns.run(sessionId, async () => turn(await this.getOrCreate(sessionId)));
+  }
+
+  public async get(sessionId: string): Promise<ConversationSession | null> {
+    return this.store.get(sessionId);
+  }
+
+  public async delete(sessionId: string): Promise<void> {
+    await this.store.delete(sessionId);
+  }
+
+  public async purgeExpired(): Promise<number> {
+    return this.store.purgeExpired();
+  }
+
+  /**
+   * Builds the context the agent should see for a session: the stored history,
+   * preceded by a system note listing the parts and models discussed so far.
+   * @param session The conversation session.
+   * @returns The chat messages to pass to the agent.
+   */
+  public buildContext(session: ConversationSession): ChatMessage[] {
+    const context = [...session.messages];
+
+    const references: string[] = [];
+    if (session.lastPartNumbers.length > 0) {
+      references.push(`part numbers: ${session.lastPartNumbers.join(', ')}`);
+    }
+    if (session.lastModelNumbers.length > 0) {
+      references.push(`model numbers: ${session.lastModelNumbers.join(', ')}`);
+    }
+
+    if (references.length > 0) {
+      context.unshift({
+        id: `ctx_${session.id}`,
+        role: 'system',
+        content: `Mentioned earlier in this conversation (most recent first) - ${references.join('; ')}.`,
+        timestamp: session.updatedAt
+      });
+    }
+
+    return context;
+  }
+
+  /**
+   * Appends a completed user/assistant exchange to the session, updates the
+   * remembered part and model numbers and token usage, refreshes the TTL and persists it.
+   * The exchange is added to the latest stored version of the session, so turns that
+   * overlap do not drop each other's messages.
+   * @param session The conversation session, as loaded at the start of the turn.
+   * @param userMessage The user's message.
+   * @param assistantMessage The agent's reply.
+   * @param reasoning The reasoning steps produced while answering.
+   */
+  public async recordTurn(
+    session: ConversationSession,
+    userMessage: ChatMessage,
+    assistantMessage: ChatMessage,
+    reasoning: ReasoningStep[] = []
+  ): Promise<ConversationSession> {
+    const partNumbers: string[] = [];
+    const modelNumbers: string[] = [];
+
+    for (const step of reasoning) {
+      if (step.type === 'action' && step.parameters) {
+        if (typeof step.parameters.partNumber === 'string') partNumbers.push(step.parameters.partNumber);
+        if (typeof step.parameters.modelNumber === 'string') modelNumbers.push(step.parameters.modelNumber);
+      }
+    }
+    // Only the top results are likely to be what "it" or "that one" refers to next turn
+    for (const product of (assistantMessage.metadata?.products || []).slice(0, 3)) {
+      partNumbers.push(product.partNumber);
+    }
+
+    const turnUsage = assistantMessage.metadata?.usage;
+    return this.update(session, latest => {
+      const now = new Date();
+      return {
+        ...latest,
+        usage: turnUsage ? addUsage(latest.usage, turnUsage) : latest.usage,
+        messages: [...latest.messages, userMessage, assistantMessage].slice(-this.config.maxMessages),
+        lastPartNumbers: this.mergeReferences(partNumbers, latest.lastPartNumbers),
+        lastModelNumbers: this.mergeReferences(modelNumbers, latest.lastModelNumbers),
+        updatedAt: now,
+        expiresAt: new Date(now.getTime() + this.config.ttlMs)
+      };
+    });
+  }
+
+  /**
+   * Adds the token usage of a turn that failed, so it still counts towards the session's budget.
+   * @param session The conversation session.
+   * @param usage The usage of the LLM calls made before the failure.
+   */
+  public async recordUsage(session: ConversationSession, usage: UsageSummary): Promise<ConversationSession> {
+    return this.update(session, latest => ({ ...latest, usage: addUsage(latest.usage, usage) }));
+  }
+
+  /**
+   * Applies a change to the latest stored version of a session (or to the given one when it
+   * has not been stored yet) and saves it, one change per session at a time.
+   * @private
+   */
+  private update(session: ConversationSession, change: (latest: ConversationSession) => ConversationSession): Promise<ConversationSession> {
+    return this.updates.run(session.id, async () => {
+      const updated = change((await this.store.get(session.id)) || session);
+      await this.store.save(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Puts newly mentioned references first, de-duplicated case-insensitively.
+   * @private
+   */
+  private mergeReferences(latest: string[], previous: string[]): string[] {
+    const merged: string[] = [];
+    const seen = new Set<string>();
+    for (const reference of [...latest, ...previous]) {
+      const key = reference.trim().toUpperCase();
+      if (key && !seen.has(key)) {
+        seen.add(key);
+        merged.push(key);
+      }
+    }
+    return merged.slice(0, this.config.maxReferences);
+  }
+
+  private generateSessionId(): string {
+    return `session_${randomUUID()}`;
+  }
+}
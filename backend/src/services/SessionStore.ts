@@ -0,0 +1,206 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ApplianceProfile, ApplianceProfileStore, Cart, CartStore, ConversationSession, DiagnosticSession, ExpiringRecord, RecordStore, SessionStore } from '../types';
+
+/**
+ * A store that keeps expiring records in process memory.
+ * Records are lost on restart, which is acceptable for single-instance deployments.
+ */
+export class InMemoryRecordStore<T extends ExpiringRecord> implements RecordStore<T> {
+  protected records = new Map<string, T>();
+
+  public async get(id: string): Promise<T | null> {
+    const record = this.records.get(id);
+    if (!record) {
+      return null;
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      this.records.delete(id);
+      return null;
+    }
+
+    return record;
+  }
+
+  public async save(record: T): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  public async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  public async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+    for (const [id, record] of this.records.entries()) {
+      if (record.expiresAt.getTime() <= now) {
+        this.records.delete(id);
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+/**
+ * A store that persists expiring records to a single JSON file so they survive
+ * restarts. Records are cached in memory and the file is rewritten atomically
+ * (write to a temp file, then rename) after every change.
+ */
+export class FileRecordStore<T extends ExpiringRecord> extends InMemoryRecordStore<T> {
+  private loaded: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath The JSON file to load from and persist to.
+   * @param revive Restores values JSON cannot represent (such as dates) on load.
+   */
+  constructor(private readonly filePath: string, private readonly revive: (record: T) => T) {
+    super();
+  }
+
+  public async get(id: string): Promise<T | null> {
+    await this.ensureLoaded();
+    const existed = this.records.has(id);
+    const record = await super.get(id);
+    if (existed && !record) {
+      // Dropping an expired record can be retried on the next write, so a failure here is not the reader's problem
+      await this.persist().catch(error => {
+        console.error(`[FileRecordStore] - Failed to persist records to ${this.filePath}:`, error);
+      });
+    }
+    return record;
+  }
+
+  public async save(record: T): Promise<void> {
+    await this.ensureLoaded();
+    await super.save(record);
+    await this.persist();
+  }
+
+  public async delete(id: string): Promise<void> {
+    await this.ensureLoaded();
+    await super.delete(id);
+    await this.persist();
+  }
+
+  public async purgeExpired(): Promise<number> {
+    await this.ensureLoaded();
+    const purged = await super.purgeExpired();
+    if (purged > 0) {
+      await this.persist();
+    }
+    return purged;
+  }
+
+  /**
+   * Loads the file once, reviving serialized values.
+   * @private
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const raw = await fs.readFile(this.filePath, 'utf8');
+          const stored = JSON.parse(raw) as Record<string, T>;
+          for (const record of Object.values(stored)) {
+            const revived = this.revive(record);
+            this.records.set(revived.id, revived);
+          }
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error(`[FileRecordStore] - Failed to load records from ${this.filePath}:`, error);
+          }
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Serializes writes so concurrent requests cannot interleave partial files.
+   * A failed write rejects for its caller but does not block the writes queued after it.
+   * @private
+   */
+  private persist(): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(this.records)), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * A session store that keeps conversations in process memory.
+ */
+export class InMemorySessionStore extends InMemoryRecordStore<ConversationSession> implements SessionStore {}
+
+/**
+ * A session store that persists conversations to a JSON file.
+ */
+export class FileSessionStore extends FileRecordStore<ConversationSession> implements SessionStore {
+  constructor(filePath: string) {
+    super(filePath, session => ({
+      ...session,
+      messages: session.messages.map(message => ({ ...message, timestamp: new Date(message.timestamp) })),
+      createdAt: new Date(session.createdAt),
+      updatedAt: new Date(session.updatedAt),
+      expiresAt: new Date(session.expiresAt)
+    }));
+  }
+}
+
+/**
+ * A store that persists guided troubleshooting sessions to a JSON file.
+ */
+export class FileDiagnosticSessionStore extends FileRecordStore<DiagnosticSession> {
+  constructor(filePath: string) {
+    super(filePath, session => ({
+      ...session,
+      trail: session.trail.map(entry => ({ ...entry, answeredAt: new Date(entry.answeredAt) })),
+      createdAt: new Date(session.createdAt),
+      updatedAt: new Date(session.updatedAt),
+      expiresAt: new Date(session.expiresAt)
+    }));
+  }
+}
+
+/**
+ * A store that persists shopping carts to a JSON file.
+ */
+export class FileCartStore extends FileRecordStore<Cart> implements CartStore {
+  constructor(filePath: string) {
+    super(filePath, cart => ({
+      ...cart,
+      lines: cart.lines.map(line => ({ ...line, addedAt: new Date(line.addedAt) })),
+      createdAt: new Date(cart.createdAt),
+      updatedAt: new Date(cart.updatedAt),
+      expiresAt: new Date(cart.expiresAt)
+    }));
+  }
+}
+
+/**
+ * A store that persists appliance profiles to a JSON file.
+ */
+export class FileApplianceProfileStore extends FileRecordStore<ApplianceProfile> implements ApplianceProfileStore {
+  constructor(filePath: string) {
+    super(filePath, profile => ({
+      ...profile,
+      appliances: profile.appliances.map(appliance => ({
+        ...appliance,
+        addedAt: new Date(appliance.addedAt),
+        lastUsedAt: new Date(appliance.lastUsedAt)
+      })),
+      createdAt: new Date(profile.createdAt),
+      updatedAt: new Date(profile.updatedAt),
+      expiresAt: new Date(profile.expiresAt)
+    }));
+  }
+}
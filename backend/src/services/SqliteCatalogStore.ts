@@ -0,0 +1,455 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Catalog, CatalogLoadResult, CatalogRepository, CatalogStore, Product, ProductFilter, ProductTextSearchResult, TroubleshootingSymptom } from '../types';
+import { normalizeModelNumber, normalizePartNumber } from '../utils/modelNumber';
+import { isWithinPriceRange } from '../utils/pricing';
+import { FIELD_BOOSTS, IndexedField, TYPO_MATCH_WEIGHT, expandTerm, fieldTerms, searchTerms } from './ProductIndex';
+
+interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+// Full-text columns, in table order, for each indexed product field
+const SEARCH_COLUMNS: Record<IndexedField, string> = {
+  partNumber: 'part_numbers',
+  name: 'name',
+  brand: 'brand',
+  compatibleModels: 'models',
+  category: 'category',
+  description: 'description'
+};
+const SEARCH_FIELDS = Object.keys(SEARCH_COLUMNS) as IndexedField[];
+
+const INSERT_SEARCH_DOCUMENT = `INSERT INTO products_fts (${SEARCH_FIELDS.map(field => SEARCH_COLUMNS[field]).join(', ')}, product_id)
+  VALUES (${SEARCH_FIELDS.map(field => `@${SEARCH_COLUMNS[field]}`).join(', ')}, @product_id)`;
+// Since migration 4 a product's search row shares its rowid, so it can be found without a table scan
+const INSERT_SEARCH_ROW = `INSERT INTO products_fts (rowid, ${SEARCH_FIELDS.map(field => SEARCH_COLUMNS[field]).join(', ')}, product_id)
+  VALUES (@rowid, ${SEARCH_FIELDS.map(field => `@${SEARCH_COLUMNS[field]}`).join(', ')}, @product_id)`;
+
+// bm25() takes one weight per column; product_id is not searched
+const BM25_WEIGHTS = [...SEARCH_FIELDS.map(field => FIELD_BOOSTS[field]), 0].join(', ');
+
+/**
+ * Schema migrations, applied in order and recorded in `schema_migrations`. Never edit a
+ * released migration; add a new one.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'catalog tables',
+    up: db => db.exec(`
+      CREATE TABLE products (
+        id TEXT PRIMARY KEY,
+        part_number TEXT NOT NULL,
+        name TEXT NOT NULL,
+        brand TEXT NOT NULL,
+        brand_key TEXT NOT NULL,
+        category TEXT NOT NULL,
+        price REAL NOT NULL,
+        availability TEXT NOT NULL,
+        installation_difficulty TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX products_category ON products (category);
+      CREATE INDEX products_brand_key ON products (brand_key);
+      CREATE INDEX products_price ON products (price);
+
+      -- Every number a part is found under: its own, its aliases and the numbers it replaces
+      CREATE TABLE part_numbers (
+        number_key TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK (kind IN ('part', 'alias', 'supersedes')),
+        product_id TEXT NOT NULL REFERENCES products (id) ON DELETE CASCADE
+      );
+      CREATE INDEX part_numbers_number_key ON part_numbers (number_key);
+
+      CREATE TABLE product_models (
+        model_key TEXT NOT NULL,
+        model_number TEXT NOT NULL,
+        product_id TEXT NOT NULL REFERENCES products (id) ON DELETE CASCADE,
+        PRIMARY KEY (model_key, product_id)
+      );
+
+      CREATE TABLE troubleshooting_symptoms (
+        id TEXT PRIMARY KEY,
+        category TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+    `)
+  },
+  {
+    version: 2,
+    name: 'product full-text search',
+    up: db => {
+      // Columns hold the same stemmed terms as the in-memory index, so both rank alike
+      db.exec(`
+        CREATE VIRTUAL TABLE products_fts USING fts5 (
+          ${SEARCH_FIELDS.map(field => SEARCH_COLUMNS[field]).join(', ')},
+          product_id UNINDEXED,
+          tokenize = 'unicode61'
+        );
+        CREATE VIRTUAL TABLE products_fts_vocab USING fts5vocab (products_fts, 'row');
+      `);
+      const insert = db.prepare(INSERT_SEARCH_DOCUMENT);
+      for (const data of db.prepare('SELECT data FROM products ORDER BY rowid').pluck().all() as string[]) {
+        insert.run(searchDocument(JSON.parse(data) as Product));
+      }
+    }
+  },
+  {
+    version: 3,
+    name: 'variant part numbers',
+    up: db => {
+      // Variant numbers are looked up like aliases and are searchable with the part's own numbers
+      const insertPartNumber = db.prepare("INSERT INTO part_numbers (number_key, kind, product_id) VALUES (?, 'alias', ?)");
+      const insertSearchDocument = db.prepare(INSERT_SEARCH_DOCUMENT);
+      db.exec('DELETE FROM products_fts');
+      for (const data of db.prepare('SELECT data FROM products ORDER BY rowid').pluck().all() as string[]) {
+        const product = JSON.parse(data) as Product;
+        for (const variant of product.variants || []) {
+          insertPartNumber.run(normalizePartNumber(variant.partNumber), product.id);
+        }
+        insertSearchDocument.run(searchDocument(product));
+      }
+    }
+  },
+  {
+    version: 4,
+    name: 'search rows keyed by product rowid',
+    up: db => {
+      const insertSearchRow = db.prepare(INSERT_SEARCH_ROW);
+      db.exec('DELETE FROM products_fts');
+      for (const { rowid, data } of db.prepare('SELECT rowid, data FROM products ORDER BY rowid').all() as Array<{ rowid: number; data: string }>) {
+        insertSearchRow.run({ ...searchDocument(JSON.parse(data) as Product), rowid });
+      }
+    }
+  }
+];
+
+/**
+ * A catalog store kept in an embedded SQLite database file, for catalogs too large to hold
+ * in memory. Filters and part number and model lookups run against indexed columns, and
+ * free-text queries against an FTS5 table ranked with BM25 across boosted fields. Products
+ * and troubleshooting guides are stored whole as JSON alongside the indexed columns.
+ *
+ * The store is also a catalog repository, so `npm run catalog:import` can write to it.
+ */
+export class SqliteCatalogStore implements CatalogStore, CatalogRepository {
+  public readonly description: string;
+  private db: Database.Database;
+
+  /**
+   * Opens (or creates) the database and applies any pending migrations.
+   * @param filePath The database file.
+   */
+  constructor(filePath: string) {
+    this.description = `SQLite database ${filePath}`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    // WAL lets the server keep reading while an import writes
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+  }
+
+  public findProducts(filter: ProductFilter): Product[] {
+    const { category, brands = [], priceRange, availability = [], difficulty = [], ids } = filter;
+    const toJsonList = (values: string[]) => (values.length > 0 ? JSON.stringify(values) : null);
+
+    const rows = this.db.prepare(`
+      SELECT data FROM products
+      WHERE (@category IS NULL OR category = @category)
+        AND (@brands IS NULL OR EXISTS (SELECT 1 FROM json_each(@brands) brand WHERE products.brand_key LIKE '%' || brand.value || '%'))
+        AND (@availability IS NULL OR availability IN (SELECT value FROM json_each(@availability)))
+        AND (@difficulty IS NULL OR installation_difficulty IN (SELECT value FROM json_each(@difficulty)))
+        AND (@ids IS NULL OR id IN (SELECT value FROM json_each(@ids)))
+      ORDER BY rowid
+    `).pluck().all({
+      category: category || null,
+      brands: toJsonList(brands.map(brand => this.normalizeString(brand))),
+      availability: toJsonList(availability),
+      difficulty: toJsonList(difficulty),
+      ids: ids ? JSON.stringify(ids) : null
+    }) as string[];
+
+    // Sale prices depend on the day, so the price range is applied here
+    return rows
+      .map(data => JSON.parse(data) as Product)
+      .filter(product => isWithinPriceRange(product, priceRange));
+  }
+
+  public searchText(query: string): ProductTextSearchResult {
+    const queryTerms = Array.from(new Set(searchTerms(query)));
+    const vocabulary = new Set(this.db.prepare('SELECT term FROM products_fts_vocab').pluck().all() as string[]);
+    const matchTerm = this.db.prepare(`SELECT product_id AS productId, -bm25(products_fts, ${BM25_WEIGHTS}) AS score FROM products_fts WHERE products_fts MATCH ?`);
+    const totals = new Map<string, { score: number; matchedTerms: number }>();
+    const corrections: Record<string, string> = {};
+
+    for (const queryTerm of queryTerms) {
+      const expansions = expandTerm(queryTerm, vocabulary);
+      if (expansions.length > 0 && expansions.every(expansion => expansion.weight === TYPO_MATCH_WEIGHT)) {
+        corrections[queryTerm] = expansions[0].term;
+      }
+
+      // A query term is credited once per product, through its best-scoring expansion
+      const best = new Map<string, number>();
+      for (const { term, weight } of expansions) {
+        for (const { productId, score } of matchTerm.all(`"${term}"`) as Array<{ productId: string; score: number }>) {
+          best.set(productId, Math.max(best.get(productId) || 0, score * weight));
+        }
+      }
+
+      for (const [productId, score] of best) {
+        const total = totals.get(productId) || { score: 0, matchedTerms: 0 };
+        total.score += score;
+        total.matchedTerms++;
+        totals.set(productId, total);
+      }
+    }
+
+    // Products matching more of the query rank above those matching one term very well
+    const scores = new Map(Array.from(totals.entries())
+      .map(([productId, { score, matchedTerms }]) => [productId, score * (matchedTerms / queryTerms.length)]));
+    return { scores, corrections };
+  }
+
+  public findByPartNumber(partNumber: string): Product | undefined {
+    // A part's own number takes precedence over another part's alias for it
+    return this.findPartNumber(partNumber, `kind IN ('part', 'alias') ORDER BY n.kind = 'alias', p.rowid`);
+  }
+
+  public findBySupersededNumber(partNumber: string): Product | undefined {
+    return this.findPartNumber(partNumber, `kind = 'supersedes' ORDER BY p.rowid`);
+  }
+
+  public findByModel(modelNumber: string): { modelNumber: string; products: Product[] } | undefined {
+    const rows = this.db.prepare(`
+      SELECT m.model_number AS modelNumber, p.data AS data
+      FROM product_models m JOIN products p ON p.id = m.product_id
+      WHERE m.model_key = ?
+      ORDER BY p.rowid
+    `).all(normalizeModelNumber(modelNumber)) as Array<{ modelNumber: string; data: string }>;
+
+    if (rows.length === 0) {
+      return undefined;
+    }
+    return { modelNumber: rows[0].modelNumber, products: rows.map(row => JSON.parse(row.data) as Product) };
+  }
+
+  public listModelNumbers(): string[] {
+    // Each model as first written in the catalog
+    const rows = this.db.prepare(`
+      SELECT m.model_key AS modelKey, m.model_number AS modelNumber
+      FROM product_models m JOIN products p ON p.id = m.product_id
+      ORDER BY p.rowid
+    `).all() as Array<{ modelKey: string; modelNumber: string }>;
+
+    const models = new Map<string, string>();
+    for (const { modelKey, modelNumber } of rows) {
+      if (!models.has(modelKey)) {
+        models.set(modelKey, modelNumber);
+      }
+    }
+    return Array.from(models.values());
+  }
+
+  public getTroubleshootingSymptoms(category?: Product['category']): TroubleshootingSymptom[] {
+    const rows = this.db.prepare('SELECT data FROM troubleshooting_symptoms WHERE (@category IS NULL OR category = @category) ORDER BY position')
+      .pluck()
+      .all({ category: category || null }) as string[];
+    return rows.map(data => JSON.parse(data) as TroubleshootingSymptom);
+  }
+
+  public getTroubleshootingSymptom(id: string): TroubleshootingSymptom | undefined {
+    const data = this.db.prepare('SELECT data FROM troubleshooting_symptoms WHERE id = ?').pluck().get(id) as string | undefined;
+    return data ? JSON.parse(data) as TroubleshootingSymptom : undefined;
+  }
+
+  public count(): { products: number; troubleshootingSymptoms: number } {
+    return {
+      products: this.db.prepare('SELECT COUNT(*) FROM products').pluck().get() as number,
+      troubleshootingSymptoms: this.db.prepare('SELECT COUNT(*) FROM troubleshooting_symptoms').pluck().get() as number
+    };
+  }
+
+  /**
+   * Replaces the catalog in a single transaction, so readers see either the old catalog or the new one.
+   * @param catalog The full catalog.
+   */
+  public replaceCatalog(catalog: Catalog): void {
+    const insertProduct = this.productWriter();
+    const insertSymptom = this.db.prepare('INSERT INTO troubleshooting_symptoms (id, category, position, data) VALUES (?, ?, ?, ?)');
+
+    this.db.transaction(() => {
+      this.db.exec('DELETE FROM products_fts; DELETE FROM products; DELETE FROM troubleshooting_symptoms;');
+
+      for (const product of catalog.products) {
+        insertProduct(product);
+      }
+
+      catalog.troubleshootingSymptoms.forEach((symptom, position) => {
+        insertSymptom.run(symptom.id, symptom.category, position, JSON.stringify(symptom));
+      });
+    })();
+
+    console.log(`[SqliteCatalogStore] - Stored ${catalog.products.length} products and ${catalog.troubleshootingSymptoms.length} troubleshooting guides.`);
+  }
+
+  /**
+   * Adds a product, or replaces the one with the same id, rewriting only that product's
+   * rows. A replaced product keeps its rowid and so its place in catalog order.
+   * @param product The new or changed product.
+   */
+  public saveProduct(product: Product): void {
+    const insertProduct = this.productWriter();
+    this.db.transaction(() => {
+      const rowid = this.deleteProductRows(product.id);
+      insertProduct(product, rowid);
+    })();
+  }
+
+  public deleteProduct(id: string): void {
+    this.db.transaction(() => {
+      this.deleteProductRows(id);
+    })();
+  }
+
+  /**
+   * Adds a troubleshooting guide at the end of the list, or replaces the one with the same id in its place.
+   * @param symptom The new or changed guide.
+   */
+  public saveTroubleshootingSymptom(symptom: TroubleshootingSymptom): void {
+    this.db.prepare(`
+      INSERT INTO troubleshooting_symptoms (id, category, position, data)
+      VALUES (@id, @category, (SELECT COALESCE(MAX(position), -1) + 1 FROM troubleshooting_symptoms), @data)
+      ON CONFLICT (id) DO UPDATE SET category = excluded.category, data = excluded.data
+    `).run({ id: symptom.id, category: symptom.category, data: JSON.stringify(symptom) });
+  }
+
+  public deleteTroubleshootingSymptom(id: string): void {
+    this.db.prepare('DELETE FROM troubleshooting_symptoms WHERE id = ?').run(id);
+  }
+
+  public async load(): Promise<CatalogLoadResult> {
+    const products = (this.db.prepare('SELECT data FROM products ORDER BY rowid').pluck().all() as string[])
+      .map(data => JSON.parse(data) as Product);
+    return { catalog: { products, troubleshootingSymptoms: this.getTroubleshootingSymptoms() }, errors: [] };
+  }
+
+  public async save(catalog: Catalog): Promise<void> {
+    this.replaceCatalog(catalog);
+  }
+
+  /**
+   * Closes the database. The store cannot be used afterwards.
+   */
+  public close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Applies the migrations the database has not seen yet, each in its own transaction.
+   * @private
+   */
+  private migrate(): void {
+    this.db.exec('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)');
+    const applied = new Set(this.db.prepare('SELECT version FROM schema_migrations').pluck().all() as number[]);
+
+    for (const migration of MIGRATIONS.filter(migration => !applied.has(migration.version))) {
+      this.db.transaction(() => {
+        migration.up(this.db);
+        this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, new Date().toISOString());
+      })();
+      console.log(`[SqliteCatalogStore] - Applied migration ${migration.version} (${migration.name}).`);
+    }
+  }
+
+  /**
+   * Prepares the statements that write a product with its part numbers, models and search row.
+   * @returns A function that inserts one product, optionally under a given rowid.
+   * @private
+   */
+  private productWriter(): (product: Product, rowid?: number) => void {
+    const insertProduct = this.db.prepare(`
+      INSERT INTO products (rowid, id, part_number, name, brand, brand_key, category, price, availability, installation_difficulty, data)
+      VALUES (@rowid, @id, @partNumber, @name, @brand, @brandKey, @category, @price, @availability, @installationDifficulty, @data)
+    `);
+    const insertPartNumber = this.db.prepare('INSERT INTO part_numbers (number_key, kind, product_id) VALUES (?, ?, ?)');
+    const insertModel = this.db.prepare('INSERT OR IGNORE INTO product_models (model_key, model_number, product_id) VALUES (?, ?, ?)');
+    const insertSearchRow = this.db.prepare(INSERT_SEARCH_ROW);
+
+    return (product, rowid) => {
+      const { lastInsertRowid } = insertProduct.run({
+        rowid: rowid ?? null,
+        id: product.id,
+        partNumber: product.partNumber,
+        name: product.name,
+        brand: product.brand,
+        brandKey: this.normalizeString(product.brand),
+        category: product.category,
+        price: product.price,
+        availability: product.availability,
+        installationDifficulty: product.installationDifficulty,
+        data: JSON.stringify(product)
+      });
+
+      insertPartNumber.run(normalizePartNumber(product.partNumber), 'part', product.id);
+      for (const alias of [...(product.aliases || []), ...(product.variants || []).map(variant => variant.partNumber)]) {
+        insertPartNumber.run(normalizePartNumber(alias), 'alias', product.id);
+      }
+      for (const replaced of product.supersedes || []) {
+        insertPartNumber.run(normalizePartNumber(replaced), 'supersedes', product.id);
+      }
+      for (const model of product.compatibleModels) {
+        insertModel.run(normalizeModelNumber(model), model, product.id);
+      }
+      insertSearchRow.run({ ...searchDocument(product), rowid: lastInsertRowid });
+    };
+  }
+
+  /**
+   * Deletes a product's row, search row and (by cascade) its part numbers and models.
+   * @returns The rowid the product had, or undefined if there was none.
+   * @private
+   */
+  private deleteProductRows(id: string): number | undefined {
+    const rowid = this.db.prepare('SELECT rowid FROM products WHERE id = ?').pluck().get(id) as number | undefined;
+    if (rowid !== undefined) {
+      this.db.prepare('DELETE FROM products_fts WHERE rowid = ?').run(rowid);
+      this.db.prepare('DELETE FROM products WHERE rowid = ?').run(rowid);
+    }
+    return rowid;
+  }
+
+  /**
+   * Looks up a product by one of its normalized numbers.
+   * @private
+   */
+  private findPartNumber(partNumber: string, condition: string): Product | undefined {
+    const data = this.db.prepare(`
+      SELECT p.data FROM part_numbers n JOIN products p ON p.id = n.product_id
+      WHERE n.number_key = ? AND ${condition}
+      LIMIT 1
+    `).pluck().get(normalizePartNumber(partNumber)) as string | undefined;
+    return data ? JSON.parse(data) as Product : undefined;
+  }
+
+  private normalizeString(str: string): string {
+    return str.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+}
+
+/**
+ * Builds a product's full-text row from the same terms the in-memory index uses.
+ */
+function searchDocument(product: Product): Record<string, string> {
+  const document: Record<string, string> = { product_id: product.id };
+  for (const field of SEARCH_FIELDS) {
+    document[SEARCH_COLUMNS[field]] = fieldTerms(product, field).join(' ');
+  }
+  return document;
+}
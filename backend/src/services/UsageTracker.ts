@@ -0,0 +1,225 @@
+import { ConversationSession, LLMCallPurpose, LLMUsageRecord, TokenUsage, UsageSummary, UsageTotals } from '../types';
+
+// USD per million tokens
+export interface ModelPricing {
+  promptPerMillion: number;
+  completionPerMillion: number;
+}
+
+interface UsageTrackerConfig {
+  pricing?: Record<string, ModelPricing>;
+  sessionTokenBudget?: number;
+  dailyTokenBudget?: number;
+}
+
+// List prices at the time of writing; override or extend them with LLM_PRICING
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'deepseek-chat': { promptPerMillion: 0.27, completionPerMillion: 1.10 },
+  'gpt-4o-mini': { promptPerMillion: 0.15, completionPerMillion: 0.60 },
+  'gpt-4o': { promptPerMillion: 2.50, completionPerMillion: 10.00 },
+  'scripted': { promptPerMillion: 0, completionPerMillion: 0 }
+};
+
+// Sessions kept in the in-memory stats; the least recently active are dropped first
+const MAX_TRACKED_SESSIONS = 1000;
+const TOP_SESSIONS_REPORTED = 10;
+
+export type TokenBudgetErrorCode = 'TOKEN_BUDGET_EXCEEDED' | 'DAILY_TOKEN_BUDGET_EXCEEDED';
+
+/**
+ * Raised before a chat turn runs when the session or the whole service has used up its token budget.
+ */
+export class TokenBudgetExceededError extends Error {
+  public readonly code: TokenBudgetErrorCode;
+  public readonly limit: number;
+  public readonly used: number;
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, code: TokenBudgetErrorCode, limit: number, used: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'TokenBudgetExceededError';
+    this.code = code;
+    this.limit = limit;
+    this.used = used;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Aggregates LLM token usage per request, per session, per day and globally,
+ * estimates cost from per-model pricing, and enforces token budgets.
+ */
+export class UsageTracker {
+  private pricing: Record<string, ModelPricing>;
+  private sessionTokenBudget?: number;
+  private dailyTokenBudget?: number;
+  private total: UsageTotals = emptyTotals();
+  private daily: { date: string; totals: UsageTotals } = { date: currentDay(), totals: emptyTotals() };
+  private sessions = new Map<string, UsageTotals>();
+
+  constructor(config: UsageTrackerConfig = {}) {
+    this.pricing = { ...DEFAULT_PRICING, ...config.pricing };
+    this.sessionTokenBudget = config.sessionTokenBudget;
+    this.dailyTokenBudget = config.dailyTokenBudget;
+  }
+
+  /**
+   * Combines the usage of every LLM call made for one request, split by purpose, with its estimated cost.
+   * @param records The usage reported for each call.
+   * @returns The request's usage summary.
+   */
+  public summarize(records: LLMUsageRecord[]): UsageSummary {
+    const byPurpose: Record<LLMCallPurpose, TokenUsage> = {
+      query_rewrite: emptyTokens(),
+      tool_selection: emptyTokens(),
+      final_response: emptyTokens()
+    };
+    const summary: UsageSummary = { ...emptyTotals(), byPurpose };
+
+    for (const record of records) {
+      addTokens(byPurpose[record.purpose], record);
+      addTokens(summary, record);
+      summary.calls++;
+      summary.estimatedCostUsd += this.estimateCost(record);
+    }
+
+    summary.estimatedCostUsd = roundCost(summary.estimatedCostUsd);
+    return summary;
+  }
+
+  /**
+   * Estimates the cost of a call in USD. Models without pricing are counted as free.
+   */
+  public estimateCost(usage: TokenUsage & { model?: string }): number {
+    const pricing = usage.model ? this.pricing[usage.model] : undefined;
+    if (!pricing) {
+      return 0;
+    }
+    return (usage.promptTokens * pricing.promptPerMillion + usage.completionTokens * pricing.completionPerMillion) / 1_000_000;
+  }
+
+  /**
+   * Adds a request's usage to the session, daily and global totals.
+   * @param sessionId The session the request belonged to.
+   * @param summary The request's usage summary.
+   */
+  public record(sessionId: string, summary: UsageSummary): void {
+    this.rollDay();
+    this.total = addUsage(this.total, summary);
+    this.daily.totals = addUsage(this.daily.totals, summary);
+
+    const sessionTotals = addUsage(this.sessions.get(sessionId), summary);
+    // Re-inserting keeps the map ordered by last activity
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, sessionTotals);
+    if (this.sessions.size > MAX_TRACKED_SESSIONS) {
+      this.sessions.delete(this.sessions.keys().next().value!);
+    }
+  }
+
+  /**
+   * Rejects a new request once the session or the service has used up its token budget.
+   * @param session The conversation session, whose persisted totals are checked.
+   * @throws TokenBudgetExceededError when a budget is exhausted.
+   */
+  public assertWithinBudget(session: ConversationSession): void {
+    this.rollDay();
+
+    const sessionTokens = session.usage?.totalTokens || 0;
+    if (this.sessionTokenBudget && sessionTokens >= this.sessionTokenBudget) {
+      throw new TokenBudgetExceededError(
+        `This conversation has reached its limit of ${this.sessionTokenBudget} tokens. Please start a new conversation.`,
+        'TOKEN_BUDGET_EXCEEDED',
+        this.sessionTokenBudget,
+        sessionTokens
+      );
+    }
+
+    const dailyTokens = this.daily.totals.totalTokens;
+    if (this.dailyTokenBudget && dailyTokens >= this.dailyTokenBudget) {
+      throw new TokenBudgetExceededError(
+        'The assistant has reached its daily usage limit. Please try again tomorrow.',
+        'DAILY_TOKEN_BUDGET_EXCEEDED',
+        this.dailyTokenBudget,
+        dailyTokens,
+        msUntilNextDay()
+      );
+    }
+  }
+
+  /**
+   * Provides the aggregated usage for the stats endpoint.
+   */
+  public getStats() {
+    this.rollDay();
+    const topSessions = Array.from(this.sessions.entries())
+      .sort(([, a], [, b]) => b.totalTokens - a.totalTokens)
+      .slice(0, TOP_SESSIONS_REPORTED)
+      .map(([sessionId, totals]) => ({ sessionId, ...totals }));
+
+    return {
+      total: this.total,
+      today: { date: this.daily.date, ...this.daily.totals },
+      sessions: {
+        tracked: this.sessions.size,
+        top: topSessions
+      },
+      budgets: {
+        sessionTokens: this.sessionTokenBudget,
+        dailyTokens: this.dailyTokenBudget,
+        dailyRemaining: this.dailyTokenBudget ? Math.max(0, this.dailyTokenBudget - this.daily.totals.totalTokens) : undefined
+      },
+      pricing: this.pricing
+    };
+  }
+
+  /**
+   * Starts a fresh daily window at UTC midnight.
+   * @private
+   */
+  private rollDay(): void {
+    const today = currentDay();
+    if (this.daily.date !== today) {
+      this.daily = { date: today, totals: emptyTotals() };
+    }
+  }
+}
+
+/**
+ * Adds one set of usage totals to another, returning a new object.
+ */
+export function addUsage(base: UsageTotals | undefined, addition: UsageTotals): UsageTotals {
+  const totals = { ...emptyTotals(), ...base };
+  addTokens(totals, addition);
+  totals.calls += addition.calls;
+  totals.estimatedCostUsd = roundCost(totals.estimatedCostUsd + addition.estimatedCostUsd);
+  return totals;
+}
+
+function addTokens(target: TokenUsage, addition: TokenUsage): void {
+  target.promptTokens += addition.promptTokens;
+  target.completionTokens += addition.completionTokens;
+  target.totalTokens += addition.totalTokens;
+}
+
+function emptyTokens(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+function emptyTotals(): UsageTotals {
+  return { ...emptyTokens(), calls: 0, estimatedCostUsd: 0 };
+}
+
+// Costs are fractions of a cent per call, so keep enough precision to add up meaningfully
+function roundCost(cost: number): number {
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function msUntilNextDay(): number {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime();
+}
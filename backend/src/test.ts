@@ -3,6 +3,27 @@ import { CompatibilityTool } from './tools/CompatibilityTool';
 import { InstallationTool } from './tools/InstallationTool';
 import { ProductSearchTool } from './tools/ProductSearchTool';
 import { TroubleshootingTool } from './tools/TroubleshootingTool';
+import { runSuite, Suite } from './tests/harness';
+import { circuitBreakerSuite } from './tests/circuitBreaker';
+import { sessionSuite } from './tests/sessions';
+import { budgetSuite } from './tests/budgets';
+import { chatStreamSuite } from './tests/chatStream';
+import { catalogStoreSuite } from './tests/catalogStores';
+import { catalogAdminSuite } from './tests/catalogAdmin';
+import { savedApplianceSuite } from './tests/savedAppliances';
+import { jsonRepairSuite } from './tests/jsonRepair';
+
+// Behavioural checks; a failing check fails the run
+const suites: Suite[] = [
+    circuitBreakerSuite,
+    sessionSuite,
+    budgetSuite,
+    chatStreamSuite,
+    catalogStoreSuite,
+    catalogAdminSuite,
+    savedApplianceSuite,
+    jsonRepairSuite
+];
 
 async function runTests() {
     console.log("---------------------------------------");
@@ -51,4 +72,23 @@ async function runTests() {
     console.log("\nTroubleshooting Result 2:", JSON.stringify(troubleshootingResult, null, 2));
 }
 
-runTests();
\ No newline at end of file
+async function runChecks(): Promise<number> {
+    console.log("\n---------------------------------------");
+    console.log("Running Behavioural Checks");
+    console.log("---------------------------------------");
+
+    let failures = 0;
+    for (const suite of suites) {
+        failures += await runSuite(suite);
+    }
+    console.log(failures === 0 ? "\nAll checks passed." : `\n${failures} check(s) failed.`);
+    return failures;
+}
+
+runTests()
+    .then(runChecks)
+    .then(failures => process.exit(failures === 0 ? 0 : 1))
+    .catch(error => {
+        console.error("Test run failed:", error);
+        process.exit(1);
+    });
\ No newline at end of file
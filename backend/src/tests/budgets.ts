@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { SessionService } from '../services/SessionService';
+import { InMemorySessionStore } from '../services/SessionStore';
+import { TokenBudgetExceededError, UsageTracker } from '../services/UsageTracker';
+import { ChatMessage } from '../types';
+import { Suite, sleep } from './harness';
+
+const SESSION_ID = 'session-budget-check';
+
+function setup() {
+  const sessions = new SessionService(new InMemorySessionStore());
+  const tracker = new UsageTracker({ sessionTokenBudget: 100 });
+  // Every turn spends the whole budget in one (slow) LLM call
+  const usage = tracker.summarize([{ purpose: 'final_response', promptTokens: 90, completionTokens: 10, totalTokens: 100 }]);
+  return { sessions, tracker, usage };
+}
+
+function message(role: ChatMessage['role'], content: string): ChatMessage {
+  return { id: `${role}-${content}`, role, content, timestamp: new Date() };
+}
+
+export const budgetSuite: Suite = {
+  name: 'Token budgets',
+  checks: [
+    {
+      name: 'concurrent turns of one session cannot both pass the session budget',
+      run: async () => {
+        const { sessions, tracker, usage } = setup();
+        const turn = () => sessions.runTurn(SESSION_ID, async session => {
+          tracker.assertWithinBudget(session);
+          await sleep(10);
+          const reply = { ...message('assistant', 'done'), metadata: { usage } };
+          return sessions.recordTurn(session, message('user', 'hi'), reply);
+        });
+
+        const results = await Promise.allSettled([turn(), turn()]);
+        assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+        const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+        assert.ok(rejected.reason instanceof TokenBudgetExceededError);
+        assert.equal((await sessions.get(SESSION_ID))?.usage?.totalTokens, 100);
+      }
+    },
+    {
+      name: 'usage of failed turns adds up instead of overwriting each other',
+      run: async () => {
+        const { sessions, usage } = setup();
+        const session = await sessions.getOrCreate(SESSION_ID);
+
+        // Both failures were reported against the same copy of the session
+        await Promise.all([sessions.recordUsage(session, usage), sessions.recordUsage(session, usage)]);
+        assert.equal((await sessions.get(SESSION_ID))?.usage?.totalTokens, 200);
+      }
+    }
+  ]
+};
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { sampleProducts } from '../data/sampleProducts';
+import { Suite } from './harness';
+import { RunningServer, startServer } from './server';
+
+const ADMIN_KEY = 'test-admin-key-0123456789';
+const PART_NUMBER = 'PS99990010';
+const newProduct = { ...sampleProducts[0], id: 'test-admin-product', partNumber: PART_NUMBER, aliases: [], supersedes: [], variants: [] };
+
+let server: RunningServer;
+let directory: string;
+
+function adminWrite(method: string, route: string, body: unknown, authorization?: string): Promise<Response> {
+  return fetch(`${server.url}/api/admin${route}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(authorization ? { Authorization: authorization } : {}) },
+    body: JSON.stringify(body)
+  });
+}
+
+async function productStatus(partNumber: string): Promise<number> {
+  return (await fetch(`${server.url}/api/products/${partNumber}`)).status;
+}
+
+async function auditEntries(): Promise<unknown[]> {
+  const response = await fetch(`${server.url}/api/admin/audit`, { headers: { Authorization: `Bearer ${ADMIN_KEY}` } });
+  return ((await response.json()) as { entries: unknown[] }).entries;
+}
+
+export const catalogAdminSuite: Suite = {
+  name: 'Catalog admin API',
+  setup: async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'catalog-admin-'));
+    server = await startServer({
+      ADMIN_API_KEYS: `tests:${ADMIN_KEY}`,
+      ADMIN_AUDIT_LOG_PATH: path.join(directory, 'audit.ndjson')
+    });
+  },
+  teardown: async () => {
+    await server?.stop();
+    await fs.rm(directory, { recursive: true, force: true });
+  },
+  checks: [
+    {
+      name: 'writes without an admin key, or with an unknown one, are rejected and change nothing',
+      run: async () => {
+        for (const authorization of [undefined, 'Bearer not-a-configured-key', ADMIN_KEY]) {
+          const response = await adminWrite('POST', '/products', newProduct, authorization);
+          assert.equal(response.status, 401, `Authorization: ${authorization}`);
+          assert.equal(response.headers.get('www-authenticate'), 'Bearer');
+        }
+        const deletion = await adminWrite('DELETE', `/products/${sampleProducts[0].id}`, undefined);
+        assert.equal(deletion.status, 401);
+
+        assert.equal(await productStatus(PART_NUMBER), 404);
+        assert.equal(await productStatus(sampleProducts[0].partNumber), 200);
+        assert.deepEqual(await auditEntries(), []);
+      }
+    },
+    {
+      name: 'invalid records are rejected with 400 and change nothing',
+      run: async () => {
+        const invalid = await adminWrite('POST', '/products', { ...newProduct, price: -5 }, `Bearer ${ADMIN_KEY}`);
+        assert.equal(invalid.status, 400);
+        assert.equal(((await invalid.json()) as { error: { code: string } }).error.code, 'INVALID_RECORD');
+
+        const renamed = await adminWrite('PATCH', `/products/${sampleProducts[0].id}`, { id: 'another-id' }, `Bearer ${ADMIN_KEY}`);
+        assert.equal(renamed.status, 400);
+        assert.equal(((await renamed.json()) as { error: { code: string } }).error.code, 'ID_MISMATCH');
+
+        assert.equal(await productStatus(PART_NUMBER), 404);
+        assert.deepEqual(await auditEntries(), []);
+      }
+    },
+    {
+      name: 'a valid write is served and audited, and a duplicate part number is refused',
+      run: async () => {
+        const created = await adminWrite('POST', '/products', newProduct, `Bearer ${ADMIN_KEY}`);
+        assert.equal(created.status, 201);
+        assert.equal(await productStatus(PART_NUMBER), 200);
+        assert.equal((await auditEntries()).length, 1);
+
+        const duplicate = await adminWrite('POST', '/products', { ...newProduct, id: 'test-admin-duplicate' }, `Bearer ${ADMIN_KEY}`);
+        assert.equal(duplicate.status, 409);
+        assert.equal((await auditEntries()).length, 1);
+      }
+    }
+  ]
+};
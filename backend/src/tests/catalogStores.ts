@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { sampleProducts, troubleshootingSymptoms } from '../data/sampleProducts';
+import { InMemoryCatalogStore } from '../services/CatalogStore';
+import { SqliteCatalogStore } from '../services/SqliteCatalogStore';
+import { Catalog, CatalogStore, Product } from '../types';
+import { Check, Suite } from './harness';
+
+const catalog: Catalog = { products: sampleProducts, troubleshootingSymptoms };
+
+interface StoreKind {
+  name: string;
+  // Opens a store holding the catalog; the returned function closes it and removes its files
+  open: (catalog: Catalog) => Promise<{ store: CatalogStore; close: () => Promise<void> }>;
+}
+
+const STORE_KINDS: StoreKind[] = [
+  {
+    name: 'in-memory',
+    open: async catalog => ({ store: new InMemoryCatalogStore(catalog), close: async () => undefined })
+  },
+  {
+    name: 'SQLite',
+    open: async catalog => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'catalog-'));
+      const store = new SqliteCatalogStore(path.join(directory, 'catalog.db'));
+      store.replaceCatalog(catalog);
+      return {
+        store,
+        close: async () => {
+          store.close();
+          await fs.rm(directory, { recursive: true, force: true });
+        }
+      };
+    }
+  }
+];
+
+const original = sampleProducts[0];
+// Renumbered, renamed and moved to another model, so every index entry of the product changes
+const edited: Product = {
+  ...original,
+  partNumber: 'PS99990001',
+  name: `${original.name} Zyxwvut`,
+  aliases: [],
+  supersedes: [],
+  variants: [],
+  compatibleModels: ['ZZTEST100']
+};
+
+function ids(products: Product[]): string[] {
+  return products.map(product => product.id);
+}
+
+function storeChecks(kind: StoreKind): Check[] {
+  const withStore = (run: (store: CatalogStore) => void | Promise<void>) => async () => {
+    const { store, close } = await kind.open(catalog);
+    try {
+      await run(store);
+    } finally {
+      await close();
+    }
+  };
+
+  return [
+    {
+      name: `${kind.name}: saving an edited product updates its lookups and search terms in place`,
+      run: withStore(store => {
+        const order = ids(store.findProducts({}));
+        store.saveProduct(edited);
+
+        assert.deepEqual(ids(store.findProducts({})), order, 'the product keeps its place');
+        assert.equal(store.findByPartNumber('PS99990001')?.id, original.id);
+        assert.equal(store.findByPartNumber(original.partNumber), undefined);
+        assert.deepEqual(ids(store.findByModel('ZZTEST100')?.products || []), [original.id]);
+        assert.ok(!ids(store.findByModel(original.compatibleModels[0])?.products || []).includes(original.id));
+        assert.deepEqual(Array.from(store.searchText('zyxwvut').scores.keys()), [original.id]);
+      })
+    },
+    {
+      name: `${kind.name}: deleting a product removes it from every lookup`,
+      run: withStore(store => {
+        const before = store.count().products;
+        store.deleteProduct(original.id);
+
+        assert.equal(store.count().products, before - 1);
+        assert.ok(!ids(store.findProducts({})).includes(original.id));
+        assert.equal(store.findByPartNumber(original.partNumber), undefined);
+        assert.ok(!store.searchText(original.name).scores.has(original.id));
+      })
+    },
+    {
+      name: `${kind.name}: search after single-product edits ranks exactly like a full rebuild`,
+      run: withStore(async store => {
+        const added: Product = { ...edited, id: 'test-added', partNumber: 'PS99990002', name: 'Water Filter Zyxwvut' };
+        store.saveProduct(edited);
+        store.saveProduct(added);
+        store.deleteProduct(sampleProducts[1].id);
+
+        const rebuilt = await kind.open({ ...catalog, products: store.findProducts({}) });
+        try {
+          for (const query of ['water filter', 'zyxwvut', 'dishwasher pump', 'door gasket']) {
+            const actual = store.searchText(query).scores;
+            const expected = rebuilt.store.searchText(query).scores;
+            assert.deepEqual(Array.from(actual.keys()).sort(), Array.from(expected.keys()).sort(), query);
+            for (const [id, score] of expected) {
+              assert.ok(Math.abs((actual.get(id) || 0) - score) < 1e-9, `${query}: ${id} scores ${actual.get(id)} instead of ${score}`);
+            }
+          }
+        } finally {
+          await rebuilt.close();
+        }
+      })
+    },
+    {
+      name: `${kind.name}: troubleshooting guides are replaced in place, added last and deleted`,
+      run: withStore(store => {
+        const [first] = troubleshootingSymptoms;
+        store.saveTroubleshootingSymptom({ ...first, description: 'Edited guide' });
+        store.saveTroubleshootingSymptom({ ...first, id: 'test-new-guide' });
+
+        const guides = store.getTroubleshootingSymptoms();
+        assert.equal(guides[0].description, 'Edited guide');
+        assert.equal(guides[guides.length - 1].id, 'test-new-guide');
+
+        store.deleteTroubleshootingSymptom('test-new-guide');
+        assert.equal(store.getTroubleshootingSymptom('test-new-guide'), undefined);
+        assert.equal(store.count().troubleshootingSymptoms, troubleshootingSymptoms.length);
+      })
+    }
+  ];
+}
+
+export const catalogStoreSuite: Suite = {
+  name: 'Catalog stores',
+  checks: STORE_KINDS.flatMap(storeChecks)
+};
@@ -0,0 +1,174 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import { ChatResponse } from '../types';
+import { Suite } from './harness';
+import { RunningServer, startServer, startStubServer } from './server';
+
+interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+type ProviderMode = 'complete' | 'interrupted' | 'hanging';
+
+// How the stand-in provider answers streaming calls in the current check
+let mode: ProviderMode = 'complete';
+let streamClosed: Promise<number> = Promise.resolve(0);
+let provider: RunningServer;
+let server: RunningServer;
+
+/**
+ * Stands in for the DeepSeek API: plain calls answer without tools, streaming calls
+ * follow `mode` and report when the server hangs up on them.
+ */
+const providerHandler: http.RequestListener = (req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    if (!JSON.parse(body || '{}').stream) {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        choices: [{ message: { role: 'assistant', content: 'Happy to help with that.' } }],
+        usage: { prompt_tokens: 100, completion_tokens: 10, total_tokens: 110 }
+      }));
+      return;
+    }
+
+    const openedAt = Date.now();
+    streamClosed = new Promise(resolve => res.on('close', () => resolve(Date.now() - openedAt)));
+    const send = (content: string) => res.write(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    send('Partial LLM ');
+    send('answer');
+    if (mode === 'complete') {
+      res.end('data: [DONE]\n\n');
+    } else if (mode === 'interrupted') {
+      setTimeout(() => res.socket?.destroy(), 50);
+    } else {
+      // Keeps the stream open with a token now and then until the caller goes away
+      const timer = setInterval(() => send('.'), 50);
+      res.on('close', () => clearInterval(timer));
+    }
+  });
+};
+
+/**
+ * Posts a message to the streaming endpoint and collects its events.
+ * @param disconnectAfter Hangs up as soon as an event matching this arrives.
+ */
+async function streamChat(message: string, disconnectAfter?: (event: StreamEvent) => boolean): Promise<StreamEvent[]> {
+  const controller = new AbortController();
+  const response = await fetch(`${server.url}/api/chat/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+    body: JSON.stringify({ message }),
+    signal: controller.signal
+  });
+  assert.equal(response.status, 200);
+
+  const events: StreamEvent[] = [];
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for await (const chunk of response.body!) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() || '';
+      for (const block of blocks) {
+        const event = block.match(/^event: (.*)$/m)?.[1];
+        const data = block.match(/^data: (.*)$/m)?.[1];
+        if (event && data) {
+          events.push({ event, data: JSON.parse(data) });
+        }
+      }
+      if (disconnectAfter && events.some(disconnectAfter)) {
+        controller.abort();
+        break;
+      }
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      throw error;
+    }
+  }
+  return events;
+}
+
+function answerText(events: StreamEvent[]): string {
+  return events.filter(event => event.event === 'token').map(event => (event.data as { token: string }).token).join('');
+}
+
+function finalResponse(events: StreamEvent[]): ChatResponse {
+  return events[events.length - 1].data as ChatResponse;
+}
+
+export const chatStreamSuite: Suite = {
+  name: 'Streaming chat',
+  setup: async () => {
+    provider = await startStubServer(providerHandler);
+    server = await startServer({
+      LLM_PROVIDER: 'deepseek',
+      DEEPSEEK_API_KEY: 'test-key',
+      DEEPSEEK_BASE_URL: provider.url,
+      LLM_MAX_RETRIES: '0',
+      LLM_FALLBACK_ENABLED: 'true'
+    });
+  },
+  teardown: async () => {
+    await server?.stop();
+    await provider?.stop();
+  },
+  checks: [
+    {
+      name: 'streams reasoning steps, then answer tokens, then a final done event',
+      run: async () => {
+        mode = 'complete';
+        const events = await streamChat('Hello there');
+        const names = events.map(event => event.event);
+
+        assert.equal(names[names.length - 1], 'done');
+        assert.equal(names.filter(name => name === 'done' || name === 'error').length, 1);
+        assert.ok(names.includes('step'));
+        assert.ok(names.lastIndexOf('step') < names.indexOf('token'), 'every step comes before the answer tokens');
+        assert.equal(answerText(events), 'Partial LLM answer');
+        assert.equal(finalResponse(events).message.content, answerText(events));
+      }
+    },
+    {
+      name: 'a stream that fails midway sends reset before the fallback answer',
+      run: async () => {
+        mode = 'interrupted';
+        const events = await streamChat('Hello there');
+        const names = events.map(event => event.event);
+
+        const reset = names.indexOf('reset');
+        assert.ok(reset > 0, 'a reset event is sent');
+        assert.ok(names.slice(0, reset).includes('token'), 'the LLM tokens came first');
+        assert.equal(names.lastIndexOf('reset'), reset, 'only one reset is sent');
+        assert.ok(names.slice(reset).includes('step'), 'the fallback reports its own steps after the reset');
+        assert.equal(names[names.length - 1], 'done');
+        assert.ok(!names.includes('error'));
+
+        const { message } = finalResponse(events);
+        assert.equal(message.metadata?.degraded, true);
+        assert.equal(message.content, answerText(events.slice(reset)).trim());
+        assert.ok(!message.content.includes('Partial LLM'));
+      }
+    },
+    {
+      name: 'a client that disconnects mid-answer cancels the provider stream',
+      run: async () => {
+        mode = 'hanging';
+        const events = await streamChat('Hello there', event => event.event === 'token');
+        assert.equal(events[events.length - 1].event, 'token');
+
+        const openForMs = await Promise.race([
+          streamClosed,
+          new Promise<number>((_resolve, reject) => setTimeout(() => reject(new Error('The provider stream was still open 5s after the client left')), 5000))
+        ]);
+        assert.ok(openForMs < 5000);
+      }
+    }
+  ]
+};
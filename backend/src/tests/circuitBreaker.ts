@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { CircuitBreaker } from '../services/CircuitBreaker';
+import { ResilientLLMService } from '../services/ResilientLLMService';
+import { LLMServiceError, LLMErrorCategory } from '../services/LLMServiceError';
+import { LLMService } from '../types';
+import { Suite, sleep } from './harness';
+
+const RESET_MS = 20;
+
+/**
+ * A provider whose next calls fail with the queued error categories, then succeed.
+ */
+function scriptedProvider(failures: LLMErrorCategory[] = []): LLMService & { failures: LLMErrorCategory[] } {
+  return {
+    failures,
+    async generateResponse() {
+      const category = this.failures.shift();
+      if (category) {
+        throw new LLMServiceError(`Scripted ${category}`, category);
+      }
+      return 'ok';
+    },
+    async *streamResponse() {
+      yield 'first';
+      yield 'second';
+    },
+    getStatus: () => ({ status: 'healthy', configured: true, details: 'scripted' })
+  };
+}
+
+function resilient(provider: LLMService): ResilientLLMService {
+  return new ResilientLLMService(provider, { maxRetries: 0, failureThreshold: 2, resetTimeoutMs: RESET_MS });
+}
+
+async function categoryOf(call: Promise<unknown>): Promise<string> {
+  try {
+    await call;
+    return 'success';
+  } catch (error) {
+    return (error as LLMServiceError).category;
+  }
+}
+
+export const circuitBreakerSuite: Suite = {
+  name: 'Circuit breaker',
+  checks: [
+    {
+      name: 'opens after the failure threshold and rejects calls until the reset timeout',
+      run: async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: RESET_MS });
+        breaker.recordFailure();
+        assert.equal(breaker.canRequest(), true);
+        breaker.recordFailure();
+        assert.equal(breaker.getSnapshot().state, 'open');
+        assert.equal(breaker.canRequest(), false);
+      }
+    },
+    {
+      name: 'allows a single trial call when half-open, closing on success and re-opening on failure',
+      run: async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: RESET_MS });
+        breaker.recordFailure();
+        await sleep(RESET_MS + 5);
+        assert.equal(breaker.canRequest(), true, 'the trial call is allowed');
+        assert.equal(breaker.canRequest(), false, 'a second call waits for the trial');
+        breaker.recordFailure();
+        assert.equal(breaker.getSnapshot().state, 'open');
+
+        await sleep(RESET_MS + 5);
+        assert.equal(breaker.canRequest(), true);
+        breaker.recordSuccess();
+        assert.equal(breaker.getSnapshot().state, 'closed');
+        assert.equal(breaker.canRequest(), true);
+      }
+    },
+    {
+      name: 'release() frees the half-open trial call without changing the state',
+      run: async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: RESET_MS });
+        breaker.recordFailure();
+        await sleep(RESET_MS + 5);
+        assert.equal(breaker.canRequest(), true);
+        breaker.release();
+        assert.equal(breaker.getSnapshot().state, 'half_open');
+        assert.equal(breaker.canRequest(), true, 'the next call becomes the trial');
+      }
+    },
+    {
+      name: 'a rejected request between provider failures does not reset the failure count',
+      run: async () => {
+        const llm = resilient(scriptedProvider(['server_error', 'bad_request', 'authentication', 'server_error']));
+        assert.equal(await categoryOf(llm.generateResponse([])), 'server_error');
+        assert.equal(await categoryOf(llm.generateResponse([])), 'bad_request');
+        assert.equal(await categoryOf(llm.generateResponse([])), 'authentication');
+        assert.equal(await categoryOf(llm.generateResponse([])), 'server_error');
+        assert.equal(await categoryOf(llm.generateResponse([])), 'circuit_open');
+      }
+    },
+    {
+      name: 'a half-open trial that fails without a verdict (not configured) lets the next call probe',
+      run: async () => {
+        const llm = resilient(scriptedProvider(['timeout', 'timeout', 'not_configured']));
+        await categoryOf(llm.generateResponse([]));
+        await categoryOf(llm.generateResponse([]));
+        await sleep(RESET_MS + 5);
+        assert.equal(await categoryOf(llm.generateResponse([])), 'not_configured');
+        assert.equal(await categoryOf(llm.generateResponse([])), 'success');
+        assert.equal(llm.getStatus().metadata.circuitBreaker.state, 'closed');
+      }
+    },
+    {
+      name: 'a half-open trial stream abandoned by its consumer lets the next call probe',
+      run: async () => {
+        const llm = resilient(scriptedProvider(['timeout', 'timeout']));
+        await categoryOf(llm.generateResponse([]));
+        await categoryOf(llm.generateResponse([]));
+        await sleep(RESET_MS + 5);
+        for await (const token of llm.streamResponse([])) {
+          assert.equal(token, 'first');
+          break;
+        }
+        assert.equal(await categoryOf(llm.generateResponse([])), 'success');
+      }
+    }
+  ]
+};
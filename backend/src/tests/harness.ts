@@ -0,0 +1,50 @@
+/**
+ * A minimal harness for the behavioural checks run by `npm test`: each suite is a list of
+ * named async checks that throw (usually through node:assert) when the behaviour is wrong.
+ */
+
+export interface Check {
+  name: string;
+  run: () => Promise<void> | void;
+}
+
+export interface Suite {
+  name: string;
+  checks: Check[];
+  // Run once before and after the checks, e.g. to start and stop a server
+  setup?: () => Promise<void>;
+  teardown?: () => Promise<void>;
+}
+
+/**
+ * Runs a suite's checks in order, reporting each one.
+ * @returns The number of failed checks.
+ */
+export async function runSuite(suite: Suite): Promise<number> {
+  console.log(`\n--- ${suite.name} ---`);
+  let failures = 0;
+
+  try {
+    await suite.setup?.();
+    for (const check of suite.checks) {
+      try {
+        await check.run();
+        console.log(`  ok   ${check.name}`);
+      } catch (error) {
+        failures++;
+        console.error(`  FAIL ${check.name}\n       ${(error as Error).message}`);
+      }
+    }
+  } catch (error) {
+    failures++;
+    console.error(`  FAIL setup: ${(error as Error).message}`);
+  } finally {
+    await suite.teardown?.();
+  }
+
+  return failures;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
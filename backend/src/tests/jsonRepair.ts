@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { extractJsonObject, parseJsonArguments } from '../utils/jsonRepair';
+import { Suite } from './harness';
+
+export const jsonRepairSuite: Suite = {
+  name: 'JSON repair',
+  checks: [
+    {
+      name: 'near-JSON around the values is repaired',
+      run: () => {
+        const text = "Here you go:\n```json\n{tool: 'ProductSearch', // pick a tool\n parameters: {inStock: True, brand: None, tags: ['ice',],}, /* done */}\n```";
+        assert.deepEqual(extractJsonObject(text), { tool: 'ProductSearch', parameters: { inStock: true, brand: null, tags: ['ice'] } });
+        assert.deepEqual(extractJsonObject('{“tool”: “Cart”}'), { tool: 'Cart' });
+      }
+    },
+    {
+      name: 'string contents are never changed by the repairs',
+      run: () => {
+        const values = {
+          url: 'https://www.partselect.com/PS11752778/',
+          answer: 'Is it on? : True, : None',
+          quoted: '“ice maker” and ‘it’s’',
+          code: "a, } /* b */ it's"
+        };
+        // Unquoted keys and a trailing comma make the plain parse fail, so the repairs run
+        const text = `{url: ${JSON.stringify(values.url)}, answer: ${JSON.stringify(values.answer)}, ` +
+          `quoted: ${JSON.stringify(values.quoted)}, code: ${JSON.stringify(values.code)},}`;
+        assert.deepEqual(parseJsonArguments(text), values);
+        assert.deepEqual(parseJsonArguments("{note: 'say \"hi\" // twice'}"), { note: 'say "hi" // twice' });
+      }
+    },
+    {
+      name: 'truncated output is closed, and text without an object gives nothing',
+      run: () => {
+        assert.deepEqual(extractJsonObject('{"tool": "Cart", "parameters": {"note": "http://a'), { tool: 'Cart', parameters: { note: 'http://a' } });
+        assert.deepEqual(extractJsonObject('{"tool": "Cart" // no closing brace'), { tool: 'Cart' });
+        assert.equal(extractJsonObject('No JSON here.'), null);
+        assert.deepEqual(parseJsonArguments(''), {});
+      }
+    }
+  ]
+};
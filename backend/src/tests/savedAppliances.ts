@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { pickSavedAppliance } from '../services/ApplianceProfileService';
+import { SearchService } from '../services/SearchService';
+import { ProductSearchTool } from '../tools/ProductSearchTool';
+import { ApplianceCategoryId, SavedAppliance } from '../types';
+import { Suite } from './harness';
+
+function saved(modelNumber: string, category?: ApplianceCategoryId): SavedAppliance {
+  const now = new Date();
+  return { modelNumber, category, source: 'manual', addedAt: now, lastUsedAt: now };
+}
+
+const dishwasher = saved('WDT780SAEM1', 'dishwasher');
+const refrigerator = saved('WRF989SDAM', 'refrigerator');
+
+export const savedApplianceSuite: Suite = {
+  name: 'Saved appliances',
+  checks: [
+    {
+      name: 'with several saved appliances, one is only picked for a known appliance type',
+      run: () => {
+        const appliances = [dishwasher, refrigerator];
+        assert.equal(pickSavedAppliance(appliances), undefined);
+        assert.equal(pickSavedAppliance(appliances, 'refrigerator'), refrigerator);
+        assert.equal(pickSavedAppliance([dishwasher, saved('ABC123')], 'refrigerator')?.modelNumber, 'ABC123');
+        assert.equal(pickSavedAppliance([dishwasher], 'refrigerator'), undefined);
+      }
+    },
+    {
+      name: 'a single saved appliance is picked when the appliance type is not known',
+      run: () => {
+        assert.equal(pickSavedAppliance([refrigerator]), refrigerator);
+        assert.equal(pickSavedAppliance([]), undefined);
+      }
+    },
+    {
+      name: 'a search without a type is not narrowed to the most recent of several saved models',
+      run: async () => {
+        const tool = new ProductSearchTool(new SearchService());
+
+        const untyped = await tool.execute({ query: 'filter' }, { appliances: [dishwasher, refrigerator] });
+        assert.equal(untyped.success, true);
+        assert.equal(untyped.metadata?.savedModelNumber, undefined);
+
+        const typed = await tool.execute({ query: 'filter', category: 'refrigerator' }, { appliances: [dishwasher, refrigerator] });
+        assert.equal(typed.metadata?.savedModelNumber, refrigerator.modelNumber);
+      }
+    }
+  ]
+};
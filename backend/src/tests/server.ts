@@ -0,0 +1,104 @@
+import { ChildProcess, spawn } from 'child_process';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+
+export interface RunningServer {
+  url: string;
+  stop: () => Promise<void>;
+}
+
+const STARTUP_TIMEOUT_MS = 60000;
+
+/**
+ * Starts the API server in a child process, so checks can go through HTTP exactly as a
+ * client would. The server gets a free port and only the environment given here.
+ * @param env Settings on top of the test defaults (mock LLM, in-memory stores).
+ */
+export async function startServer(env: Record<string, string> = {}): Promise<RunningServer> {
+  const port = await freePort();
+  const child = spawn(process.execPath, ['-r', 'ts-node/register/transpile-only', path.join(__dirname, '..', 'server.ts')], {
+    cwd: path.join(__dirname, '..', '..'),
+    env: {
+      PATH: process.env.PATH,
+      NODE_ENV: 'test',
+      PORT: String(port),
+      LLM_PROVIDER: 'mock',
+      SESSION_STORE: 'memory',
+      CATALOG_SOURCE: 'memory',
+      ...env
+    },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+
+  let output = '';
+  child.stdout?.on('data', chunk => { output += chunk; });
+  child.stderr?.on('data', chunk => { output += chunk; });
+
+  try {
+    await waitForStartup(child, () => output);
+  } catch (error) {
+    child.kill();
+    throw error;
+  }
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    stop: () => new Promise(resolve => {
+      child.once('exit', () => resolve());
+      child.kill();
+    })
+  };
+}
+
+/**
+ * Starts a plain HTTP server in this process, e.g. to stand in for an LLM provider.
+ * @returns The server's base URL and a function to close it.
+ */
+export async function startStubServer(handler: http.RequestListener): Promise<RunningServer> {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    stop: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = http.createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+function waitForStartup(child: ChildProcess, output: () => string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => finish(new Error(`Server did not start within ${STARTUP_TIMEOUT_MS}ms:\n${output()}`)), STARTUP_TIMEOUT_MS);
+    const poll = setInterval(() => {
+      if (output().includes('Server Started')) {
+        finish();
+      }
+    }, 100);
+    const onExit = () => finish(new Error(`Server exited during startup:\n${output()}`));
+    child.once('exit', onExit);
+
+    function finish(error?: Error) {
+      clearTimeout(timer);
+      clearInterval(poll);
+      child.off('exit', onExit);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    }
+  });
+}
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SessionService } from '../services/SessionService';
+import { FileSessionStore, InMemorySessionStore } from '../services/SessionStore';
+import { ChatMessage } from '../types';
+import { Suite } from './harness';
+
+function message(role: ChatMessage['role'], content: string): ChatMessage {
+  return { id: `${role}-${content}`, role, content, timestamp: new Date() };
+}
+
+export const sessionSuite: Suite = {
+  name: 'Conversation sessions',
+  checks: [
+    {
+      name: 'overlapping turns on one session keep each other\'s messages and references',
+      run: async () => {
+        const sessions = new SessionService(new InMemorySessionStore());
+        const session = await sessions.getOrCreate('session-overlap-check');
+
+        // Both turns start from the same (empty) copy of the session
+        await Promise.all([
+          sessions.recordTurn(session, message('user', 'PS11752778'), message('assistant', 'A water filter'), [
+            { step: 1, type: 'action', content: '', tool: 'ProductSearch', parameters: { partNumber: 'PS11752778' }, timestamp: new Date() }
+          ]),
+          sessions.recordTurn(session, message('user', 'WDT780SAEM1'), message('assistant', 'A dishwasher'), [
+            { step: 1, type: 'action', content: '', tool: 'ModelPartsLookup', parameters: { modelNumber: 'WDT780SAEM1' }, timestamp: new Date() }
+          ])
+        ]);
+
+        const stored = await sessions.get(session.id);
+        assert.equal(stored?.messages.length, 4);
+        assert.deepEqual(stored?.lastPartNumbers, ['PS11752778']);
+        assert.deepEqual(stored?.lastModelNumbers, ['WDT780SAEM1']);
+      }
+    },
+    {
+      name: 'a session save that cannot be written rejects, and later saves still go through',
+      run: async () => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+        try {
+          const filePath = path.join(directory, 'sessions.json');
+          const sessions = new SessionService(new FileSessionStore(filePath));
+          const session = await sessions.getOrCreate();
+          await sessions.recordTurn(session, message('user', 'hi'), message('assistant', 'hello'), []);
+
+          // A directory in the way of the temp file makes the next write fail
+          await fs.mkdir(`${filePath}.tmp`);
+          await assert.rejects(sessions.recordTurn(session, message('user', 'still there?'), message('assistant', 'yes'), []));
+
+          await fs.rmdir(`${filePath}.tmp`);
+          await sessions.recordTurn(session, message('user', 'hi again'), message('assistant', 'hello again'), []);
+          const stored = JSON.parse(await fs.readFile(filePath, 'utf8'));
+          assert.equal(stored[session.id].messages.length, 6);
+        } finally {
+          await fs.rm(directory, { recursive: true, force: true });
+        }
+      }
+    },
+    {
+      name: 'generated session ids are not guessable from the clock',
+      run: async () => {
+        const sessions = new SessionService(new InMemorySessionStore());
+        const { id } = await sessions.getOrCreate();
+        assert.match(id, /^session_[0-9a-f-]{36}$/);
+      }
+    }
+  ]
+};
@@ -0,0 +1,188 @@
+import { CartView, Product, Tool, ToolExecutionContext, ToolResult } from '../types';
+import { CartError, CartService, AddToCartResult } from '../services/CartService';
+import { SearchService } from '../services/SearchService';
+import { CartToolSchema } from '../data/schemas';
+import { describeParameters } from './toolSchema';
+import { describeOffer } from '../utils/pricing';
+import { pickSavedAppliance } from '../services/ApplianceProfileService';
+
+interface CartToolParameters {
+  action: 'add' | 'remove' | 'view';
+  partNumber?: string;
+  product?: string;
+  quantity?: number;
+  modelNumber?: string;
+}
+
+// How many candidates to offer when a described product matches several parts
+const MAX_CANDIDATES = 3;
+
+/**
+ * A tool that adds parts to, removes parts from and lists the chat session's shopping cart.
+ * Parts can be named by part number or described ("the water filter"); a description is
+ * matched against the catalog, preferring parts already discussed in the conversation.
+ */
+export class CartTool implements Tool {
+  /**
+   * The name of the tool, used by the agent to identify it.
+   */
+  public readonly name = 'Cart';
+
+  /**
+   * A detailed description of the tool's function.
+   */
+  public readonly description = 'Add a part to the user\'s cart, remove one, or show what is in the cart. Pass a partNumber when known, otherwise describe the product as the user did.';
+
+  /**
+   * The Zod schema used to validate and coerce parameters before execution.
+   */
+  public readonly schema = CartToolSchema;
+
+  /**
+   * The expected parameters for the tool, including their type and description, derived from the schema.
+   */
+  public readonly parameters = describeParameters(CartToolSchema);
+
+  /**
+   * @param cartService - The service that stores the session's cart.
+   * @param searchService - Used to find the part a description refers to.
+   */
+  constructor(private cartService: CartService, private searchService: SearchService) {}
+
+  /**
+   * Adds, removes or lists cart items for the current chat session.
+   * @param parameters - Expected to contain an `action`, plus a `partNumber` or `product` to add or remove.
+   * @param context - The chat session the cart belongs to, and the parts and models discussed in it.
+   * @returns A promise that resolves to a ToolResult object indicating success or failure.
+   */
+  public async execute(parameters: Record<string, any>, context: ToolExecutionContext = {}): Promise<ToolResult> {
+    const { action, product, quantity, modelNumber } = parameters as CartToolParameters;
+
+    console.log(`[CartTool] - Executing with parameters: Action: ${action}, Part Number: ${parameters.partNumber || 'N/A'}, Product: "${product || 'N/A'}"`);
+
+    if (!context.sessionId) {
+      return this.fail('The cart requires a chat session.');
+    }
+
+    try {
+      if (action === 'view') {
+        const cart = await this.cartService.get(context.sessionId);
+        return { success: true, data: { summary: this.describeCart(cart), cart }, metadata: { action, itemCount: cart.itemCount } };
+      }
+
+      const target = await this.findPart(parameters as CartToolParameters, context, action);
+      if ('candidates' in target) {
+        return { success: true, data: { summary: target.summary, needsClarification: true, products: target.candidates }, metadata: { action } };
+      }
+
+      if (action === 'remove') {
+        const cart = await this.cartService.removeItem(context.sessionId, target.partNumber, quantity);
+        const summary = `Removed ${quantity ? `${quantity} x ` : ''}part ${target.partNumber} from the cart. ${this.describeCart(cart)}`;
+        return { success: true, data: { summary, cart }, metadata: { action, partNumber: target.partNumber, itemCount: cart.itemCount } };
+      }
+
+      const result = await this.cartService.addItem(context.sessionId, target.partNumber, quantity, modelNumber || this.findModel(target.partNumber, context));
+      console.log(`[CartTool] - Cart ${context.sessionId} now holds ${result.cart.itemCount} item(s).`);
+      return {
+        success: true,
+        data: { summary: this.describeAddition(result, quantity || 1), cart: result.cart, line: result.line },
+        metadata: {
+          action,
+          partNumber: result.line.partNumber,
+          modelNumber: result.cart.modelNumber,
+          isCompatible: result.compatibility?.isCompatible,
+          itemCount: result.cart.itemCount
+        }
+      };
+
+    } catch (error) {
+      if (error instanceof CartError) {
+        return this.fail(error.message);
+      }
+      const errorMessage = `Cart update failed: ${(error as Error).message}`;
+      console.error(`[CartTool] - Execution failed due to an exception: ${errorMessage}`);
+      return this.fail(errorMessage);
+    }
+  }
+
+  private fail(error: string): ToolResult {
+    console.error(`[CartTool] - Execution failed: ${error}`);
+    return { success: false, error };
+  }
+
+  /**
+   * Works out which part the user means: the given part number, the catalog match for a
+   * description, or the part discussed most recently. A description that matches several
+   * parts, none of them discussed earlier, is returned as candidates to choose from.
+   * @private
+   */
+  private async findPart(
+    parameters: CartToolParameters,
+    context: ToolExecutionContext,
+    action: 'add' | 'remove'
+  ): Promise<{ partNumber: string } | { summary: string; candidates: Product[] }> {
+    if (parameters.partNumber) {
+      return { partNumber: parameters.partNumber };
+    }
+
+    const recent = context.recentPartNumbers || [];
+    if (!parameters.product) {
+      if (recent.length === 0) {
+        throw new CartError(`Which part should I ${action === 'add' ? 'add to' : 'remove from'} the cart? A part number or product name will do.`, 'PART_NOT_FOUND');
+      }
+      return { partNumber: recent[0] };
+    }
+
+    const { products } = await this.searchService.searchProducts({ query: parameters.product, limit: MAX_CANDIDATES });
+    if (products.length === 0) {
+      throw new CartError(`No part matching "${parameters.product}" was found in our catalog.`, 'PART_NOT_FOUND');
+    }
+    const discussed = recent
+      .map(partNumber => products.find(product => product.partNumber === this.searchService.resolvePartNumber(partNumber)?.product.partNumber))
+      .find((product): product is Product => product !== undefined);
+    if (discussed || products.length === 1) {
+      return { partNumber: (discussed || products[0]).partNumber };
+    }
+
+    const options = products.map(product => `${product.name} (${product.partNumber}) - ${describeOffer(product)}`).join('; ');
+    return { summary: `Several parts match "${parameters.product}": ${options}. Which one should I ${action}?`, candidates: products };
+  }
+
+  /**
+   * The appliance a part is being bought for: the user's saved appliance of the part's type,
+   * or else the model discussed most recently.
+   * @private
+   */
+  private findModel(partNumber: string, context: ToolExecutionContext): string | undefined {
+    const category = this.searchService.resolvePartNumber(partNumber)?.product.category;
+    return pickSavedAppliance(context.appliances, category)?.modelNumber || context.recentModelNumbers?.[0];
+  }
+
+  /**
+   * Summarizes an addition: the line, its price and availability, and whether it fits the
+   * appliance the cart is for.
+   * @private
+   */
+  private describeAddition(result: AddToCartResult, quantity: number): string {
+    const { line, cart, compatibility, notice } = result;
+    const product = this.searchService.resolvePartNumber(line.partNumber)?.product;
+    let summary = `Added ${quantity} x ${line.name} (${line.partNumber}) to the cart${product ? ` - ${describeOffer(product)}` : ''}.`;
+    if (notice) {
+      summary += ` ${notice}`;
+    }
+    if (compatibility && !compatibility.isCompatible) {
+      summary += ` Warning: it is not compatible with model ${compatibility.modelNumber}. ${compatibility.reason}`;
+    } else if (compatibility) {
+      summary += ` It fits model ${compatibility.modelNumber}.`;
+    }
+    return `${summary} ${this.describeCart(cart)}`;
+  }
+
+  private describeCart(cart: CartView): string {
+    if (cart.lines.length === 0) {
+      return 'The cart is empty.';
+    }
+    const lines = cart.lines.map(line => `${line.quantity} x ${line.name} (${line.partNumber}) $${line.lineTotal.toFixed(2)}`).join(', ');
+    return `Cart: ${lines}. Subtotal $${cart.subtotal.toFixed(2)} for ${cart.itemCount} item(s).`;
+  }
+}
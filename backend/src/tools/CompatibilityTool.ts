@@ -1,10 +1,14 @@
-import { Tool, ToolResult, CompatibilityCheck } from '../types';
+import { Tool, ToolExecutionContext, ToolResult, CompatibilityCheck } from '../types';
 import { SearchService } from '../services/SearchService';
+import { CompatibilityToolSchema } from '../data/schemas';
+import { describeParameters } from './toolSchema';
+import { describeOffer, withOffer } from '../utils/pricing';
+import { pickSavedAppliance } from '../services/ApplianceProfileService';
 
 // Note: Assuming tool schemas are managed centrally or in a file like this
 interface CompatibilityToolParameters {
   partNumber: string;
-  modelNumber: string;
+  modelNumber?: string;
 }
 
 /**
@@ -24,12 +28,14 @@ export class CompatibilityTool implements Tool {
   public readonly description = 'Check if a specific part is compatible with an appliance model.';
 
   /**
-   * The expected parameters for the tool, including their type and description.
+   * The Zod schema used to validate and coerce parameters before execution.
    */
-  public readonly parameters = {
-    partNumber: { type: 'string', description: 'Part number to check compatibility for', required: true },
-    modelNumber: { type: 'string', description: 'Appliance model number', required: true }
-  };
+  public readonly schema = CompatibilityToolSchema;
+
+  /**
+   * The expected parameters for the tool, including their type and description, derived from the schema.
+   */
+  public readonly parameters = describeParameters(CompatibilityToolSchema);
 
   /**
    * @param searchService - An instance of the SearchService to be used for data retrieval.
@@ -37,17 +43,20 @@ export class CompatibilityTool implements Tool {
   constructor(private searchService: SearchService) {}
 
   /**
-   * Executes the compatibility check based on provided parameters.
-   * @param parameters - A record of string keys and any values. Expected to contain `partNumber` and `modelNumber`.
+   * Executes the compatibility check based on provided parameters. Without a model number,
+   * the part is checked against the user's saved appliance of the same type.
+   * @param parameters - A record of string keys and any values. Expected to contain `partNumber` and optionally `modelNumber`.
+   * @param context - The user's saved appliances, used when no model number is given.
    * @returns A promise that resolves to a ToolResult object indicating success or failure.
    */
-  public async execute(parameters: Record<string, any>): Promise<ToolResult> {
-    const { partNumber, modelNumber } = parameters as CompatibilityToolParameters;
+  public async execute(parameters: Record<string, any>, context: ToolExecutionContext = {}): Promise<ToolResult> {
+    const { partNumber } = parameters as CompatibilityToolParameters;
+    const modelNumber = (parameters as CompatibilityToolParameters).modelNumber || this.findSavedModel(partNumber, context);
 
     console.log(`[CompatibilityTool] - Executing with parameters: Part Number: ${partNumber}, Model Number: ${modelNumber}`);
 
     if (!partNumber || !modelNumber) {
-      const error = 'Missing required parameters: partNumber and modelNumber.';
+      const error = 'Missing required parameters: partNumber and modelNumber (no appliance is saved in the user\'s profile).';
       console.error(`[CompatibilityTool] - Execution failed: ${error}`);
       return {
         success: false,
@@ -65,11 +74,22 @@ export class CompatibilityTool implements Tool {
       
       return {
         success: true,
-        data: { summary, recommendation },
+        data: {
+          summary,
+          recommendation,
+          confidence: compatibilityResult.confidence,
+          matchType: compatibilityResult.matchType,
+          shipping: compatibilityResult.shipping,
+          alternativeParts: (compatibilityResult.alternativeParts || []).map(part => withOffer(part))
+        },
         metadata: {
           partNumber: compatibilityResult.partNumber,
           modelNumber: compatibilityResult.modelNumber,
-          isCompatible: compatibilityResult.isCompatible
+          isCompatible: compatibilityResult.isCompatible,
+          resolvedPartNumber: compatibilityResult.resolvedPartNumber,
+          confidence: compatibilityResult.confidence,
+          matchType: compatibilityResult.matchType,
+          matchedModel: compatibilityResult.matchedModel
         }
       };
 
@@ -83,19 +103,32 @@ export class CompatibilityTool implements Tool {
     }
   }
 
+  /**
+   * The saved appliance a part is most likely meant for: one of the part's appliance type.
+   * @private
+   */
+  private findSavedModel(partNumber: string | undefined, context: ToolExecutionContext): string | undefined {
+    const category = partNumber ? this.searchService.resolvePartNumber(partNumber)?.product.category : undefined;
+    return pickSavedAppliance(context.appliances, category)?.modelNumber;
+  }
+
   /**
    * Generates a concise summary message based on the compatibility result.
    * @param result - The compatibility check result object.
    * @returns A string summary of the compatibility outcome.
    */
   private generateCompatibilitySummary(result: CompatibilityCheck): string {
-    const { partNumber, modelNumber, isCompatible, confidence, reason } = result;
+    const { modelNumber, isCompatible, confidence, reason } = result;
+    // Name the current part when the requested number was an alias or has been replaced
+    const partNumber = result.resolvedPartNumber || result.partNumber;
 
-    if (isCompatible) {
-      const confidenceText = confidence >= 1.0 ? 'confirmed' : 'likely';
-      return `COMPATIBLE - Part ${partNumber} is ${confidenceText} compatible with model ${modelNumber}. ${reason}`;
+    // A confirmed or failed match's reason already states the outcome for the part and model
+    if (isCompatible && confidence >= 1.0) {
+      return `COMPATIBLE - ${reason}${this.describeShipping(result)}`;
+    } else if (isCompatible) {
+      return `COMPATIBLE - Part ${partNumber} is likely compatible with model ${modelNumber}. ${reason}${this.describeShipping(result)}`;
     } else {
-      return `NOT COMPATIBLE - Part ${partNumber} is not compatible with model ${modelNumber}. ${reason}`;
+      return `NOT COMPATIBLE - ${reason}`;
     }
   }
 
@@ -105,14 +138,16 @@ export class CompatibilityTool implements Tool {
    * @returns A string recommendation for the next steps.
    */
   private generateRecommendation(result: CompatibilityCheck): string {
-    const { isCompatible, alternativeParts } = result;
+    const { isCompatible, confidence, alternativeParts } = result;
 
-    if (isCompatible) {
+    if (isCompatible && confidence < 1.0) {
+      return "This part is listed for a closely related model. Confirm the full model number on your appliance's rating label before ordering.";
+    } else if (isCompatible) {
       return "You can proceed with this part. Make sure to follow proper installation procedures and safety guidelines.";
     } else {
       if (alternativeParts && alternativeParts.length > 0) {
         const alternatives = alternativeParts
-          .map(part => `${part.name} (${part.partNumber}) - $${part.price}`)
+          .map(part => `${part.name} (${part.partNumber}) - ${describeOffer(part)}`)
           .join(', ');
         
         return `Consider these compatible alternatives: ${alternatives}.`;
@@ -121,4 +156,21 @@ export class CompatibilityTool implements Tool {
       }
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Says when a compatible part that is not in stock ships, and names an in-stock equivalent,
+   * e.g. " It is backordered, ships in ~10 days; an in-stock equivalent is ...".
+   * @param result - The compatibility check result object.
+   * @returns The sentence, with a leading space, or an empty string for in-stock parts.
+   */
+  private describeShipping(result: CompatibilityCheck): string {
+    const { shipping, alternativeParts } = result;
+    if (!shipping || shipping.availability === 'in-stock') {
+      return '';
+    }
+    const equivalent = alternativeParts?.[0];
+    return equivalent
+      ? ` It is ${shipping.summary}; an in-stock equivalent is ${equivalent.name} (${equivalent.partNumber}) - ${describeOffer(equivalent)}.`
+      : ` It is ${shipping.summary}.`;
+  }
+}
@@ -0,0 +1,147 @@
+import { ApplianceCategoryId, DiagnosticSession, Tool, ToolExecutionContext, ToolResult } from '../types';
+import { DiagnosticService, DiagnosticSessionError, DiagnosticSessionView } from '../services/DiagnosticService';
+import { GuidedTroubleshootingToolSchema } from '../data/schemas';
+import { describeParameters } from './toolSchema';
+
+interface GuidedTroubleshootingToolParameters {
+  action: 'start' | 'answer' | 'status';
+  symptom?: string;
+  category?: ApplianceCategoryId;
+  answer?: 'yes' | 'no';
+  note?: string;
+}
+
+/**
+ * A tool that walks the user through a troubleshooting guide one check at a time.
+ * The diagnosis is tied to the chat session, so each yes/no reply in the conversation
+ * advances the same diagnostic session until it reaches a conclusion.
+ */
+export class GuidedTroubleshootingTool implements Tool {
+  /**
+   * The name of the tool, used by the agent to identify it.
+   */
+  public readonly name = 'GuidedTroubleshooting';
+
+  /**
+   * A detailed description of the tool's function.
+   */
+  public readonly description = 'Walk the user through diagnosing an appliance problem one yes/no check at a time. Use "start" when the user wants step-by-step help, and "answer" when they reply to the current diagnostic question.';
+
+  /**
+   * The Zod schema used to validate and coerce parameters before execution.
+   */
+  public readonly schema = GuidedTroubleshootingToolSchema;
+
+  /**
+   * The expected parameters for the tool, including their type and description, derived from the schema.
+   */
+  public readonly parameters = describeParameters(GuidedTroubleshootingToolSchema);
+
+  /**
+   * @param diagnosticService - The service that stores and advances diagnostic sessions.
+   */
+  constructor(private diagnosticService: DiagnosticService) {}
+
+  /**
+   * Starts, advances or reports the diagnosis for the current chat session.
+   * @param parameters - Expected to contain an `action`, plus a `symptom` to start or an `answer` to advance.
+   * @param context - The chat session the diagnosis belongs to.
+   * @returns A promise that resolves to a ToolResult object indicating success or failure.
+   */
+  public async execute(parameters: Record<string, any>, context: ToolExecutionContext = {}): Promise<ToolResult> {
+    const { action, symptom, category, answer, note } = parameters as GuidedTroubleshootingToolParameters;
+
+    console.log(`[GuidedTroubleshootingTool] - Executing with parameters: Action: ${action}, Symptom: "${symptom || 'N/A'}", Answer: ${answer || 'N/A'}`);
+
+    if (!context.sessionId) {
+      return this.fail('Guided troubleshooting requires a chat session.');
+    }
+
+    try {
+      let session: DiagnosticSession | null;
+
+      if (action === 'start') {
+        if (!symptom) {
+          return this.fail('Missing required parameter for "start": symptom.');
+        }
+        session = await this.diagnosticService.start({ symptom, category, conversationId: context.sessionId });
+      } else {
+        session = await this.diagnosticService.getForConversation(context.sessionId);
+        if (!session) {
+          return this.fail('There is no diagnosis in progress. Start one by describing the problem.');
+        }
+        if (action === 'answer') {
+          if (!answer) {
+            return this.fail('Missing required parameter for "answer": answer (yes or no).');
+          }
+          session = await this.diagnosticService.answer(session.id, answer === 'yes', note);
+        }
+      }
+
+      const view = await this.diagnosticService.describe(session);
+
+      console.log(`[GuidedTroubleshootingTool] - Diagnosis ${view.id} is ${view.status}${view.currentStep ? ` at step ${view.currentStep.step}` : ''}.`);
+
+      return {
+        success: true,
+        data: {
+          summary: this.generateSummary(view),
+          session: view,
+          recommendedParts: view.conclusion?.recommendedParts || []
+        },
+        metadata: {
+          diagnosticSessionId: view.id,
+          status: view.status,
+          currentStep: view.currentStep?.step,
+          answeredSteps: view.trail.length,
+          outcome: view.conclusion?.outcome
+        }
+      };
+
+    } catch (error) {
+      if (error instanceof DiagnosticSessionError && error.code === 'SYMPTOM_AMBIGUOUS') {
+        return { success: true, data: { summary: error.message, needsClarification: true }, metadata: { action } };
+      }
+      if (error instanceof DiagnosticSessionError) {
+        return this.fail(error.message);
+      }
+      const errorMessage = `Guided troubleshooting failed: ${(error as Error).message}`;
+      console.error(`[GuidedTroubleshootingTool] - Execution failed due to an exception: ${errorMessage}`);
+      return this.fail(errorMessage);
+    }
+  }
+
+  private fail(error: string): ToolResult {
+    console.error(`[GuidedTroubleshootingTool] - Execution failed: ${error}`);
+    return { success: false, error };
+  }
+
+  /**
+   * Generates a concise summary: the next question while in progress, or the conclusion once done.
+   * @param view - The diagnostic session view.
+   * @returns A string summary of the diagnosis state.
+   */
+  private generateSummary(view: DiagnosticSessionView): string {
+    if (view.currentStep) {
+      return `Diagnosing "${view.symptom.description}", check ${view.trail.length + 1}: ${view.currentStep.question}`;
+    }
+
+    const conclusion = view.conclusion;
+    if (!conclusion) {
+      return `The diagnosis for "${view.symptom.description}" has ended.`;
+    }
+
+    let summary = conclusion.summary;
+    if (conclusion.recommendedAction) {
+      summary += ` Recommended action: ${conclusion.recommendedAction}.`;
+    }
+    if (conclusion.recommendedParts.length > 0) {
+      const partNames = conclusion.recommendedParts.map(part => `${part.name} (${part.partNumber})`).join(', ');
+      summary += ` Recommended parts: ${partNames}.`;
+    }
+    if (conclusion.shouldContactProfessional) {
+      summary += ' If the problem persists, consider contacting a qualified technician.';
+    }
+    return summary;
+  }
+}
@@ -1,5 +1,7 @@
 import { Tool, ToolResult } from '../types';
 import { SearchService } from '../services/SearchService';
+import { InstallationToolSchema } from '../data/schemas';
+import { describeParameters } from './toolSchema';
 
 // Note: Assuming tool schemas are managed centrally or in a file like this
 interface InstallationToolParameters {
@@ -23,11 +25,14 @@ export class InstallationTool implements Tool {
   public readonly description = 'Get step-by-step installation instructions for a specific part.';
 
   /**
-   * The expected parameters for the tool, including their type and description.
+   * The Zod schema used to validate and coerce parameters before execution.
    */
-  public readonly parameters = {
-    partNumber: { type: 'string', description: 'Part number to get installation instructions for', required: true }
-  };
+  public readonly schema = InstallationToolSchema;
+
+  /**
+   * The expected parameters for the tool, including their type and description, derived from the schema.
+   */
+  public readonly parameters = describeParameters(InstallationToolSchema);
 
   /**
    * @param searchService - An instance of the SearchService to be used for data retrieval.
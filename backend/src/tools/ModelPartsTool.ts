@@ -0,0 +1,118 @@
+import { ApplianceCategoryId, Tool, ToolResult, ModelPartsResult } from '../types';
+import { SearchService } from '../services/SearchService';
+import { ModelPartsToolSchema } from '../data/schemas';
+import { describeParameters } from './toolSchema';
+import { withOffer } from '../utils/pricing';
+
+interface ModelPartsToolParameters {
+  modelNumber: string;
+  category?: ApplianceCategoryId;
+}
+
+/**
+ * A tool to list the parts that fit a given appliance model, for users who know
+ * their model number but not the part number they need.
+ */
+export class ModelPartsTool implements Tool {
+  /**
+   * The name of the tool, used by the agent to identify it.
+   */
+  public readonly name = 'ModelPartsLookup';
+
+  /**
+   * A detailed description of the tool's function.
+   */
+  public readonly description = 'List all parts that fit an appliance model number, grouped by subsystem. Use when the user knows their model but not the part number.';
+
+  /**
+   * The Zod schema used to validate and coerce parameters before execution.
+   */
+  public readonly schema = ModelPartsToolSchema;
+
+  /**
+   * The expected parameters for the tool, including their type and description, derived from the schema.
+   */
+  public readonly parameters = describeParameters(ModelPartsToolSchema);
+
+  /**
+   * @param searchService - An instance of the SearchService to be used for data retrieval.
+   */
+  constructor(private searchService: SearchService) {}
+
+  /**
+   * Looks up the parts compatible with a model number.
+   * @param parameters - A record of string keys and any values. Expected to contain a `modelNumber` and optional `category`.
+   * @returns A promise that resolves to a ToolResult object indicating success or failure.
+   */
+  public async execute(parameters: Record<string, any>): Promise<ToolResult> {
+    const { modelNumber, category } = parameters as ModelPartsToolParameters;
+
+    console.log(`[ModelPartsTool] - Executing with parameters: Model: ${modelNumber}, Category: ${category || 'N/A'}`);
+
+    if (!modelNumber) {
+      const error = 'Missing required parameter: modelNumber.';
+      console.error(`[ModelPartsTool] - Execution failed: ${error}`);
+      return {
+        success: false,
+        error
+      };
+    }
+
+    try {
+      const result = await this.searchService.getPartsForModel(modelNumber, category);
+
+      console.log(`[ModelPartsTool] - ${result.found ? `Found ${result.totalCount} parts` : 'Model not found'} for ${modelNumber}.`);
+
+      // An unknown model is reported as a successful lookup so the agent can offer the suggestions
+      return {
+        success: true,
+        data: {
+          summary: this.generateSummary(result),
+          modelNumber: result.modelNumber,
+          found: result.found,
+          groups: result.groups.map(group => ({
+            subsystem: group.subsystem,
+            category: group.category,
+            partNumbers: group.products.map(product => product.partNumber)
+          })),
+          products: result.groups.flatMap(group => group.products).map(product => withOffer(product)),
+          suggestions: result.suggestions
+        },
+        metadata: {
+          modelNumber: result.modelNumber,
+          found: result.found,
+          totalCount: result.totalCount,
+          groupCount: result.groups.length
+        }
+      };
+
+    } catch (error) {
+      const errorMessage = `Model parts lookup failed: ${(error as Error).message}`;
+      console.error(`[ModelPartsTool] - Execution failed due to an exception: ${errorMessage}`);
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Generates a concise summary message from the lookup result.
+   * @param result - The model parts result.
+   * @returns A string summary of the parts found, or of the near-miss models.
+   */
+  private generateSummary(result: ModelPartsResult): string {
+    if (!result.found) {
+      return result.suggestions.length > 0
+        ? `Model ${result.modelNumber} was not found. Did you mean ${result.suggestions.join(', ')}?`
+        : `Model ${result.modelNumber} was not found. Please check the model number on the appliance's rating label.`;
+    }
+
+    if (result.totalCount === 0) {
+      return `No parts of the requested type are listed for model ${result.modelNumber}.`;
+    }
+
+    const groups = result.groups.map(group => `${group.subsystem} (${group.products.length})`).join(', ');
+    return `Found ${result.totalCount} parts that fit model ${result.modelNumber}: ${groups}.`;
+  }
+}
@@ -1,8 +1,22 @@
-import { Tool, ToolResult, ProductSearchParams, SearchResult } from '../types';
+import { Tool, ToolExecutionContext, ToolResult, ProductSearchParams, SearchResult, SearchFacets } from '../types';
 import { SearchService } from '../services/SearchService';
-
-// Note: Using a type alias for clarity on the expected parameters
-type ProductSearchToolParameters = ProductSearchParams;
+import { ProductSearchToolSchema } from '../data/schemas';
+import { describeParameters } from './toolSchema';
+import { describeOffer, withOffer } from '../utils/pricing';
+import { pickSavedAppliance } from '../services/ApplianceProfileService';
+
+// Note: The LLM supplies a flat price range, which is mapped onto ProductSearchParams.priceRange
+type ProductSearchToolParameters = Omit<ProductSearchParams, 'priceRange'> & {
+  priceMin?: number;
+  priceMax?: number;
+};
+
+// Facets worth mentioning in the summary, with the noun used for them
+const SUMMARIZED_FACETS: Array<{ key: 'brand' | 'category' | 'availability'; label: string }> = [
+  { key: 'brand', label: 'brand' },
+  { key: 'category', label: 'appliance' },
+  { key: 'availability', label: 'availability' }
+];
 
 /**
  * A tool to search for appliance parts using various criteria such as part number,
@@ -18,18 +32,17 @@ export class ProductSearchTool implements Tool {
   /**
    * A detailed description of the tool's function.
    */
-  public readonly description = 'Search for appliance parts by part number, product name, brand, or category (refrigerator/dishwasher).';
+  public readonly description = 'Search for appliance parts by part number, product name, brand, or appliance category.';
+
+  /**
+   * The Zod schema used to validate and coerce parameters before execution.
+   */
+  public readonly schema = ProductSearchToolSchema;
 
   /**
-   * The expected parameters for the tool, including their type and description.
+   * The expected parameters for the tool, including their type and description, derived from the schema.
    */
-  public readonly parameters = {
-    query: { type: 'string', description: 'Search query or product description' },
-    partNumber: { type: 'string', description: 'Specific part number to search for' },
-    category: { type: 'string', enum: ['refrigerator', 'dishwasher'], description: 'Appliance category' },
-    brand: { type: 'string', description: 'Brand name (Whirlpool, GE, Frigidaire, etc.)' },
-    limit: { type: 'number', description: 'Maximum number of results (default: 5)' }
-  };
+  public readonly parameters = describeParameters(ProductSearchToolSchema);
 
   /**
    * @param searchService - An instance of the SearchService to be used for data retrieval.
@@ -38,16 +51,34 @@ export class ProductSearchTool implements Tool {
 
   /**
    * Executes the product search based on the provided parameters.
+   * Without a model number, results are limited to parts that fit the user's saved appliance of
+   * the searched type (or their only saved appliance when no type is given); if none of the
+   * matches fit it, every match is returned with a notice saying so.
    * @param parameters - A record of string keys and any values. Expected to contain search criteria.
+   * @param context - The user's saved appliances, used when no model number is given.
    * @returns A promise that resolves to a ToolResult object indicating success or failure.
    */
-  public async execute(parameters: Record<string, any>): Promise<ToolResult> {
-    const searchParams: ProductSearchToolParameters = parameters;
+  public async execute(parameters: Record<string, any>, context: ToolExecutionContext = {}): Promise<ToolResult> {
+    const { priceMin, priceMax, ...rest } = parameters as ProductSearchToolParameters;
+    const savedModel = !rest.modelNumber && !rest.partNumber
+      ? pickSavedAppliance(context.appliances, rest.category)?.modelNumber
+      : undefined;
+    const searchParams: ProductSearchParams = {
+      ...rest,
+      ...(savedModel && { modelNumber: savedModel }),
+      ...((priceMin !== undefined || priceMax !== undefined) && { priceRange: { min: priceMin, max: priceMax } })
+    };
 
     console.log(`[ProductSearchTool] - Executing with parameters: ${JSON.stringify(searchParams)}`);
 
     try {
-      const searchResult = await this.searchService.searchProducts(searchParams);
+      let searchResult = await this.searchService.searchProducts(searchParams);
+      if (savedModel && searchResult.totalCount === 0) {
+        const unfiltered = await this.searchService.searchProducts({ ...searchParams, modelNumber: undefined });
+        if (unfiltered.totalCount > 0) {
+          searchResult = { ...unfiltered, notices: [...(unfiltered.notices || []), `None of these parts are listed for your ${savedModel}.`] };
+        }
+      }
 
       const summary = this.generateSearchSummary(searchResult, searchParams);
 
@@ -57,11 +88,14 @@ export class ProductSearchTool implements Tool {
         success: true,
         data: {
           summary,
-          products: searchResult.products,
+          products: searchResult.products.map(product => withOffer(product)),
           suggestions: searchResult.suggestions,
+          notices: searchResult.notices,
+          facets: searchResult.facets
         },
         metadata: {
           searchTerms: searchResult.searchTerms,
+          savedModelNumber: savedModel,
           resultCount: searchResult.products.length,
           totalCount: searchResult.totalCount
         }
@@ -85,6 +119,8 @@ export class ProductSearchTool implements Tool {
    */
   private generateSearchSummary(searchResult: SearchResult, _searchParams: ProductSearchParams): string {
     const { products, totalCount, searchTerms } = searchResult;
+    // Replaced or alias part numbers are explained before the results
+    const notices = (searchResult.notices || []).map(notice => `${notice} `).join('');
 
     if (totalCount === 0) {
       if (searchResult.suggestions && searchResult.suggestions.length > 0) {
@@ -99,12 +135,29 @@ export class ProductSearchTool implements Tool {
 
     if (totalCount === 1) {
       const product = products[0];
-      return `Found 1 product ${description}: ${product.name} (${product.partNumber}).`;
+      return `${notices}Found 1 product ${description}: ${product.name} (${product.partNumber}), ${describeOffer(product)}.`;
     }
 
     const topProduct = products[0];
-    const summary = `Found ${totalCount} products ${description}. Top result is ${topProduct.name} (${topProduct.partNumber}).`;
+    const summary = `${notices}Found ${totalCount} products ${description}. Top result is ${topProduct.name} (${topProduct.partNumber}), ${describeOffer(topProduct)}.`;
+
+    return `${summary}${this.describeFacets(searchResult.facets)}`;
+  }
+
+  /**
+   * Describes how the results split across brands, appliances and availability,
+   * e.g. " By brand: 3 GE, 5 Whirlpool." Facets with a single value are skipped.
+   * @param facets - The facet counts for the whole result set.
+   * @returns The sentence(s), with a leading space, or an empty string.
+   */
+  private describeFacets(facets?: SearchFacets): string {
+    if (!facets) {
+      return '';
+    }
 
-    return summary;
+    return SUMMARIZED_FACETS
+      .filter(({ key }) => facets[key].length > 1)
+      .map(({ key, label }) => ` By ${label}: ${facets[key].map(facet => `${facet.count} ${facet.value}`).join(', ')}.`)
+      .join('');
   }
 }
\ No newline at end of file
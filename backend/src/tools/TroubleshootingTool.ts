@@ -1,10 +1,12 @@
-import { Tool, ToolResult, TroubleshootingResult } from '../types';
-import { SearchService } from '../services/SearchService';
+import { ApplianceCategoryId, Tool, ToolResult, TroubleshootingResult } from '../types';
+import { SearchService, CLARIFICATION_CONFIDENCE } from '../services/SearchService';
+import { TroubleshootingToolSchema } from '../data/schemas';
+import { describeParameters } from './toolSchema';
 
 // Note: Using a type alias for clarity on the expected parameters
 interface TroubleshootingToolParameters {
   symptom: string;
-  category?: 'refrigerator' | 'dishwasher';
+  category?: ApplianceCategoryId;
   brand?: string;
   modelNumber?: string;
 }
@@ -26,14 +28,14 @@ export class TroubleshootingTool implements Tool {
   public readonly description = 'Diagnose appliance problems and recommend solutions based on symptoms.';
 
   /**
-   * The expected parameters for the tool, including their type and description.
+   * The Zod schema used to validate and coerce parameters before execution.
    */
-  public readonly parameters = {
-    symptom: { type: 'string', description: 'Description of the problem or symptom', required: true },
-    category: { type: 'string', enum: ['refrigerator', 'dishwasher'], description: 'Type of appliance' },
-    brand: { type: 'string', description: 'Brand of the appliance' },
-    modelNumber: { type: 'string', description: 'Specific model number if available' }
-  };
+  public readonly schema = TroubleshootingToolSchema;
+
+  /**
+   * The expected parameters for the tool, including their type and description, derived from the schema.
+   */
+  public readonly parameters = describeParameters(TroubleshootingToolSchema);
 
   /**
    * @param searchService - An instance of the SearchService to be used for data retrieval.
@@ -61,18 +63,13 @@ export class TroubleshootingTool implements Tool {
 
     try {
       const troubleshootingResults = await this.searchService.searchTroubleshooting(symptom, category);
+      const bestMatch = troubleshootingResults[0];
 
-      if (!troubleshootingResults || troubleshootingResults.length === 0) {
-        const error = `No troubleshooting information found for the symptom: "${symptom}".`;
-        console.error(`[TroubleshootingTool] - Execution failed: ${error}`);
-        return {
-          success: false,
-          error
-        };
+      // Weak or missing matches become a clarifying question rather than a failure or a guess
+      if (!bestMatch || bestMatch.confidence < CLARIFICATION_CONFIDENCE) {
+        return await this.requestClarification(symptom, troubleshootingResults, category);
       }
 
-      const bestMatch = troubleshootingResults[0];
-
       console.log(`[TroubleshootingTool] - Found guidance for "${symptom}" with ${bestMatch.suggestedSteps?.length || 0} diagnostic steps.`);
 
       return {
@@ -84,7 +81,9 @@ export class TroubleshootingTool implements Tool {
           professionalContact: {
             shouldContact: bestMatch.shouldContactProfessional,
             reason: bestMatch.reason
-          }
+          },
+          confidence: bestMatch.confidence,
+          otherCandidates: troubleshootingResults.slice(1).map(result => this.describeCandidate(result))
         },
         metadata: {
           symptom: bestMatch.symptom.description,
@@ -105,6 +104,51 @@ export class TroubleshootingTool implements Tool {
     }
   }
 
+  /**
+   * Builds a successful result that asks the user which problem they mean, offering the weak
+   * matches or, when nothing matched, every guide for the appliance.
+   * @param symptom - The user's description.
+   * @param results - The candidates found, best first.
+   * @param category - The appliance category, if known.
+   * @returns A ToolResult flagged with `needsClarification`.
+   */
+  private async requestClarification(symptom: string, results: TroubleshootingResult[], category?: ApplianceCategoryId): Promise<ToolResult> {
+    const candidates = results.length > 0
+      ? results.map(result => this.describeCandidate(result))
+      : (await this.searchService.getTroubleshootingSymptoms(category)).map(ts => ({ id: ts.id, description: ts.description, category: ts.category, confidence: 0 }));
+
+    console.log(`[TroubleshootingTool] - No confident match for "${symptom}"; asking for clarification between ${candidates.length} guides.`);
+
+    const options = candidates.map(candidate => `"${candidate.description}"`).join(', ');
+    const summary = results.length > 0
+      ? `I'm not sure which problem "${symptom}" describes. Does one of these match: ${options}?`
+      : `I couldn't match "${symptom}" to a known problem. Which of these is closest: ${options}? If none of these fit, please describe in more detail what the appliance is doing.`;
+
+    return {
+      success: true,
+      data: {
+        summary,
+        needsClarification: true,
+        candidates
+      },
+      metadata: {
+        symptom,
+        category: category || 'N/A',
+        candidateCount: candidates.length,
+        bestConfidence: results[0]?.confidence || 0
+      }
+    };
+  }
+
+  private describeCandidate(result: TroubleshootingResult) {
+    return {
+      id: result.symptom.id,
+      description: result.symptom.description,
+      category: result.symptom.category,
+      confidence: result.confidence
+    };
+  }
+
   /**
    * Generates a concise summary message from the troubleshooting data.
    * @param result - The troubleshooting result object.
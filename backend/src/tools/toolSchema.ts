@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { Tool, LLMToolDefinition, ToolParameterSpec } from '../types';
+
+/**
+ * Derives a tool's parameter map (`{ name: { type, description, enum?, required? } }`)
+ * from its Zod schema, so the parameters shown to the LLM and the validation applied
+ * before execution cannot drift apart.
+ * @param schema The tool's Zod object schema.
+ * @returns The parameter map exposed as `Tool.parameters`.
+ */
+export function describeParameters(schema: z.AnyZodObject): Record<string, ToolParameterSpec> {
+  const parameters: Record<string, ToolParameterSpec> = {};
+
+  for (const [name, field] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+    let current: z.ZodTypeAny = field;
+    let description = current.description;
+    let required = true;
+    let defaultValue: unknown;
+
+    // Unwrap modifiers, keeping the outermost description
+    while (
+      current instanceof z.ZodOptional ||
+      current instanceof z.ZodNullable ||
+      current instanceof z.ZodDefault ||
+      current instanceof z.ZodEffects
+    ) {
+      if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+        required = false;
+        current = current.unwrap();
+      } else if (current instanceof z.ZodDefault) {
+        required = false;
+        defaultValue = current._def.defaultValue();
+        current = current.removeDefault();
+      } else {
+        current = current.innerType();
+      }
+      description = description || current.description;
+    }
+
+    const spec: ToolParameterSpec = { type: zodTypeName(current) };
+    if (current instanceof z.ZodEnum) {
+      spec.enum = current.options;
+    }
+    if (current instanceof z.ZodArray) {
+      spec.items = { type: zodTypeName(current.element) };
+    }
+    if (description) {
+      spec.description = description;
+    }
+    if (defaultValue !== undefined) {
+      spec.default = defaultValue;
+    }
+    if (required) {
+      spec.required = true;
+    }
+
+    parameters[name] = spec;
+  }
+
+  return parameters;
+}
+
+function zodTypeName(type: z.ZodTypeAny): string {
+  if (type instanceof z.ZodNumber) return 'number';
+  if (type instanceof z.ZodBoolean) return 'boolean';
+  if (type instanceof z.ZodArray) return 'array';
+  if (type instanceof z.ZodObject) return 'object';
+  return 'string';
+}
+
+/**
+ * Converts a tool's parameter map (`{ name: { type, description, enum?, required? } }`)
+ * into an OpenAI-style function definition for native tool calling.
+ * @param tool The tool to describe.
+ * @returns The function definition offered to the model.
+ */
+export function toFunctionDefinition(tool: Tool): LLMToolDefinition {
+  const properties: Record<string, Omit<ToolParameterSpec, 'required'>> = {};
+  const required: string[] = [];
+
+  for (const [name, spec] of Object.entries(tool.parameters)) {
+    const { required: isRequired, ...schema } = spec as ToolParameterSpec;
+    properties[name] = schema;
+    if (isRequired) {
+      required.push(name);
+    }
+  }
+
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: {
+        type: 'object',
+        properties,
+        required
+      }
+    }
+  };
+}
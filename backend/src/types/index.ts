@@ -1,4 +1,16 @@
 // Core TypeScript interfaces for PartSelect Chat Agent
+import type { ZodTypeAny } from 'zod';
+
+// Appliance categories are registered in data/categories.ts
+export type ApplianceCategoryId = string;
+
+export interface ApplianceCategory {
+  id: ApplianceCategoryId; // stored on products and troubleshooting guides, e.g. 'dishwasher'
+  name: string; // display name, e.g. 'Dishwasher'
+  scope: string; // what the assistant covers for this appliance, listed in the system prompt
+  pattern: RegExp; // recognizes the appliance in a message
+  symptoms: Array<{ pattern: RegExp; symptom: string }>; // common phrasings mapped to the wording of its troubleshooting guides
+}
 
 // Product-related interfaces
 export interface Product {
@@ -6,17 +18,82 @@ export interface Product {
   partNumber: string;
   name: string;
   description: string;
-  category: 'refrigerator' | 'dishwasher';
+  category: ApplianceCategoryId;
   brand: string;
   compatibleModels: string[];
-  price: number;
+  price: number; // current list price; salePrice may discount it, priceHistory records earlier prices
   availability: 'in-stock' | 'out-of-stock' | 'backordered';
+  leadTimeDays?: number; // estimated days until a backordered or out-of-stock part ships
+  source?: PartSource; // defaults to 'oem'
+  priceHistory?: PricePoint[];
+  salePrice?: SalePrice;
+  variants?: ProductVariant[];
   imageUrl?: string;
   installationDifficulty: 'easy' | 'medium' | 'hard';
   estimatedInstallTime: number; // in minutes
   requiredTools: string[];
   safetyWarnings: string[];
   installationSteps?: InstallationStep[];
+  aliases?: string[]; // other numbers for the same part, e.g. OEM and PartSelect (PS) numbers
+  supersedes?: string[]; // older part numbers this part replaces
+  supersededBy?: string; // the part number that replaces this one
+}
+
+export type PartSource = 'oem' | 'aftermarket';
+
+// A list price and the date it took effect; it applies until the next entry's date
+export interface PricePoint {
+  price: number;
+  effectiveFrom: string; // ISO date
+}
+
+// A temporary discount; open-ended on either side when a date is absent
+export interface SalePrice {
+  price: number;
+  startsAt?: string; // ISO date
+  endsAt?: string; // ISO date, exclusive
+}
+
+// Another orderable form of the same part, e.g. a different finish or an aftermarket equivalent.
+// Variants share the product's compatibility, installation guide and troubleshooting links.
+export interface ProductVariant {
+  partNumber: string;
+  name: string; // e.g. "Stainless steel" or "Aftermarket"
+  finish?: string; // color or finish, when that is what distinguishes the variant
+  source: PartSource;
+  price: number;
+  availability: Product['availability'];
+  leadTimeDays?: number;
+  salePrice?: SalePrice;
+}
+
+// The fields that decide what a part or variant costs and when it ships
+export type PricedItem = Pick<Product, 'price' | 'availability' | 'leadTimeDays' | 'salePrice' | 'priceHistory'>;
+
+// What a part costs today
+export interface ProductPricing {
+  price: number; // the price charged today
+  listPrice: number; // the list price in effect today
+  onSale: boolean;
+  saleEndsAt?: string;
+  previousPrice?: number; // the list price before the latest change, when it changed
+}
+
+// When a part ships
+export interface ShippingEstimate {
+  availability: Product['availability'];
+  leadTimeDays?: number;
+  summary: string; // e.g. "backordered, ships in ~10 days"
+}
+
+// How a requested part number was matched to a catalog part
+export interface PartNumberResolution {
+  requestedPartNumber: string;
+  product: Product; // the current part, after following any replacements
+  relation: 'exact' | 'alias' | 'variant' | 'superseded';
+  variant?: ProductVariant; // the variant the requested number names, when relation is 'variant'
+  chain: string[]; // part numbers from the requested one to the current one
+  message?: string; // e.g. "W10348269 has been replaced by WPW10348269."
 }
 
 export interface InstallationStep {
@@ -27,25 +104,70 @@ export interface InstallationStep {
   imageUrl?: string;
 }
 
+// availability: in stock first, then by lead time
+export type ProductSortOrder = 'relevance' | 'price_asc' | 'price_desc' | 'install_time' | 'availability';
+
+// Filters that accept several values match products having any of them
 export interface ProductSearchParams {
   query?: string;
   partNumber?: string;
-  category?: 'refrigerator' | 'dishwasher';
-  brand?: string;
+  category?: ApplianceCategoryId;
+  brand?: string | string[];
   priceRange?: {
-    min: number;
-    max: number;
+    min?: number;
+    max?: number;
   };
-  availability?: 'in-stock' | 'out-of-stock' | 'backordered';
+  availability?: Product['availability'] | Product['availability'][];
+  difficulty?: Product['installationDifficulty'] | Product['installationDifficulty'][];
+  sort?: ProductSortOrder;
+  modelNumber?: string; // only parts compatible with this model
   limit?: number;
   offset?: number;
 }
 
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface PriceBucketCount {
+  label: string;
+  min: number;
+  max?: number; // exclusive; open-ended when absent
+  count: number;
+}
+
+// Counts over every product matching the search, not just the returned page
+export interface SearchFacets {
+  category: FacetCount[];
+  brand: FacetCount[];
+  availability: FacetCount[];
+  price: PriceBucketCount[];
+  difficulty: FacetCount[];
+  modelFamily: FacetCount[];
+}
+
 export interface SearchResult {
   products: Product[];
   totalCount: number;
   searchTerms: string[];
   suggestions?: string[];
+  notices?: string[]; // e.g. part numbers that were resolved to their replacement
+  facets?: SearchFacets;
+}
+
+export interface ModelPartsGroup {
+  subsystem: string;
+  category: Product['category'];
+  products: Product[];
+}
+
+export interface ModelPartsResult {
+  modelNumber: string;
+  found: boolean;
+  totalCount: number;
+  groups: ModelPartsGroup[];
+  suggestions: string[]; // similar known model numbers, offered when the model is not found
 }
 
 export interface CompatibilityCheck {
@@ -54,9 +176,35 @@ export interface CompatibilityCheck {
   isCompatible: boolean;
   confidence: number; // 0-1 scale
   reason: string;
+  matchType?: ModelMatchType; // how closely the model matched the part's listed models
+  matchedModel?: string; // the listed model the result is based on
+  resolvedPartNumber?: string; // the current part checked, when the requested number was an alias or replaced
+  shipping?: ShippingEstimate; // when the checked part ships
+  // Compatible parts to consider instead: other parts when this one does not fit, or in-stock
+  // equivalents (including the part's own variants) when it fits but is not in stock
   alternativeParts?: Product[];
 }
 
+// exact: same model; revision/color: same model apart from that segment; variant: both differ;
+// series: same product line with different features; none: unrelated
+export type ModelMatchType = 'exact' | 'revision' | 'color' | 'variant' | 'series' | 'none';
+
+export interface ParsedModelNumber {
+  normalized: string; // uppercase, punctuation and dash suffixes removed
+  brand?: string; // manufacturer implied by the first letter, when recognized
+  prefix: string; // brand and product-type letters, e.g. "WDT"
+  series: string; // e.g. "780"
+  features: string; // feature and trim code after the series, e.g. "SAE"
+  color?: string; // e.g. "M" or "SS"
+  revision?: string; // engineering revision, e.g. "1" or "0A"
+}
+
+export interface ModelNumberMatch {
+  type: ModelMatchType;
+  confidence: number; // 0-1, how likely a part listed for one model fits the other
+  reason: string;
+}
+
 // Chat and Agent interfaces
 export interface ChatMessage {
   id: string;
@@ -69,22 +217,205 @@ export interface ChatMessage {
     products?: Product[];
     searchParams?: ProductSearchParams;
     error?: string;
+    degraded?: boolean; // answered by the rule-based fallback because the LLM was unavailable
+    usage?: UsageSummary;
   };
 }
 
+// A follow-up the user picked in the UI, e.g. a product card button; it is run without the LLM
+export interface ChatAction {
+  type: 'check_compatibility' | 'installation_guide' | 'add_to_cart';
+  partNumber: string;
+  modelNumber?: string; // defaults to the saved appliance, then the model discussed most recently
+}
+
 export interface ChatRequest {
-  message: string;
+  message: string; // for an action, the text shown and kept in the history, e.g. "Check compatibility of part PS11752778"
   sessionId?: string;
+  profileId?: string; // the appliance profile to use; defaults to the session id
   context?: ChatMessage[];
+  action?: ChatAction;
 }
 
 export interface ChatResponse {
   message: ChatMessage;
+  sessionId?: string;
   reasoning?: ReasoningStep[];
   products?: Product[];
   error?: string;
 }
 
+// Conversation session interfaces
+export interface ConversationSession {
+  id: string;
+  messages: ChatMessage[];
+  lastPartNumbers: string[]; // most recent first
+  lastModelNumbers: string[]; // most recent first
+  usage?: UsageTotals;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+// Persistence for records that expire (conversations, diagnostic sessions)
+export interface ExpiringRecord {
+  id: string;
+  expiresAt: Date;
+}
+
+export interface RecordStore<T extends ExpiringRecord> {
+  get(id: string): Promise<T | null>;
+  save(record: T): Promise<void>;
+  delete(id: string): Promise<void>;
+  purgeExpired(): Promise<number>;
+}
+
+export type SessionStore = RecordStore<ConversationSession>;
+
+// Guided troubleshooting interfaces
+export interface DiagnosticAnswer {
+  step: number;
+  description: string;
+  answer: boolean; // true when the user observed the expected result
+  note?: string;
+  answeredAt: Date;
+}
+
+export type DiagnosticOutcome = 'issue_found' | 'no_issue_found' | 'step_limit';
+
+export interface DiagnosticConclusion {
+  outcome: DiagnosticOutcome;
+  summary: string;
+  recommendedAction?: string;
+  recommendedParts: string[]; // part numbers
+  shouldContactProfessional: boolean;
+}
+
+export interface DiagnosticSession {
+  id: string;
+  symptomId: string;
+  symptomDescription: string;
+  category: ApplianceCategoryId;
+  conversationId?: string; // chat session this diagnosis belongs to, if started from chat
+  status: 'in_progress' | 'completed';
+  currentStep?: number;
+  trail: DiagnosticAnswer[];
+  conclusion?: DiagnosticConclusion;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+// Shopping cart interfaces
+export interface CartLine {
+  partNumber: string; // the catalog part (or variant) number, after resolving aliases and replacements
+  name: string;
+  quantity: number;
+  unitPrice: number; // the price when the line was added
+  addedAt: Date;
+}
+
+// One cart per chat session; its id is the session id
+export interface Cart {
+  id: string;
+  modelNumber?: string; // the appliance the parts are for, checked again at checkout
+  lines: CartLine[];
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+export type CartStore = RecordStore<Cart>;
+
+// A cart line with today's price and availability
+export interface CartLineView extends CartLine {
+  currentPrice: number;
+  priceChanged: boolean; // the price has changed since the line was added
+  lineTotal: number; // at today's price
+  shipping: ShippingEstimate;
+  available: boolean; // false when the part is out of stock or no longer in the catalog
+}
+
+export interface CartView {
+  sessionId: string;
+  modelNumber?: string;
+  lines: CartLineView[];
+  itemCount: number;
+  subtotal: number;
+  currency: 'USD';
+  updatedAt: Date;
+}
+
+// Why a cart cannot be checked out as it stands
+export interface CheckoutIssue {
+  partNumber: string;
+  code: 'PART_NOT_FOUND' | 'OUT_OF_STOCK' | 'NOT_COMPATIBLE';
+  message: string;
+}
+
+export interface OrderIntentLine {
+  partNumber: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  source: PartSource;
+  shipping: ShippingEstimate;
+  compatibility: { matchType?: ModelMatchType; confidence: number; matchedModel?: string };
+}
+
+// The order summary handed to the downstream order system at checkout
+export interface OrderIntent {
+  id: string;
+  sessionId: string;
+  modelNumber: string;
+  lines: OrderIntentLine[];
+  itemCount: number;
+  subtotal: number;
+  currency: 'USD';
+  estimatedShipDays: number; // until the last line ships; 0 when everything is in stock
+  notices: string[]; // e.g. price changes since items were added
+  createdAt: string; // ISO timestamp
+}
+
+export type CheckoutResult =
+  | { status: 'ready'; order: OrderIntent }
+  | { status: 'blocked'; modelNumber: string; issues: CheckoutIssue[] };
+
+// Where order intents are delivered
+export interface OrderIntentSink {
+  emit(order: OrderIntent): Promise<void>;
+}
+
+// An appliance the user owns, saved so they need not repeat its model number
+export interface SavedAppliance {
+  modelNumber: string;
+  brand?: string;
+  category?: ApplianceCategoryId;
+  purchaseDate?: string; // ISO date
+  source: 'manual' | 'chat' | 'compatibility'; // how it was first saved
+  addedAt: Date;
+  lastUsedAt: Date; // last saved, edited or mentioned
+}
+
+// A user's saved appliances, most recently used first
+export interface ApplianceProfile {
+  id: string; // the profile id the client sends; the chat session id when it sends none
+  appliances: SavedAppliance[];
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+export type ApplianceProfileStore = RecordStore<ApplianceProfile>;
+
+// What the catalog knows about an appliance model
+export interface ModelSummary {
+  modelNumber: string;
+  brand?: string;
+  category?: ApplianceCategoryId;
+}
+
 // ReAct Agent interfaces
 export interface ReasoningStep {
   step: number;
@@ -109,12 +440,50 @@ export interface AgentObservation {
   metadata?: Record<string, any>;
 }
 
+// A single completed iteration of the ReAct loop
+export interface AgentStepRecord {
+  action: AgentAction;
+  observation: AgentObservation;
+}
+
+// Hooks for observing an agent run as it happens (used for streaming responses)
+export interface AgentCallbacks {
+  onStep?: (step: ReasoningStep) => void;
+  onToken?: (token: string) => void;
+  // Aborted when the answer is no longer wanted, e.g. the client disconnected; cancels the LLM calls in flight
+  signal?: AbortSignal;
+}
+
+export interface AgentOptions {
+  maxSteps?: number; // maximum number of tool calls per query
+  maxDurationMs?: number; // total time budget for the reasoning loop
+}
+
 // Tool interfaces
+// How one tool parameter is described to the LLM (JSON schema keywords, plus whether it is required)
+export interface ToolParameterSpec {
+  type: string;
+  description?: string;
+  enum?: string[];
+  items?: { type: string };
+  default?: unknown;
+  required?: boolean;
+}
+
 export interface Tool {
   name: string;
   description: string;
-  parameters: Record<string, any>;
-  execute: (parameters: Record<string, any>) => Promise<any>;
+  schema: ZodTypeAny; // validates and coerces parameters before execute
+  parameters: Record<string, any>; // derived from schema for LLM prompts
+  execute: (parameters: Record<string, any>, context?: ToolExecutionContext) => Promise<any>;
+}
+
+// Request-scoped information passed to every tool call
+export interface ToolExecutionContext {
+  sessionId?: string; // the chat session the request belongs to
+  recentPartNumbers?: string[]; // part numbers discussed earlier in the session, most recent first
+  recentModelNumbers?: string[]; // model numbers discussed earlier in the session, most recent first
+  appliances?: SavedAppliance[]; // the user's saved appliances, most recently used first
 }
 
 export interface ToolResult {
@@ -133,16 +502,38 @@ export interface DeepSeekMessage {
 export interface DeepSeekResponse {
   choices: Array<{
     message: {
-      content: string;
+      content: string | null;
       role: string;
+      tool_calls?: Array<{
+        id: string;
+        type: 'function';
+        function: {
+          name: string;
+          arguments: string; // JSON-encoded
+        };
+      }>;
     };
     finish_reason: string;
   }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: DeepSeekUsage;
+}
+
+export interface DeepSeekUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// A single Server-Sent Events chunk from a streaming chat completion
+export interface DeepSeekStreamChunk {
+  choices: Array<{
+    delta: {
+      content?: string | null;
+      role?: string;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: DeepSeekUsage | null; // only on the final chunk, when stream_options.include_usage is set
 }
 
 export interface DeepSeekErrorResponse {
@@ -154,14 +545,73 @@ export interface DeepSeekErrorResponse {
   };
 }
 
+// OpenAI-style function definition offered to the model for native tool calling
+export interface LLMToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>; // JSON schema
+  };
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface LLMToolResponse {
+  content: string;
+  toolCalls: LLMToolCall[];
+}
+
+// Token usage interfaces
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Usage reported by a provider for a single completed LLM call
+export interface LLMUsageReport extends TokenUsage {
+  model?: string;
+}
+
+export type LLMCallPurpose = 'query_rewrite' | 'tool_selection' | 'final_response';
+
+export interface LLMUsageRecord extends LLMUsageReport {
+  purpose: LLMCallPurpose;
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  estimatedCostUsd: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byPurpose: Record<LLMCallPurpose, TokenUsage>;
+}
+
+export interface LLMCallOptions {
+  // Called once per successful call with the token counts the provider reported
+  onUsage?: (usage: LLMUsageReport) => void;
+  signal?: AbortSignal;
+}
+
 export interface LLMService {
-  generateResponse(messages: DeepSeekMessage[]): Promise<string>;
+  generateResponse(messages: DeepSeekMessage[], options?: LLMCallOptions): Promise<string>;
+  streamResponse(messages: DeepSeekMessage[], options?: LLMCallOptions): AsyncIterable<string>;
+  // Optional: providers without native tool calling are prompted for JSON instead
+  generateWithTools?(messages: DeepSeekMessage[], tools: LLMToolDefinition[], options?: LLMCallOptions): Promise<LLMToolResponse>;
   getStatus(): ServiceStatus;
 }
 
 export interface ServiceStatus {
   status: 'healthy' | 'unhealthy' | 'degraded';
   configured: boolean;
+  provider?: string;
+  model?: string;
   details: string;
   metadata?: any;
 }
@@ -175,6 +625,8 @@ export interface ServerConfig {
   rateLimitMaxRequests: number;
   deepseekApiKey?: string;
   deepseekBaseUrl?: string;
+  llmProvider: string;
+  llmModel?: string;
 }
 
 // Error interfaces
@@ -189,7 +641,7 @@ export interface AppError {
 export interface TroubleshootingSymptom {
   id: string;
   description: string;
-  category: 'refrigerator' | 'dishwasher';
+  category: ApplianceCategoryId;
   commonCauses: string[];
   diagnosticSteps: DiagnosticStep[];
   recommendedParts?: string[]; // part numbers
@@ -202,6 +654,7 @@ export interface DiagnosticStep {
   nextStepIfTrue?: number;
   nextStepIfFalse?: number;
   recommendedAction?: string;
+  recommendedParts?: string[]; // part numbers suspected when this check fails
 }
 
 export interface TroubleshootingResult {
@@ -210,6 +663,84 @@ export interface TroubleshootingResult {
   recommendedParts: Product[];
   shouldContactProfessional: boolean;
   reason?: string;
+  confidence: number; // 0-1, how well the symptom matches the user's description
+  matchedTerms: string[];
+}
+
+// Catalog storage interfaces
+export interface Catalog {
+  products: Product[];
+  troubleshootingSymptoms: TroubleshootingSymptom[];
+}
+
+export interface CatalogRecordError {
+  line: number; // 1-based line of the rejected record, or its position in the array for JSON files
+  partNumber?: string;
+  message: string;
+}
+
+export interface CatalogLoadResult {
+  catalog: Catalog;
+  errors: CatalogRecordError[]; // records that were skipped because they failed validation
+}
+
+export interface CatalogRepository {
+  readonly description: string; // e.g. "CSV file ./data/catalog.csv", for logs
+  load(): Promise<CatalogLoadResult>;
+  save(catalog: Catalog): Promise<void>;
+}
+
+// Structured filters a catalog store applies itself, so a database can answer them from its indexes
+export interface ProductFilter {
+  category?: Product['category'];
+  brands?: string[]; // matches brands containing any of these
+  priceRange?: { min?: number; max?: number };
+  availability?: Product['availability'][];
+  difficulty?: Product['installationDifficulty'][];
+  ids?: string[]; // restricts the result to these products, e.g. full-text matches
+}
+
+export interface ProductTextSearchResult {
+  scores: Map<string, number>; // product id -> relevance, for every product matching a query term
+  corrections: Record<string, string>; // query terms that matched nothing, mapped to the catalog term used instead
+}
+
+// The product and troubleshooting data access behind SearchService. Lookups are synchronous
+// so the same service logic runs over an in-memory catalog or an embedded database.
+export interface CatalogStore {
+  readonly description: string; // e.g. "SQLite database ./data/catalog.db", for logs
+  findProducts(filter: ProductFilter): Product[]; // in catalog order
+  searchText(query: string): ProductTextSearchResult;
+  findByPartNumber(partNumber: string): Product | undefined; // by part number, or else by alias
+  findBySupersededNumber(partNumber: string): Product | undefined; // the part that replaced this number
+  findByModel(modelNumber: string): { modelNumber: string; products: Product[] } | undefined;
+  listModelNumbers(): string[];
+  getTroubleshootingSymptoms(category?: Product['category']): TroubleshootingSymptom[];
+  getTroubleshootingSymptom(id: string): TroubleshootingSymptom | undefined;
+  count(): { products: number; troubleshootingSymptoms: number };
+  replaceCatalog(catalog: Catalog): void;
+  // Single-record edits that update only the affected index entries; saving replaces the record with the same id
+  saveProduct(product: Product): void;
+  deleteProduct(id: string): void;
+  saveTroubleshootingSymptom(symptom: TroubleshootingSymptom): void;
+  deleteTroubleshootingSymptom(id: string): void;
+}
+
+// Catalog administration
+export type CatalogEntity = 'product' | 'troubleshootingSymptom';
+
+export interface AuditEntry {
+  timestamp: string; // ISO 8601
+  actor: string; // name of the admin key used
+  action: 'create' | 'update' | 'patch' | 'delete';
+  entity: CatalogEntity;
+  entityId: string;
+  changes: Record<string, { from?: unknown; to?: unknown }>; // top-level fields that changed
+}
+
+export interface AuditLog {
+  record(entry: AuditEntry): Promise<void>;
+  list(filter?: { entity?: CatalogEntity; entityId?: string; limit?: number }): Promise<AuditEntry[]>; // newest first
 }
 
 // Validation schemas (for use with Zod)
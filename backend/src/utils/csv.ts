@@ -0,0 +1,83 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing: comma-separated fields, optionally quoted
+ * with double quotes, where quoted fields may contain commas, newlines and doubled quotes.
+ */
+
+export interface CsvRow {
+  line: number; // 1-based line on which the row starts
+  values: string[];
+}
+
+/**
+ * Parses CSV text into rows. Blank lines are skipped.
+ * @param text The CSV content.
+ * @returns The rows, with the line each one starts on.
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    values.push(field);
+    if (values.length > 1 || values[0] !== '') {
+      rows.push({ line: rowLine, values });
+    }
+    values = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      values.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || values.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Formats rows as CSV, quoting fields that need it.
+ * @param rows The rows, the first usually being the header.
+ * @returns The CSV content, ending with a newline.
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows
+    .map(values => values.map(value => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)).join(','))
+    .join('\n') + '\n';
+}
@@ -0,0 +1,214 @@
+/**
+ * Helpers for recovering JSON objects from free-form LLM output.
+ * Models frequently wrap JSON in markdown fences, add explanatory prose, or emit
+ * near-JSON (trailing commas, single quotes, unquoted keys, truncated output).
+ */
+
+/**
+ * Extracts the first JSON object from a piece of text, repairing common defects.
+ * @param text The raw model output.
+ * @returns The parsed object, or null if no object could be recovered.
+ */
+export function extractJsonObject(text: string): Record<string, unknown> | null {
+  if (!text) {
+    return null;
+  }
+
+  const candidates: string[] = [];
+
+  // Prefer the contents of a fenced code block when one is present
+  const fenced = text.match(/```(?:json|JSON)?\s*([\s\S]*?)(?:```|$)/);
+  if (fenced) {
+    candidates.push(fenced[1]);
+  }
+  candidates.push(text);
+
+  for (const candidate of candidates) {
+    const objectText = sliceFirstObject(candidate);
+    if (!objectText) {
+      continue;
+    }
+
+    const parsed = tryParse(objectText) ?? tryParse(repairJson(objectText));
+    if (isJsonObject(parsed)) {
+      return parsed;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parses JSON text that should contain an object, repairing it if necessary.
+ * @param text JSON text, e.g. tool call arguments.
+ * @returns The parsed object, or an empty object when nothing could be recovered.
+ */
+export function parseJsonArguments(text: string | undefined | null): Record<string, unknown> {
+  if (!text || !text.trim()) {
+    return {};
+  }
+  return extractJsonObject(text) || {};
+}
+
+/**
+ * Returns the text of the first balanced `{...}` block, closing any strings and
+ * brackets left open by truncated output.
+ */
+function sliceFirstObject(text: string): string | null {
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return null;
+  }
+
+  const stack: string[] = [];
+  let i = start;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (QUOTE_PAIRS[char]) {
+      const string = readString(text, i);
+      if (!string.closed) {
+        return text.slice(start) + QUOTE_PAIRS[char] + stack.reverse().join('');
+      }
+      i = string.end;
+      continue;
+    }
+    if (text.startsWith('//', i) || text.startsWith('/*', i)) {
+      i = skipComment(text, i);
+      continue;
+    }
+
+    if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+    i++;
+  }
+
+  // Truncated output: close whatever is still open (on a new line, in case it ends in a comment)
+  return `${text.slice(start)}\n${stack.reverse().join('')}`;
+}
+
+const QUOTE_PAIRS: Record<string, string> = {
+  '"': '"',
+  '\'': '\'',
+  // Smart quotes; models sometimes open or close with the wrong one
+  '\u201C': '\u201D',
+  '\u201D': '\u201D',
+  '\u2018': '\u2019',
+  '\u2019': '\u2019'
+};
+
+const LITERALS: Record<string, string> = { None: 'null', True: 'true', False: 'false' };
+
+/**
+ * Fixes the most common near-JSON defects: comments, trailing commas, unquoted keys, single
+ * or smart quotes around strings, and Python-style literals. The text is read token by token,
+ * so the contents of string literals (URLs, quotes, "True") are never changed.
+ */
+function repairJson(text: string): string {
+  let output = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (QUOTE_PAIRS[char]) {
+      const string = readString(text, i);
+      output += string.json;
+      i = string.end;
+    } else if (text.startsWith('//', i) || text.startsWith('/*', i)) {
+      i = skipComment(text, i);
+    } else if (char === ',' && /[}\]]/.test(text[skipWhitespaceAndComments(text, i + 1)] || '')) {
+      // Trailing comma
+      i++;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      let end = i + 1;
+      while (end < text.length && /[A-Za-z0-9_$]/.test(text[end])) {
+        end++;
+      }
+      const word = text.slice(i, end);
+      i = end;
+      if (text[skipWhitespaceAndComments(text, i)] === ':') {
+        output += JSON.stringify(word);
+      } else {
+        output += LITERALS[word] || word;
+      }
+    } else {
+      output += char;
+      i++;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Reads the string literal opening at `start` and returns it as a double-quoted JSON string.
+ * Double-quoted strings are kept exactly as written.
+ */
+function readString(text: string, start: number): { json: string; end: number; closed: boolean } {
+  const open = text[start];
+  const close = QUOTE_PAIRS[open];
+  let i = start + 1;
+  let inner = '';
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '\\' && i + 1 < text.length) {
+      // Escaped single quotes are not valid JSON escapes
+      inner += text[i + 1] === '\'' ? '\'' : char + text[i + 1];
+      i += 2;
+    } else if (char === close || (open !== '"' && open !== '\'' && char === '"')) {
+      return { json: open === '"' ? text.slice(start, i + 1) : `"${inner}"`, end: i + 1, closed: true };
+    } else {
+      inner += char === '"' ? '\\"' : char;
+      i++;
+    }
+  }
+
+  return { json: open === '"' ? `${text.slice(start)}"` : `"${inner}"`, end: text.length, closed: false };
+}
+
+function skipComment(text: string, start: number): number {
+  if (text.startsWith('//', start)) {
+    const end = text.indexOf('\n', start);
+    return end === -1 ? text.length : end;
+  }
+  const end = text.indexOf('*/', start + 2);
+  return end === -1 ? text.length : end + 2;
+}
+
+function skipWhitespaceAndComments(text: string, start: number): number {
+  let i = start;
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+    } else if (text.startsWith('//', i) || text.startsWith('/*', i)) {
+      i = skipComment(text, i);
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a parsed JSON value is an object (not an array or null).
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
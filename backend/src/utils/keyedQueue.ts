@@ -0,0 +1,23 @@
+/**
+ * Runs tasks one at a time per key, in the order they were queued, so read-modify-write
+ * updates of one record cannot overwrite each other. Tasks for different keys run
+ * concurrently. A failed task does not stop the ones queued after it.
+ */
+export class KeyedQueue {
+  private tails = new Map<string, Promise<unknown>>();
+
+  public run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    const result = previous.then(task);
+    const tail = result.catch(() => undefined);
+    this.tails.set(key, tail);
+
+    // Forget the key once its last queued task has finished
+    tail.then(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    });
+    return result;
+  }
+}
@@ -0,0 +1,145 @@
+import { ModelNumberMatch, ParsedModelNumber } from '../types';
+
+/**
+ * Helpers for reading appliance model and part numbers. Most manufacturers build model
+ * numbers from the same segments: brand and product-type letters, a series number, a
+ * feature/trim code, a color code and an engineering revision. In "WDT780SAEM1" that is
+ * W (Whirlpool) DT (dishwasher), series 780, features SAE, color M and revision 1. Models
+ * that differ only in color or revision usually share their functional parts.
+ */
+
+interface BrandRule {
+  brand: string;
+  colorLength: number;
+  // Frigidaire revisions carry a letter, e.g. "FGID2466QF0A"
+  revisionPattern: string;
+}
+
+// Keyed by the first letter of the model number
+const BRAND_RULES: Record<string, BrandRule> = {
+  W: { brand: 'Whirlpool', colorLength: 1, revisionPattern: '\\d*' },
+  M: { brand: 'Maytag', colorLength: 1, revisionPattern: '\\d*' },
+  K: { brand: 'KitchenAid', colorLength: 2, revisionPattern: '\\d*' },
+  G: { brand: 'GE', colorLength: 2, revisionPattern: '\\d*' },
+  P: { brand: 'GE Profile', colorLength: 2, revisionPattern: '\\d*' },
+  F: { brand: 'Frigidaire', colorLength: 1, revisionPattern: '(?:\\d[A-Z])?' }
+};
+
+// How likely a part listed for one model fits a model differing only in the given segments
+const MATCH_CONFIDENCE = {
+  revisionUnspecified: 0.9,
+  revision: 0.85,
+  color: 0.8,
+  variant: 0.7,
+  series: 0.4
+};
+
+/**
+ * Normalizes a part number for lookups: uppercase, without punctuation ("wpw-10348269" -> "WPW10348269").
+ * @param partNumber The part number as written.
+ * @returns The normalized part number.
+ */
+export function normalizePartNumber(partNumber: string): string {
+  return partNumber.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Normalizes a model number for comparison: uppercase, without punctuation or a
+ * trailing dash suffix ("wdt780saem1-2" -> "WDT780SAEM1").
+ * @param model The model number as written.
+ * @returns The normalized model number.
+ */
+export function normalizeModelNumber(model: string): string {
+  return model.trim().toUpperCase().replace(/-\d+$/, '').replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Splits a model number into its segments.
+ * @param model The model number as written.
+ * @returns The segments, or null when the model number does not follow the letters-digits pattern.
+ */
+export function parseModelNumber(model: string): ParsedModelNumber | null {
+  const normalized = normalizeModelNumber(model);
+  const rule = BRAND_RULES[normalized.charAt(0)];
+
+  if (rule) {
+    const pattern = new RegExp(`^([A-Z]+)(\\d+)([A-Z0-9]*?)([A-Z]{${rule.colorLength}})(${rule.revisionPattern})$`);
+    const match = normalized.match(pattern);
+    if (match) {
+      return {
+        normalized,
+        brand: rule.brand,
+        prefix: match[1],
+        series: match[2],
+        features: match[3],
+        color: match[4],
+        revision: match[5] || undefined
+      };
+    }
+  }
+
+  // Unknown brands, and truncated model numbers such as "WDT780", only yield the leading segments
+  const match = normalized.match(/^([A-Z]+)(\d+)([A-Z0-9]*)$/);
+  if (!match) {
+    return null;
+  }
+  return { normalized, brand: rule?.brand, prefix: match[1], series: match[2], features: match[3] };
+}
+
+/**
+ * Grades how closely a requested model matches a model a part is listed for.
+ * @param requested The user's model number.
+ * @param listed A model number from the part's compatibility list.
+ * @returns The kind of match, its confidence and a reason naming the segment that differed.
+ */
+export function compareModelNumbers(requested: string, listed: string): ModelNumberMatch {
+  const a = parseModelNumber(requested);
+  const b = parseModelNumber(listed);
+
+  if (normalizeModelNumber(requested) === normalizeModelNumber(listed)) {
+    return { type: 'exact', confidence: 1, reason: `Model ${requested} is listed as compatible.` };
+  }
+  if (!a || !b || a.prefix !== b.prefix || a.series !== b.series) {
+    return { type: 'none', confidence: 0, reason: `Model ${requested} is not related to ${listed}.` };
+  }
+
+  const family = `${b.prefix}${b.series}`;
+  if (a.features !== b.features || a.color === undefined || b.color === undefined) {
+    return {
+      type: 'series',
+      confidence: MATCH_CONFIDENCE.series,
+      reason: `Model ${requested} is in the same ${family} series as ${listed}, but its feature code differs (${a.features || 'none'} vs ${b.features || 'none'}), so parts may not be shared.`
+    };
+  }
+
+  const colorDiffers = a.color !== b.color;
+  const revisionKnown = a.revision !== undefined && b.revision !== undefined;
+  const revisionDiffers = revisionKnown && a.revision !== b.revision;
+
+  if (colorDiffers && revisionDiffers) {
+    return {
+      type: 'variant',
+      confidence: MATCH_CONFIDENCE.variant,
+      reason: `Model ${requested} differs from ${listed} in color code (${a.color} vs ${b.color}) and revision (${a.revision} vs ${b.revision}).`
+    };
+  }
+  if (colorDiffers) {
+    return {
+      type: 'color',
+      confidence: MATCH_CONFIDENCE.color,
+      reason: `Model ${requested} differs from ${listed} only in color code (${a.color} vs ${b.color}); functional parts are usually shared, but exterior trim may differ.`
+    };
+  }
+  if (revisionDiffers) {
+    return {
+      type: 'revision',
+      confidence: MATCH_CONFIDENCE.revision,
+      reason: `Model ${requested} differs from ${listed} only in revision (${a.revision} vs ${b.revision}); parts are usually shared across revisions.`
+    };
+  }
+  return {
+    type: 'revision',
+    confidence: MATCH_CONFIDENCE.revisionUnspecified,
+    reason: `Model ${requested} matches ${listed} apart from the revision number, which ${a.revision === undefined ? 'was not given' : `${listed} does not specify`}.`
+  };
+}
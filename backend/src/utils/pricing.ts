@@ -0,0 +1,124 @@
+import { PricedItem, Product, ProductPricing, ProductVariant, SalePrice, ShippingEstimate } from '../types';
+
+/**
+ * Helpers for what a part costs and when it ships. A product's `price` is its current list
+ * price; a dated `priceHistory` records earlier list prices for reporting, and a `salePrice`
+ * discounts the list price for a window. Availability is refined by `leadTimeDays` for parts
+ * that are not in stock.
+ */
+
+// Lead time assumed when sorting a backordered part that has no estimate
+const UNKNOWN_LEAD_TIME_DAYS = 30;
+const AVAILABILITY_RANK: Record<Product['availability'], number> = { 'in-stock': 0, backordered: 1, 'out-of-stock': 2 };
+
+/**
+ * Works out what a part or variant costs on a given day.
+ * @param item The product or variant.
+ * @param now The day to price for; defaults to today.
+ */
+export function getPricing(item: PricedItem, now: Date = new Date()): ProductPricing {
+  const listPrice = item.price;
+  // The most recent earlier list price that differs from today's, if the history has one
+  const previousPrice = [...(item.priceHistory || [])]
+    .filter(point => Date.parse(point.effectiveFrom) <= now.getTime())
+    .sort((a, b) => Date.parse(b.effectiveFrom) - Date.parse(a.effectiveFrom))
+    .find(point => point.price !== listPrice)?.price;
+
+  const sale = item.salePrice;
+  if (sale && isSaleActive(sale, now) && sale.price < listPrice) {
+    return { price: sale.price, listPrice, onSale: true, saleEndsAt: sale.endsAt, previousPrice };
+  }
+  return { price: listPrice, listPrice, onSale: false, previousPrice };
+}
+
+/**
+ * The price charged for a part or variant today.
+ */
+export function getEffectivePrice(item: PricedItem, now: Date = new Date()): number {
+  return getPricing(item, now).price;
+}
+
+/**
+ * Whether today's price falls inside a price range (inclusive on both ends).
+ */
+export function isWithinPriceRange(item: PricedItem, range: { min?: number; max?: number } | undefined, now: Date = new Date()): boolean {
+  const { min = 0, max = Infinity } = range || {};
+  const price = getEffectivePrice(item, now);
+  return price >= min && price <= max;
+}
+
+/**
+ * Describes when a part or variant ships, e.g. "backordered, ships in ~10 days".
+ */
+export function estimateShipping(item: PricedItem): ShippingEstimate {
+  const { availability, leadTimeDays } = item;
+  if (availability === 'in-stock') {
+    return { availability, summary: 'in stock' };
+  }
+  const label = availability === 'backordered' ? 'backordered' : 'out of stock';
+  return {
+    availability,
+    leadTimeDays,
+    summary: leadTimeDays !== undefined ? `${label}, ships in ~${leadTimeDays} days` : label
+  };
+}
+
+/**
+ * Orders parts by how soon they ship: in stock first, then backordered by lead time, then out of stock.
+ */
+export function compareAvailability(a: PricedItem, b: PricedItem): number {
+  const lead = (item: PricedItem) => (item.availability === 'in-stock' ? 0 : item.leadTimeDays ?? UNKNOWN_LEAD_TIME_DAYS);
+  return AVAILABILITY_RANK[a.availability] - AVAILABILITY_RANK[b.availability] || lead(a) - lead(b);
+}
+
+/**
+ * One-line price and availability for responses, e.g. "$39.99 (on sale, was $52.99), in stock".
+ */
+export function describeOffer(item: PricedItem, now: Date = new Date()): string {
+  const pricing = getPricing(item, now);
+  const price = pricing.onSale
+    ? `${formatPrice(pricing.price)} (on sale, was ${formatPrice(pricing.listPrice)})`
+    : formatPrice(pricing.price);
+  return `${price}, ${estimateShipping(item).summary}`;
+}
+
+/**
+ * Adds today's pricing and shipping estimate to a product, for API and tool responses.
+ */
+export function withOffer<T extends PricedItem>(item: T, now: Date = new Date()): T & { pricing: ProductPricing; shipping: ShippingEstimate } {
+  return { ...item, pricing: getPricing(item, now), shipping: estimateShipping(item) };
+}
+
+/**
+ * Presents a variant as a product of its own, sharing the base product's compatibility,
+ * installation guide and description, so it can be listed and checked like any part.
+ * @param product The product the variant belongs to.
+ * @param variant One of the product's variants.
+ */
+export function variantAsProduct(product: Product, variant: ProductVariant): Product {
+  return {
+    ...product,
+    id: `${product.id}-${variant.partNumber}`,
+    partNumber: variant.partNumber,
+    name: `${product.name} (${variant.name})`,
+    source: variant.source,
+    price: variant.price,
+    availability: variant.availability,
+    leadTimeDays: variant.leadTimeDays,
+    salePrice: variant.salePrice,
+    // The variant has its own number and price; the base product's other numbers and prices stay with it
+    priceHistory: undefined,
+    aliases: undefined,
+    supersedes: undefined,
+    variants: undefined
+  };
+}
+
+function isSaleActive(sale: SalePrice, now: Date): boolean {
+  return (!sale.startsAt || Date.parse(sale.startsAt) <= now.getTime()) &&
+    (!sale.endsAt || now.getTime() < Date.parse(sale.endsAt));
+}
+
+function formatPrice(price: number): string {
+  return `$${price.toFixed(2)}`;
+}
@@ -0,0 +1,152 @@
+/**
+ * Helpers for matching free-form user descriptions against catalog and troubleshooting text.
+ * Text is reduced to "terms": lowercase word stems with filler words removed and common
+ * synonyms folded onto one canonical term, so "isn't making any ice" and "Ice maker not
+ * producing ice" share the terms `ice` and `make`.
+ */
+
+// Words that carry no meaning for matching, including negations (most symptoms are negative anyway)
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'at', 'be', 'been', 'but', 'can', 'cant', 'could', 'did', 'didnt',
+  'do', 'does', 'doesnt', 'dont', 'for', 'from', 'get', 'getting', 'got', 'has', 'have', 'having', 'how',
+  'i', 'im', 'in', 'is', 'isnt', 'it', 'its', 'ive', 'just', 'keep', 'keeps', 'me', 'my', 'no', 'not',
+  'of', 'on', 'or', 'our', 'please', 'properly', 'really', 'seem', 'seems', 'so', 'some', 'still',
+  'that', 'the', 'there', 'this', 'to', 'too', 'up', 'very', 'was', 'wasnt', 'what', 'when', 'why',
+  'will', 'with', 'wont', 'working', 'work', 'works', 'would', 'you', 'anymore', 'all', 'help',
+  // Requests for guidance rather than descriptions of the problem
+  'walk', 'through', 'step', 'by', 'diagnose', 'figure', 'out', 'whats', 'wrong', 'problem', 'issue', 'fix'
+]);
+
+// Multi-word phrases folded into a single term before tokenizing
+const PHRASE_SYNONYMS: Array<[RegExp, string]> = [
+  [/\bice ?makers?\b/g, 'ice make'],
+  [/\bwater (on|onto|all over) (the )?(floor|ground)\b/g, 'leak'],
+  [/\b(standing|pooled|dirty) water\b/g, 'drain'],
+  [/\bwater (left )?in the bottom\b/g, 'drain'],
+  [/\b(not|isn'?t|won'?t|doesn'?t) (cold|cool|cooling|chilling)\b/g, 'cool'],
+  [/\b(no|any) cubes?\b/g, 'ice']
+];
+
+// Stems mapped to the canonical term they share
+const TERM_SYNONYMS: Record<string, string> = {
+  icemak: 'ice',
+  cube: 'ice',
+  mak: 'make',
+  produc: 'make',
+  warm: 'cool',
+  cold: 'cool',
+  hot: 'cool',
+  chill: 'cool',
+  temperatur: 'cool',
+  drip: 'leak',
+  puddl: 'leak',
+  flood: 'leak',
+  seep: 'leak',
+  fridg: 'refrigerator',
+  freezer: 'refrigerator',
+  clog: 'block',
+  stuck: 'block',
+  kink: 'block',
+  nois: 'noise',
+  noisy: 'noise',
+  loud: 'noise'
+};
+
+/**
+ * Reduces a word to a rough stem by stripping common English suffixes.
+ * It is deliberately crude: it only has to map inflections of the same word together.
+ * @param word A lowercase word.
+ * @returns The stem.
+ */
+export function stem(word: string): string {
+  let result = word;
+
+  if (result.length > 4 && result.endsWith('ies')) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (result.length > 5 && result.endsWith('ing')) {
+    result = result.slice(0, -3);
+  } else if (result.length > 4 && result.endsWith('ed')) {
+    result = result.slice(0, -2);
+  } else if (result.length > 4 && /(s|x|ch|sh)es$/.test(result)) {
+    result = result.slice(0, -2);
+  } else if (result.length > 3 && result.endsWith('s') && !result.endsWith('ss')) {
+    result = result.slice(0, -1);
+  }
+
+  // "running" -> "runn" -> "run"
+  if (/([^aeiouls])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+  // "make" and "making" both become "mak"
+  if (result.length > 3 && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+/**
+ * Splits text into lowercase word stems, dropping filler words.
+ * @param text Free-form text.
+ * @returns The stems, in order, including repeats.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Splits text into canonical matching terms.
+ * @param text Free-form text.
+ * @returns The terms, de-duplicated, in order of first appearance.
+ */
+export function toTerms(text: string): string[] {
+  let normalized = text.toLowerCase().replace(/[’']/g, "'");
+  for (const [pattern, replacement] of PHRASE_SYNONYMS) {
+    normalized = normalized.replace(pattern, ` ${replacement} `);
+  }
+
+  const terms = tokenize(normalized).map(term => TERM_SYNONYMS[term] || term);
+  return Array.from(new Set(terms));
+}
+
+/**
+ * Computes the edit distance between two strings, counting insertions, deletions,
+ * substitutions and swaps of adjacent letters ("pmup" -> "pump") as one edit each.
+ * Gives up early once the distance is certain to exceed `maxDistance`.
+ * @param a The first string.
+ * @param b The second string.
+ * @param maxDistance The largest distance of interest.
+ * @returns The distance, or `maxDistance + 1` when it is larger than `maxDistance`.
+ */
+export function editDistance(a: string, b: string, maxDistance = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    if (rowMinimum > maxDistance) {
+      return maxDistance + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -1,7 +1,7 @@
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
-export const sendChatMessage = async (message, sessionId = 'default') => {
+export const sendChatMessage = async (message, sessionId) => {
   try {
     const response = await fetch(`${API_BASE_URL}/api/chat`, {
       method: 'POST',
@@ -65,7 +65,8 @@ export const sendChatMessage = async (message, sessionId = 'default') => {
       content: data.message?.content || 'Sorry, I encountered an error processing your request.',
       timestamp: data.message?.timestamp || new Date().toISOString(),
       metadata: data.message?.metadata || {},
-      products: data.products || []
+      products: data.products || [],
+      sessionId: data.sessionId || sessionId
     };
   } catch (error) {
     console.error('API Error:', error);
@@ -73,6 +74,129 @@ export const sendChatMessage = async (message, sessionId = 'default') => {
   }
 };
 
+/**
+ * Sends a chat message to the streaming endpoint and reports progress as it arrives.
+ * Resolves with the same shape as sendChatMessage once the final `done` event is received.
+ * A `profileId` lets the backend use (and add to) the user's saved appliances.
+ */
+export const streamChatMessage = async (message, sessionId, { onStep, onToken, onReset, profileId, action } = {}) => {
+  const response = await fetch(`${API_BASE_URL}/api/chat/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    },
+    body: JSON.stringify({
+      message,
+      sessionId,
+      profileId,
+      action
+    })
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error?.message || `HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finalData = null;
+
+  const handleEvent = (rawEvent) => {
+    let event = 'message';
+    let data = '';
+    rawEvent.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      if (line.startsWith('data:')) data += line.slice(5).trim();
+    });
+    if (!data) return;
+
+    const payload = JSON.parse(data);
+    if (event === 'step' && onStep) onStep(payload);
+    if (event === 'token' && onToken) onToken(payload.token);
+    // The server switched to its fallback agent; what was streamed so far is discarded
+    if (event === 'reset' && onReset) onReset();
+    if (event === 'done') finalData = payload;
+    if (event === 'error') throw new Error(payload.message || 'Streaming failed');
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop();
+    events.forEach(handleEvent);
+  }
+
+  if (buffer.trim()) handleEvent(buffer);
+
+  if (!finalData) {
+    throw new Error('Connection closed before the response completed');
+  }
+
+  return {
+    role: 'assistant',
+    content: finalData.message?.content || 'Sorry, I encountered an error processing your request.',
+    timestamp: finalData.message?.timestamp || new Date().toISOString(),
+    metadata: finalData.message?.metadata || {},
+    products: finalData.products || [],
+    sessionId: finalData.sessionId || sessionId
+  };
+};
+
+export const clearSession = async (sessionId) => {
+  try {
+    await fetch(`${API_BASE_URL}/api/sessions/${encodeURIComponent(sessionId)}`, {
+      method: 'DELETE'
+    });
+  } catch (error) {
+    console.error('Failed to clear session:', error);
+  }
+};
+
+/**
+ * Calls an appliance profile endpoint and returns the updated profile.
+ */
+const requestProfile = async (path, options = {}) => {
+  const response = await fetch(`${API_BASE_URL}/api/profiles/${path}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error?.message || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const getProfile = (profileId) => requestProfile(encodeURIComponent(profileId));
+
+export const saveAppliance = (profileId, appliance) => requestProfile(`${encodeURIComponent(profileId)}/appliances`, {
+  method: 'POST',
+  body: JSON.stringify(appliance)
+});
+
+export const removeAppliance = (profileId, modelNumber) => requestProfile(
+  `${encodeURIComponent(profileId)}/appliances/${encodeURIComponent(modelNumber)}`,
+  { method: 'DELETE' }
+);
+
+export const getCategories = async () => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/categories`);
+    const data = await response.json();
+    return data.categories || [];
+  } catch (error) {
+    console.error('Failed to load categories:', error);
+    return [];
+  }
+};
+
 export const checkHealth = async () => {
   try {
     const response = await fetch(`${API_BASE_URL}/health`);
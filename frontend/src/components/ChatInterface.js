@@ -1,6 +1,37 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Send, Bot, User, WifiOff, AlertCircle, RotateCcw } from 'lucide-react';
-import { sendChatMessage, checkHealth } from '../api/api';
+import { streamChatMessage, checkHealth, clearSession } from '../api/api';
+import MyAppliances from './MyAppliances';
+import MarkdownContent from './MarkdownContent';
+import ProductCard from './ProductCard';
+
+const SESSION_STORAGE_KEY = 'partselect-chat-session-id';
+// The appliance profile outlives chat sessions, so saved appliances survive "Clear Chat"
+const PROFILE_STORAGE_KEY = 'partselect-profile-id';
+
+// Session and profile ids are the only credentials for their history and saved appliances,
+// so they come from a cryptographic source rather than the clock
+const createRandomId = (prefix) => {
+  const bytes = new Uint8Array(16);
+  window.crypto.getRandomValues(bytes);
+  return prefix + Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+const createSessionId = () => createRandomId('session_');
+const createProfileId = () => createRandomId('profile_');
+
+// Short, user-facing descriptions of what the agent is doing while a reply streams in
+const TOOL_STATUS = {
+  ProductSearch: 'Searching parts catalog...',
+  CompatibilityCheck: 'Checking compatibility...',
+  InstallationGuide: 'Looking up installation steps...',
+  TroubleshootingGuide: 'Diagnosing the problem...',
+  GuidedTroubleshooting: 'Working through the diagnosis...',
+  ModelPartsLookup: 'Looking up parts for your model...',
+  Cart: 'Updating your cart...'
+};
+
+// Product cards shown under a reply; the reply text covers the rest
+const MAX_PRODUCT_CARDS = 4;
 
 const ChatInterface = () => {
   // Load messages from localStorage or use default welcome message
@@ -9,8 +40,8 @@ const ChatInterface = () => {
       const savedMessages = localStorage.getItem('partselect-chat-messages');
       if (savedMessages) {
         const parsed = JSON.parse(savedMessages);
-        // Convert timestamp strings back to Date objects
-        return parsed.map(msg => ({
+        // Convert timestamp strings back to Date objects, dropping any reply interrupted mid-stream
+        return parsed.filter(msg => !msg.isStreaming).map(msg => ({
           ...msg,
           timestamp: new Date(msg.timestamp)
         }));
@@ -24,7 +55,7 @@ const ChatInterface = () => {
       {
         id: '1',
         role: 'assistant',
-        content: 'Hello! I\'m your PartSelect AI assistant. I can help you find refrigerator and dishwasher parts, check compatibility, and provide installation guidance. How can I assist you today?',
+        content: 'Hello! I\'m your PartSelect AI assistant. I can help you find parts for refrigerators, dishwashers, washers, dryers, ranges and microwaves, check compatibility, and provide installation guidance. How can I assist you today?',
         timestamp: new Date()
       }
     ];
@@ -36,7 +67,27 @@ const ChatInterface = () => {
   const [isConnected, setIsConnected] = useState(false);
   const [showDisconnectionAlert, setShowDisconnectionAlert] = useState(false);
   const [error, setError] = useState(null);
-  const [sessionId] = useState(() => 'session_' + Date.now());
+  // Reuse the stored session so the backend keeps conversation memory across reloads
+  const [sessionId, setSessionId] = useState(() => {
+    try {
+      return localStorage.getItem(SESSION_STORAGE_KEY) || createSessionId();
+    } catch (error) {
+      return createSessionId();
+    }
+  });
+  const [profileId] = useState(() => {
+    try {
+      const savedId = localStorage.getItem(PROFILE_STORAGE_KEY);
+      if (savedId) return savedId;
+      const newId = createProfileId();
+      localStorage.setItem(PROFILE_STORAGE_KEY, newId);
+      return newId;
+    } catch (error) {
+      return createProfileId();
+    }
+  });
+  // Bumped after each reply, since the assistant may have saved an appliance mentioned in it
+  const [profileVersion, setProfileVersion] = useState(0);
   const messagesEndRef = useRef(null);
 
   const scrollToBottom = useCallback(() => {
@@ -53,6 +104,14 @@ const ChatInterface = () => {
     }
   }, [messages, scrollToBottom]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+    } catch (error) {
+      console.error('Error saving session id:', error);
+    }
+  }, [sessionId]);
+
   // Check backend health on component mount
   useEffect(() => {
     const checkBackendHealth = async () => {
@@ -79,11 +138,10 @@ const ChatInterface = () => {
     return () => clearInterval(healthInterval);
   }, [isConnected]);
 
-  const handleSendMessage = useCallback(async (e) => {
-    e.preventDefault();
-    if (!inputMessage.trim() || isTyping) return;
+  // Sends a message typed by the user, or a product card action along with the text shown for it
+  const sendMessage = useCallback(async (currentMessage, action) => {
+    if (!currentMessage.trim() || isTyping) return;
 
-    const currentMessage = inputMessage;
     const userMessage = {
       id: Date.now().toString(),
       role: 'user',
@@ -91,8 +149,22 @@ const ChatInterface = () => {
       timestamp: new Date()
     };
 
-    setMessages(prev => [...prev, userMessage]);
-    setInputMessage('');
+    const aiMessageId = (Date.now() + 1).toString();
+    const updateAiMessage = (update) => {
+      setMessages(prev => prev.map(msg => msg.id === aiMessageId ? { ...msg, ...update(msg) } : msg));
+    };
+
+    // Placeholder reply that is filled in as reasoning steps and tokens stream in
+    const aiPlaceholder = {
+      id: aiMessageId,
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      isStreaming: true,
+      status: 'Thinking...'
+    };
+
+    setMessages(prev => [...prev, userMessage, aiPlaceholder]);
     setIsTyping(true);
     setError(null);
     
@@ -104,47 +176,67 @@ const ChatInterface = () => {
       console.log('Timestamp:', new Date().toISOString());
       console.groupEnd();
       
-      // Send message via HTTP API
-      const aiResponse = await sendChatMessage(currentMessage, sessionId);
+      // Stream the reply so tool progress and answer tokens render as they arrive
+      const aiResponse = await streamChatMessage(currentMessage, sessionId, {
+        profileId,
+        action,
+        onStep: (step) => {
+          if (step.type === 'action' && step.tool) {
+            updateAiMessage(() => ({ status: TOOL_STATUS[step.tool] || `Using ${step.tool}...` }));
+          }
+        },
+        onToken: (token) => {
+          updateAiMessage(msg => ({ content: msg.content + token }));
+        },
+        onReset: () => {
+          updateAiMessage(() => ({ content: '', status: 'Thinking...' }));
+        }
+      });
       
-      const aiMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
+      updateAiMessage(() => ({
         content: aiResponse.content,
         timestamp: new Date(aiResponse.timestamp),
         metadata: aiResponse.metadata,
-        products: aiResponse.products
-      };
-      
-      setMessages(prev => [...prev, aiMessage]);
+        products: aiResponse.products,
+        isStreaming: false,
+        status: undefined
+      }));
+      setProfileVersion(version => version + 1);
     } catch (err) {
       console.error('Failed to send message:', err);
       setError(err.message);
       
-      // Add error message to chat
-      const errorMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
+      // Turn the placeholder into an error message
+      updateAiMessage(() => ({
         content: `I'm sorry, I encountered an error: ${err.message}. Please try again.`,
         timestamp: new Date(),
-        isError: true
-      };
-      
-      setMessages(prev => [...prev, errorMessage]);
+        isError: true,
+        isStreaming: false,
+        status: undefined
+      }));
     } finally {
       setIsTyping(false);
     }
-  }, [inputMessage, isTyping, sessionId]);
+  }, [isTyping, sessionId, profileId]);
+
+  const handleSendMessage = useCallback((e) => {
+    e.preventDefault();
+    if (!inputMessage.trim() || isTyping) return;
+    setInputMessage('');
+    sendMessage(inputMessage);
+  }, [inputMessage, isTyping, sendMessage]);
 
   const clearChatHistory = useCallback(() => {
     const defaultMessage = {
       id: '1',
       role: 'assistant',
-      content: 'Hello! I\'m your PartSelect AI assistant. I can help you find refrigerator and dishwasher parts, check compatibility, and provide installation guidance. How can I assist you today?',
+      content: 'Hello! I\'m your PartSelect AI assistant. I can help you find parts for refrigerators, dishwashers, washers, dryers, ranges and microwaves, check compatibility, and provide installation guidance. How can I assist you today?',
       timestamp: new Date()
     };
     setMessages([defaultMessage]);
-  }, []);
+    clearSession(sessionId);
+    setSessionId(createSessionId());
+  }, [sessionId]);
 
   return (
     <div className="partselect-container">
@@ -157,7 +249,7 @@ const ChatInterface = () => {
                 <Bot className="w-8 h-8" />
                 PartSelect AI Assistant
               </h1>
-              <p className="text-gray-600 text-sm">Refrigerator & Dishwasher Parts Expert</p>
+              <p className="text-gray-600 text-sm">Home Appliance Parts Expert</p>
             </div>
             
             <div className="flex items-center gap-3">
@@ -174,6 +266,8 @@ const ChatInterface = () => {
           </div>
         </div>
 
+        <MyAppliances profileId={profileId} refreshKey={profileVersion} />
+
         {/* Error Banner */}
         {error && (
           <div className="bg-red-50 border-l-4 border-red-400 p-4 flex items-center gap-3">
@@ -230,40 +324,44 @@ const ChatInterface = () => {
                   ? 'bg-red-50 text-red-800 border border-red-200'
                   : 'bg-gray-100 text-gray-800'
               }`}>
-                <div className="prose prose-sm max-w-none">
-                  {message.content.split('\n').map((line, index) => (
-                    <p key={index} className={`${index === 0 ? '' : 'mt-2'} ${
-                      message.role === 'user' ? 'text-white' : message.isError ? 'text-red-800' : 'text-gray-800'
-                    }`}>
-                      {line}
-                    </p>
-                  ))}
-                </div>
+                {message.isStreaming && !message.content && (
+                  <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <div className="flex space-x-1">
+                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{animationDelay: '0.1s'}}></div>
+                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
+                    </div>
+                    <span>{message.status}</span>
+                  </div>
+                )}
+                <MarkdownContent
+                  content={message.content}
+                  className={`text-sm ${message.role === 'user' ? 'text-white' : message.isError ? 'text-red-800' : 'text-gray-800'}`}
+                />
+                {message.role === 'assistant' && !message.isStreaming && message.products?.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    {message.products.slice(0, MAX_PRODUCT_CARDS).map(product => (
+                      <ProductCard key={product.partNumber} product={product} onAction={sendMessage} disabled={isTyping} />
+                    ))}
+                  </div>
+                )}
                 <div className="flex items-center justify-between mt-2">
                   <span className={`text-xs ${
                     message.role === 'user' ? 'text-blue-100' : message.isError ? 'text-red-600' : 'text-gray-500'
                   }`}>
                     {message.timestamp.toLocaleTimeString()}
                   </span>
+                  {message.metadata?.degraded && (
+                    <span className="flex items-center gap-1 text-xs text-amber-600" title="The AI assistant was unavailable, so this answer was generated from our parts database">
+                      <AlertCircle className="w-3 h-3" />
+                      Simplified answer
+                    </span>
+                  )}
                 </div>
               </div>
             </div>
           ))}
           
-          {isTyping && (
-            <div className="flex items-start gap-3">
-              <div className="w-8 h-8 rounded-full bg-gray-100 text-partselect-blue flex items-center justify-center">
-                <Bot className="w-4 h-4" />
-              </div>
-              <div className="bg-gray-100 rounded-lg p-3">
-                <div className="flex space-x-1">
-                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
-                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{animationDelay: '0.1s'}}></div>
-                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
-                </div>
-              </div>
-            </div>
-          )}
           <div ref={messagesEndRef} />
         </div>
 
@@ -0,0 +1,117 @@
+import React from 'react';
+
+// Inline markup, tried in this order: links, code, bold, italics (underscores only at word boundaries, so part_number stays as is).
+// The character before underscores is captured rather than checked with a lookbehind, which older Safari cannot parse.
+const INLINE_PATTERN = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|`([^`]+)`|\*\*(.+?)\*\*|(^|\W)__(.+?)__(?!\w)|\*([^*\s][^*]*?)\*|(^|\W)_([^_\s][^_]*?)_(?!\w)/;
+const HEADING_PATTERN = /^(#{1,4})\s+(.*)$/;
+const BULLET_PATTERN = /^\s*[-*•]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+
+/**
+ * Renders bold, italics, inline code and links within a line of text.
+ */
+const renderInline = (text, keyPrefix) => {
+  const nodes = [];
+  let rest = text;
+  let index = 0;
+
+  while (rest) {
+    const match = rest.match(INLINE_PATTERN);
+    if (!match) {
+      nodes.push(rest);
+      break;
+    }
+    const [, linkText, href, code, bold, boldLead, boldAlt, italic, italicLead, italicAlt] = match;
+    const before = rest.slice(0, match.index) + (boldLead || italicLead || '');
+    if (before) {
+      nodes.push(before);
+    }
+
+    const key = `${keyPrefix}-${index++}`;
+    if (href) {
+      nodes.push(<a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-partselect-blue underline">{linkText}</a>);
+    } else if (code) {
+      nodes.push(<code key={key} className="px-1 rounded bg-gray-200 text-sm">{code}</code>);
+    } else if (bold || boldAlt) {
+      nodes.push(<strong key={key}>{renderInline(bold || boldAlt, key)}</strong>);
+    } else {
+      nodes.push(<em key={key}>{renderInline(italic || italicAlt, key)}</em>);
+    }
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  return nodes;
+};
+
+/**
+ * Groups lines into blocks: headings, bulleted lists, numbered lists and paragraphs.
+ */
+const parseBlocks = (content) => {
+  const blocks = [];
+  for (const line of content.split('\n')) {
+    const heading = line.match(HEADING_PATTERN);
+    const bullet = line.match(BULLET_PATTERN);
+    const numbered = line.match(NUMBERED_PATTERN);
+    const last = blocks[blocks.length - 1];
+
+    if (!line.trim()) {
+      blocks.push({ type: 'break' });
+    } else if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+    } else if (bullet || numbered) {
+      const type = bullet ? 'bullets' : 'numbers';
+      const item = (bullet || numbered)[1];
+      if (last?.type === type) {
+        last.items.push(item);
+      } else {
+        blocks.push({ type, items: [item] });
+      }
+    } else if (last?.type === 'paragraph') {
+      last.lines.push(line);
+    } else {
+      blocks.push({ type: 'paragraph', lines: [line] });
+    }
+  }
+  return blocks.filter(block => block.type !== 'break');
+};
+
+/**
+ * Renders the markdown subset the assistant uses in replies. Content is turned into React
+ * elements rather than HTML, so nothing in a reply can inject markup.
+ */
+const MarkdownContent = ({ content, className = '' }) => (
+  <div className={`space-y-2 ${className}`}>
+    {parseBlocks(content || '').map((block, blockIndex) => {
+      const key = `block-${blockIndex}`;
+      switch (block.type) {
+        case 'heading':
+          return <p key={key} className={`font-semibold ${block.level <= 2 ? 'text-base' : ''}`}>{renderInline(block.text, key)}</p>;
+        case 'bullets':
+          return (
+            <ul key={key} className="list-disc pl-5 space-y-1">
+              {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item, `${key}-${itemIndex}`)}</li>)}
+            </ul>
+          );
+        case 'numbers':
+          return (
+            <ol key={key} className="list-decimal pl-5 space-y-1">
+              {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item, `${key}-${itemIndex}`)}</li>)}
+            </ol>
+          );
+        default:
+          return (
+            <p key={key}>
+              {block.lines.map((line, lineIndex) => (
+                <React.Fragment key={lineIndex}>
+                  {lineIndex > 0 && <br />}
+                  {renderInline(line, `${key}-${lineIndex}`)}
+                </React.Fragment>
+              ))}
+            </p>
+          );
+      }
+    })}
+  </div>
+);
+
+export default MarkdownContent;
@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Package, Plus, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { getProfile, saveAppliance, removeAppliance, getCategories } from '../api/api';
+
+const EMPTY_FORM = { modelNumber: '', brand: '', category: '', purchaseDate: '' };
+
+// How an appliance came to be saved, as shown next to it
+const SOURCE_LABELS = {
+  manual: 'Added by you',
+  chat: 'From chat',
+  compatibility: 'From a compatibility check'
+};
+
+/**
+ * "My Appliances": the appliances saved in the user's profile. The assistant uses them when a
+ * question does not name a model, and adds the models that come up in chat, so the list is
+ * reloaded whenever `refreshKey` changes.
+ */
+const MyAppliances = ({ profileId, refreshKey }) => {
+  const [appliances, setAppliances] = useState([]);
+  const [categories, setCategories] = useState([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState(null);
+
+  useEffect(() => {
+    getCategories().then(setCategories);
+  }, []);
+
+  useEffect(() => {
+    getProfile(profileId)
+      .then(profile => setAppliances(profile.appliances || []))
+      .catch(err => console.error('Failed to load saved appliances:', err));
+  }, [profileId, refreshKey]);
+
+  const handleAdd = useCallback(async (e) => {
+    e.preventDefault();
+    if (!form.modelNumber.trim()) return;
+
+    // Blank fields are left out so the backend can fill them in from the catalog
+    const appliance = Object.fromEntries(Object.entries(form).filter(([, value]) => value.trim()));
+    try {
+      const profile = await saveAppliance(profileId, appliance);
+      setAppliances(profile.appliances || []);
+      setForm(EMPTY_FORM);
+      setError(null);
+    } catch (err) {
+      setError(err.message);
+    }
+  }, [form, profileId]);
+
+  const handleRemove = useCallback(async (modelNumber) => {
+    try {
+      const profile = await removeAppliance(profileId, modelNumber);
+      setAppliances(profile.appliances || []);
+    } catch (err) {
+      setError(err.message);
+    }
+  }, [profileId]);
+
+  const categoryName = (id) => categories.find(category => category.id === id)?.name || id;
+
+  return (
+    <div className="border-b border-gray-200">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+      >
+        <span className="flex items-center gap-2 font-medium">
+          <Package className="w-4 h-4 text-partselect-blue" />
+          My Appliances ({appliances.length})
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          {appliances.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No saved appliances yet. Add one below, or mention your model number in chat and it will be saved for you.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {appliances.map(appliance => (
+                <li key={appliance.modelNumber} className="flex items-center justify-between py-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-800">{appliance.modelNumber}</p>
+                    <p className="text-xs text-gray-500">
+                      {[appliance.brand, appliance.category && categoryName(appliance.category),
+                        appliance.purchaseDate && `bought ${appliance.purchaseDate.slice(0, 10)}`,
+                        SOURCE_LABELS[appliance.source]].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(appliance.modelNumber)}
+                    className="p-1 text-gray-400 hover:text-red-600 rounded"
+                    title={`Remove ${appliance.modelNumber}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={form.modelNumber}
+              onChange={(e) => setForm({ ...form, modelNumber: e.target.value })}
+              placeholder="Model number"
+              className="flex-1 min-w-[140px] px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-partselect-blue"
+            />
+            <input
+              type="text"
+              value={form.brand}
+              onChange={(e) => setForm({ ...form, brand: e.target.value })}
+              placeholder="Brand (optional)"
+              className="w-36 px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-partselect-blue"
+            />
+            <select
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-partselect-blue"
+            >
+              <option value="">Appliance type</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={form.purchaseDate}
+              onChange={(e) => setForm({ ...form, purchaseDate: e.target.value })}
+              title="Purchase date (optional)"
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-partselect-blue"
+            />
+            <button
+              type="submit"
+              disabled={!form.modelNumber.trim()}
+              className="partselect-button text-sm py-1 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Save
+            </button>
+          </form>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyAppliances;
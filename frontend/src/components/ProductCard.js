@@ -0,0 +1,95 @@
+import React from 'react';
+import { Package, CheckCircle, Wrench, ShoppingCart, Clock } from 'lucide-react';
+
+const AVAILABILITY_BADGES = {
+  'in-stock': { label: 'In stock', className: 'bg-green-100 text-green-800' },
+  backordered: { label: 'Backordered', className: 'bg-amber-100 text-amber-800' },
+  'out-of-stock': { label: 'Out of stock', className: 'bg-red-100 text-red-800' }
+};
+
+const DIFFICULTY_LABELS = {
+  easy: 'Easy install',
+  medium: 'Moderate install',
+  hard: 'Difficult install'
+};
+
+const formatPrice = (price) => `$${Number(price).toFixed(2)}`;
+
+/**
+ * A product returned with a reply: image, today's price, availability, install difficulty and
+ * time, with follow-up actions for the part. Each action is sent as a structured request the
+ * backend runs without re-reading the text, along with the text shown in the chat. `pricing`
+ * and `shipping` are added by the backend; the list price and availability are used when they
+ * are missing.
+ */
+const ProductCard = ({ product, onAction, disabled }) => {
+  const badge = AVAILABILITY_BADGES[product.availability] || AVAILABILITY_BADGES['out-of-stock'];
+  const price = product.pricing?.price ?? product.price;
+  const canOrder = product.availability !== 'out-of-stock';
+
+  const actions = [
+    { label: 'Check compatibility', icon: CheckCircle, type: 'check_compatibility', message: `Check compatibility of part ${product.partNumber}` },
+    { label: 'Installation guide', icon: Wrench, type: 'installation_guide', message: `Installation guide for part ${product.partNumber}` },
+    { label: 'Add to cart', icon: ShoppingCart, type: 'add_to_cart', message: `Add part ${product.partNumber} to my cart`, hidden: !canOrder }
+  ];
+
+  return (
+    <div className="flex gap-3 p-3 bg-white border border-gray-200 rounded-lg">
+      <div className="w-16 h-16 flex-shrink-0 rounded bg-gray-50 flex items-center justify-center overflow-hidden">
+        {product.imageUrl ? (
+          <img src={product.imageUrl} alt={product.name} className="w-full h-full object-contain" />
+        ) : (
+          <Package className="w-8 h-8 text-gray-300" />
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900 truncate" title={product.name}>{product.name}</p>
+            <p className="text-xs text-gray-500">{product.brand} · {product.partNumber}</p>
+          </div>
+          <div className="text-right flex-shrink-0">
+            <p className="text-sm font-semibold text-gray-900">{price !== undefined ? formatPrice(price) : ''}</p>
+            {product.pricing?.onSale && (
+              <p className="text-xs text-gray-400 line-through">{formatPrice(product.pricing.listPrice)}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+          <span className={`px-2 py-0.5 rounded-full font-medium ${badge.className}`} title={product.shipping?.summary}>
+            {product.availability === 'in-stock' || !product.shipping?.leadTimeDays
+              ? badge.label
+              : `${badge.label} · ships in ~${product.shipping.leadTimeDays} days`}
+          </span>
+          {product.installationDifficulty && (
+            <span className="text-gray-600">{DIFFICULTY_LABELS[product.installationDifficulty] || product.installationDifficulty}</span>
+          )}
+          {product.estimatedInstallTime > 0 && (
+            <span className="flex items-center gap-1 text-gray-600">
+              <Clock className="w-3 h-3" />
+              {product.estimatedInstallTime} min
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2 mt-2">
+          {actions.filter(action => !action.hidden).map(({ label, icon: Icon, type, message }) => (
+            <button
+              key={label}
+              onClick={() => onAction(message, { type, partNumber: product.partNumber })}
+              disabled={disabled}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-partselect-blue border border-partselect-blue rounded-md hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Icon className="w-3 h-3" />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductCard;